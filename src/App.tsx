@@ -8,6 +8,7 @@ import MainScreen from './components/MainScreen';
 import BatchScreen from './components/BatchScreen';
 import RecentMedia from './components/RecentMedia';
 import Search from './components/Search';
+import SubtitleCompare from './components/SubtitleCompare';
 import Info from './components/Info';
 import Preferences from './components/Preferences';
 import Help from './components/Help';
@@ -311,6 +312,12 @@ function AppContent({
                   <span>Search</span>
                 </NavLink>
               </li>
+              <li>
+                <NavLink to="/compare" className={({ isActive }) => isActive ? 'active' : ''}>
+                  <i className="fas fa-columns"></i>
+                  <span>Compare</span>
+                </NavLink>
+              </li>
               <li>
                 <NavLink to="/info" className={({ isActive }) => isActive ? 'active' : ''}>
                   <i className="fas fa-info-circle"></i>
@@ -490,6 +497,13 @@ function AppContent({
             </ProtectedRoute>
           } />
 
+          <Route path="/compare" element={
+            <ProtectedRoute isAuthenticated={isAuthenticated}>
+              <SEO title="Compare Subtitles" description="Compare two subtitle versions cue by cue." />
+              <SubtitleCompare />
+            </ProtectedRoute>
+          } />
+
           <Route path="/info" element={
             <ProtectedRoute isAuthenticated={isAuthenticated}>
               <SEO title="Info" description="AI model information and pricing details." />
@@ -1,13 +1,26 @@
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import FileSelector from './FileSelector';
-import { LanguageInfo, DetectedLanguage, ServicesInfo, ServiceModel } from '../services/api';
+import { LanguageInfo, DetectedLanguage, ServicesInfo, ServiceModel, APIResponse } from '../services/api';
 import { logger } from '../utils/errorLogger';
 import { useAPI } from '../contexts/APIContext';
 import { generateFilename } from '../utils/filenameGenerator';
 import { getProcessingType } from '../config/fileFormats';
-import { ffmpegService } from '../services/ffmpegService';
-import { saveTextFile, readTextFile, formatFileSize } from '../hooks/useFileHandler';
-import { parseSubtitleFile } from '../utils/subtitleParser';
+import { ffmpegService, isAbortError } from '../services/ffmpegService';
+import { ffmpegPool } from '../services/ffmpegPool';
+import { transcribeInChunks } from '../services/chunkedTranscription';
+import { saveTextFile, saveBlobFile, readTextFile, toTranslationFile, formatFileSize } from '../hooks/useFileHandler';
+import { parseSubtitleFile, parseSubtitleEntries } from '../utils/subtitleParser';
+import { EXPORT_FORMATS, buildSubtitle, convertSubtitle, replaceExtension } from '../utils/subtitleConverter';
+import { FPS_CONVERSIONS, getFpsConversion, hasRetiming, retimeEntries, retimeSubtitle, RetimeOptions } from '../utils/subtitleTiming';
+import { BILINGUAL_LAYOUTS, getBilingualLayout, buildBilingualSubtitle } from '../utils/bilingualSubtitles';
+import { restoreTranslatedSubtitle } from '../utils/translationRoundTrip';
+import { AUDIO_FILTER_PRESETS } from '../utils/audioFilters';
+import { UPLOAD_ENCODINGS, getUploadEncoding, uploadsAsIs, estimateUploadSize } from '../utils/uploadEncoding';
+import { MuxContainer, MuxSubtitleTrack, AudioStreamInfo, describeAudioStream, getDefaultAudioStream } from '../utils/mediaStreams';
+import SubtitleEditorModal from './SubtitleEditorModal';
+import LintBadge from './LintBadge';
+import { lintEntries, summarizeLint, autoFixSubtitle, LintSummary } from '../utils/subtitleLinter';
+import { parseStyledEntries } from '../utils/subtitleMarkup';
 import * as fileFormatsConfig from '../config/fileFormats.json';
 
 // ── File type helpers ──
@@ -50,11 +63,33 @@ interface BatchFile {
   error?: string;
   outputContent?: string;
   outputFileName?: string;
+  /** Source transcript kept alongside a chained translation for bilingual export */
+  sourceContent?: string;
+  sourceFileName?: string;
+  bilingualContent?: string;
+  bilingualFileName?: string;
+  /** Video with the subtitles muxed in; downloaded straight away, not kept in memory */
+  muxedFileName?: string;
+  muxError?: string;
   creditsUsed?: number;
   duration?: number;
   characterCount?: number;
+  audioStreams?: AudioStreamInfo[];
+  /** Audio track to transcribe, defaults to the container's default track */
+  audioStreamIndex?: number;
 }
 
+// Only map a track explicitly when there is a choice to make
+const getChosenAudioStream = (file: BatchFile): number | undefined =>
+  (file.audioStreams?.length ?? 0) > 1 ? file.audioStreamIndex : undefined;
+
+const getSourceChannels = (file: BatchFile): number | undefined =>
+  file.audioStreams?.find(stream => stream.index === file.audioStreamIndex)?.channels;
+
+// A picked track or clean-up has to be applied even to formats the API takes
+const needsAudioProcessing = (file: BatchFile, audioFilters: string[]): boolean =>
+  getChosenAudioStream(file) !== undefined || audioFilters.length > 0;
+
 type WorkflowMode = 'transcribe-only' | 'transcribe-and-translate';
 
 interface BatchSettings {
@@ -64,6 +99,18 @@ interface BatchSettings {
   outputFormat: string;
   workflowMode: WorkflowMode;
   abortOnError: boolean;
+  /** Optional post-processing: shift applied to every output, in ms */
+  timeShiftMs: number;
+  /** Optional post-processing: FPS_CONVERSIONS id, empty for none */
+  fpsConversion: string;
+  /** BILINGUAL_LAYOUTS id for transcribe-and-translate runs, empty for none */
+  bilingualLayout: string;
+  /** Also write video inputs back out with the subtitles as soft tracks; empty for off */
+  muxOutput: '' | MuxContainer;
+  /** AUDIO_FILTER_PRESETS ids applied before transcription */
+  audioFilters: string[];
+  /** UPLOAD_ENCODINGS id for the audio sent to transcription */
+  uploadEncoding: string;
 }
 
 interface BatchScreenProps {
@@ -72,6 +119,8 @@ interface BatchScreenProps {
     debugMode?: boolean;
     debugLevel?: number;
     audio_language_detection_time?: number;
+    transcriptionChunkMinutes?: number;
+    uploadEncoding?: string;
     pollingIntervalSeconds?: number;
     pollingTimeoutSeconds?: number;
     defaultFilenameFormat?: string;
@@ -109,6 +158,12 @@ const BatchScreen: React.FC<BatchScreenProps> = ({ config, setAppProcessing, onP
     outputFormat: fileFormatsConfig.subtitle[0] || 'srt',
     workflowMode: 'transcribe-only',
     abortOnError: true,
+    timeShiftMs: 0,
+    fpsConversion: '',
+    bilingualLayout: '',
+    muxOutput: '',
+    audioFilters: [],
+    uploadEncoding: getUploadEncoding(config.uploadEncoding).id,
   });
 
   const enableChaining = batchSettings.workflowMode === 'transcribe-and-translate';
@@ -121,6 +176,7 @@ const BatchScreen: React.FC<BatchScreenProps> = ({ config, setAppProcessing, onP
   const [isLoadingLanguages, setIsLoadingLanguages] = useState(false);
   const [languagesLoaded, setLanguagesLoaded] = useState(false);
   const [showCompletionSummary, setShowCompletionSummary] = useState(false);
+  const [editingFileId, setEditingFileId] = useState<string | null>(null);
   const [showLanguageValidationModal, setShowLanguageValidationModal] = useState(false);
 
   const [batchCreditStats, setBatchCreditStats] = useState({
@@ -142,6 +198,16 @@ const BatchScreen: React.FC<BatchScreenProps> = ({ config, setAppProcessing, onP
 
   const processingRef = useRef(false);
   const shouldStopRef = useRef(false);
+  // Cancels the running audio extraction/mux when the batch is stopped
+  const ffmpegAbortRef = useRef<AbortController | null>(null);
+  // Cancels audio prepared ahead, when the batch stops or ends before using it
+  const prefetchAbortRef = useRef<AbortController | null>(null);
+  // Cancels the audio extraction of language detection
+  const detectionAbortRef = useRef<AbortController | null>(null);
+  // Cancels the cost-estimate probe of files removed before it finishes, by file ID
+  const analysisAbortRef = useRef(new Map<string, AbortController>());
+  // Audio being prepared ahead for upcoming files, by file ID
+  const preparedAudioRef = useRef(new Map<string, Promise<File | Blob>>());
   const queueRef = useRef<BatchFile[]>([]);
   const detectionInProgressRef = useRef<Set<string>>(new Set());
   const detectionTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -209,6 +275,16 @@ const BatchScreen: React.FC<BatchScreenProps> = ({ config, setAppProcessing, onP
     return hasAnyEstimate ? total : null;
   }, [servicesInfo, queue, batchSettings.transcriptionModel, batchSettings.translationModel, batchSettings.workflowMode, isProcessing, findModelPrice]);
 
+  // Total audio the pending transcriptions will upload, in bytes
+  const estimatedUploadSize = useMemo(() => {
+    const pending = queue.filter(file => file.status === 'pending' && file.type === 'transcription' && file.duration);
+    if (pending.length === 0) return null;
+    return pending.reduce((total, file) =>
+      total + (isAudioFile(file.name) && uploadsAsIs(file.name, needsAudioProcessing(file, batchSettings.audioFilters), batchSettings.uploadEncoding)
+        ? file.file.size
+        : estimateUploadSize(batchSettings.uploadEncoding, file.duration!)), 0);
+  }, [queue, batchSettings.audioFilters, batchSettings.uploadEncoding]);
+
   // Propagate estimated cost to parent
   useEffect(() => {
     onEstimatedCostChange?.(estimatedCost);
@@ -359,6 +435,12 @@ const BatchScreen: React.FC<BatchScreenProps> = ({ config, setAppProcessing, onP
     }));
   };
 
+  const handleAudioStreamChange = (fileId: string, audioStreamIndex: number) => {
+    setQueue(prev => prev.map(file =>
+      file.id === fileId ? { ...file, audioStreamIndex } : file
+    ));
+  };
+
   const handleSourceLanguageChange = (fileId: string, selectedLanguage: string) => {
     setQueue(prev => prev.map(file =>
       file.id === fileId ? { ...file, selectedSourceLanguage: selectedLanguage } : file
@@ -447,8 +529,10 @@ const BatchScreen: React.FC<BatchScreenProps> = ({ config, setAppProcessing, onP
       }
 
       setAppProcessing(true, 'Detecting languages...');
+      const abortController = new AbortController();
+      detectionAbortRef.current = abortController;
 
-      while (true) {
+      while (!abortController.signal.aborted) {
         const currentQ = queueRef.current;
         const file = currentQ.find(f =>
           f.status === 'pending' && !f.detectedLanguage && !detectionInProgressRef.current.has(f.id)
@@ -473,8 +557,16 @@ const BatchScreen: React.FC<BatchScreenProps> = ({ config, setAppProcessing, onP
           if (isAudioVideoFile(file.name)) {
             setAppProcessing(true, `Extracting audio from ${file.name} for language detection...`);
             const durationSeconds = config.audio_language_detection_time ?? 240;
-            fileToProcess = await ffmpegService.extractAudioFromVideo(file.file, undefined, durationSeconds);
+            fileToProcess = await ffmpegService.extractAudioFromVideo(file.file, undefined, {
+              durationSeconds,
+              audioStreamIndex: getChosenAudioStream(fileStillInQueue),
+              audioFilters: batchSettings.audioFilters,
+              sourceChannels: getSourceChannels(fileStillInQueue),
+              signal: abortController.signal,
+            });
             setAppProcessing(true, `Audio extracted, detecting language for ${file.name}...`);
+          } else {
+            fileToProcess = (await toTranslationFile(file.file)).file;
           }
 
           const durationSeconds = config.audio_language_detection_time ?? 240;
@@ -496,6 +588,12 @@ const BatchScreen: React.FC<BatchScreenProps> = ({ config, setAppProcessing, onP
             ));
           }
         } catch (error: any) {
+          if (isAbortError(error)) {
+            setQueue(prev => prev.map(f =>
+              f.id === file.id ? { ...f, status: 'pending' as const } : f
+            ));
+            break;
+          }
           setQueue(prev => prev.map(f =>
             f.id === file.id ? { ...f, status: 'pending' as const, error: `Language detection error: ${error.message}` } : f
           ));
@@ -504,7 +602,7 @@ const BatchScreen: React.FC<BatchScreenProps> = ({ config, setAppProcessing, onP
         await new Promise(resolve => setTimeout(resolve, 1000));
       }
 
-      setAppProcessing(true, 'Language detection completed for all files');
+      setAppProcessing(true, abortController.signal.aborted ? 'Language detection cancelled' : 'Language detection completed for all files');
       setTimeout(() => setAppProcessing(false), 1500);
       detectionInProgressRef.current.clear();
     } catch (error) {
@@ -512,18 +610,25 @@ const BatchScreen: React.FC<BatchScreenProps> = ({ config, setAppProcessing, onP
       setAppProcessing(true, 'Language detection failed');
       setTimeout(() => setAppProcessing(false), 3000);
     } finally {
+      detectionAbortRef.current = null;
       setIsDetectingLanguages(false);
     }
-  }, [queue, isDetectingLanguages, isProcessing, isAuthenticated]);
+  }, [queue, isDetectingLanguages, isProcessing, isAuthenticated, batchSettings.audioFilters]);
 
   // ── Analyze file for cost estimation ──
   const analyzeFileForCost = async (file: File, fileId: string, fileType: 'transcription' | 'translation') => {
+    const abortController = new AbortController();
+    analysisAbortRef.current.set(fileId, abortController);
     try {
       if (fileType === 'transcription') {
-        const mediaInfo = await ffmpegService.getMediaInfo(file);
-        if (mediaInfo.duration) {
-          setQueue(prev => prev.map(f => f.id === fileId ? { ...f, duration: mediaInfo.duration } : f));
-        }
+        // Header parsing covers the common formats without loading FFmpeg
+        const mediaInfo = await ffmpegService.probeMediaInfo(file, abortController.signal);
+        setQueue(prev => prev.map(f => f.id === fileId ? {
+          ...f,
+          duration: mediaInfo.duration ?? f.duration,
+          audioStreams: mediaInfo.audioStreams,
+          audioStreamIndex: getDefaultAudioStream(mediaInfo.audioStreams)?.index,
+        } : f));
       } else {
         const textContent = await readTextFile(file);
         const subtitleInfo = parseSubtitleFile(textContent, file.name);
@@ -532,7 +637,15 @@ const BatchScreen: React.FC<BatchScreenProps> = ({ config, setAppProcessing, onP
         }
       }
     } catch (error) {
-      logger.warn('BatchScreen', `Could not analyze ${file.name} for cost estimation`, error);
+      if (!isAbortError(error)) logger.warn('BatchScreen', `Could not analyze ${file.name} for cost estimation`, error);
+    } finally {
+      analysisAbortRef.current.delete(fileId);
+    }
+  };
+
+  const cancelAnalysis = (fileId?: string) => {
+    for (const [id, controller] of analysisAbortRef.current) {
+      if (fileId === undefined || id === fileId) controller.abort();
     }
   };
 
@@ -583,11 +696,15 @@ const BatchScreen: React.FC<BatchScreenProps> = ({ config, setAppProcessing, onP
   };
 
   const removeFromQueue = (fileId: string) => {
+    cancelAnalysis(fileId);
     setQueue(prev => prev.filter(file => file.id !== fileId));
   };
 
   const clearQueue = () => {
-    if (!isProcessing) setQueue([]);
+    if (isProcessing) return;
+    cancelAnalysis();
+    detectionAbortRef.current?.abort();
+    setQueue([]);
   };
 
   const moveFileUp = (index: number) => {
@@ -701,26 +818,102 @@ const BatchScreen: React.FC<BatchScreenProps> = ({ config, setAppProcessing, onP
     });
   };
 
+  // Long recordings go through as separate pieces; the merged result is
+  // shaped like a completed API response so the rest of the pipeline
+  // doesn't need to know
+  /** Track and cleanup the audio of a file is taken with */
+  const getAudioSelection = (file: BatchFile) => ({
+    audioStreamIndex: getChosenAudioStream(file),
+    audioFilters: batchSettings.audioFilters,
+    sourceChannels: getSourceChannels(file),
+  });
+
+  const transcribeFileInChunks = async (
+    file: BatchFile,
+    audio: File | Blob,
+    transcription: { language: string; api: string },
+    chunkSeconds: number
+  ): Promise<APIResponse> => {
+    let creditsUsed = 0;
+    const encoding = getUploadEncoding(batchSettings.uploadEncoding);
+    const entries = await transcribeInChunks(
+      audio instanceof File ? audio : new File([audio], replaceExtension(file.name, encoding.extension), { type: encoding.mimeType }),
+      { initiateTranscription, checkTranscriptionStatus, downloadFile },
+      {
+        durationSeconds: file.duration!,
+        chunkSeconds,
+        transcription,
+        uploadEncoding: encoding.id,
+        // Re-cut from the original rather than re-encoding the encoded audio
+        source: audio === file.file ? undefined : { file: file.file, selection: getAudioSelection(file) },
+        pollingIntervalMs: (config.pollingIntervalSeconds || 10) * 1000,
+        pollingTimeoutMs: (config.pollingTimeoutSeconds || 7200) * 1000,
+        signal: ffmpegAbortRef.current?.signal,
+        onProgress: ({ chunk, total, stage, attempt }) => {
+          setAppProcessing(true, stage === 'retrying'
+            ? `Retrying part ${chunk}/${total} of ${file.name} (attempt ${attempt})...`
+            : `Transcribing part ${chunk}/${total} of ${file.name}...`);
+          const done = stage === 'done' ? chunk : chunk - 1;
+          setQueue(prev => prev.map(f => f.id === file.id ? { ...f, progress: Math.round(10 + (done / total) * 50) } : f));
+        },
+        onCredits: (used) => {
+          creditsUsed += used;
+          updateFileCredits(file.id, creditsUsed);
+        },
+      }
+    );
+    return { status: 'COMPLETED', data: { return_content: buildSubtitle(entries, 'srt') } };
+  };
+
+  /**
+   * Extracts or converts the audio the API gets for a file, on whichever
+   * pool worker is free. Files the API takes as they are come back as is.
+   */
+  const prepareTranscriptionAudio = async (file: BatchFile, signal = ffmpegAbortRef.current?.signal): Promise<File | Blob> => {
+    const extractOptions = {
+      ...getAudioSelection(file),
+      uploadEncoding: batchSettings.uploadEncoding,
+      signal,
+    };
+
+    if (isVideoFile(file.name)) {
+      return ffmpegPool.run(service => service.extractAudioFromVideo(file.file, undefined, extractOptions));
+    }
+    if (isAudioFile(file.name) && !uploadsAsIs(file.name, needsAudioProcessing(file, batchSettings.audioFilters), batchSettings.uploadEncoding)) {
+      return ffmpegPool.run(service => service.convertAudioToMp3(file.file, undefined, extractOptions));
+    }
+    return file.file;
+  };
+
+  /**
+   * Starts audio preparation for the transcription files from `fromIndex`
+   * on, one per pool worker, so it overlaps the API work of earlier files
+   */
+  const prefetchAudio = (files: BatchFile[], fromIndex: number) => {
+    const upcoming = files
+      .slice(fromIndex)
+      .filter(f => f.type === 'transcription' && f.status !== 'completed')
+      .slice(0, ffmpegPool.size);
+    for (const file of upcoming) {
+      if (preparedAudioRef.current.has(file.id)) continue;
+      const prepared = prepareTranscriptionAudio(file, prefetchAbortRef.current?.signal);
+      // Failures surface when the file's turn comes
+      prepared.catch(() => undefined);
+      preparedAudioRef.current.set(file.id, prepared);
+    }
+  };
+
   // ── Process individual files ──
   const processTranscriptionFile = async (file: BatchFile) => {
-    let fileToProcess: File | Blob = file.file;
-
-    // Extract/convert audio if needed
+    // Extract/convert audio if needed; usually already under way
     setQueue(prev => prev.map(f =>
       f.id === file.id ? { ...f, progress: 5 } : f
     ));
+    setAppProcessing(true, `Preparing audio for ${file.name}...`);
 
-    if (isVideoFile(file.name)) {
-      setAppProcessing(true, `Extracting audio from video for ${file.name}...`);
-      fileToProcess = await ffmpegService.extractAudioFromVideo(file.file);
-    } else if (isAudioFile(file.name)) {
-      const ext = file.name.toLowerCase().split('.').pop();
-      const directFormats = ['mp3', 'wav', 'flac', 'm4a'];
-      if (ext && !directFormats.includes(ext)) {
-        setAppProcessing(true, `Converting audio format for ${file.name}...`);
-        fileToProcess = await ffmpegService.convertAudioToMp3(file.file);
-      }
-    }
+    const prepared = preparedAudioRef.current.get(file.id) ?? prepareTranscriptionAudio(file);
+    preparedAudioRef.current.delete(file.id);
+    const fileToProcess = await prepared;
 
     // Initiate transcription
     setQueue(prev => prev.map(f =>
@@ -728,18 +921,25 @@ const BatchScreen: React.FC<BatchScreenProps> = ({ config, setAppProcessing, onP
     ));
     setAppProcessing(true, `Initiating transcription for ${file.name}...`);
 
-    const initResult = await initiateTranscription(fileToProcess, {
+    const transcription = {
       language: file.selectedSourceLanguage || file.detectedLanguage?.ISO_639_1 || 'auto',
       api: batchSettings.transcriptionModel,
-      returnContent: true,
-    });
+    };
+    const chunkSeconds = (config.transcriptionChunkMinutes || 0) * 60;
+    const useChunks = !!chunkSeconds && !!file.duration && file.duration > chunkSeconds;
+
+    const initResult: APIResponse = useChunks
+      ? await transcribeFileInChunks(file, fileToProcess, transcription, chunkSeconds)
+      : await initiateTranscription(fileToProcess, { ...transcription, returnContent: true });
 
     if (initResult.status === 'ERROR') {
       throw new Error(initResult.errors?.join(', ') || 'Transcription initiation failed');
     }
 
     let transcriptionResult: any;
-    if (initResult.status === 'COMPLETED' && initResult.data) {
+    if (useChunks) {
+      transcriptionResult = initResult;
+    } else if (initResult.status === 'COMPLETED' && initResult.data) {
       if (typeof initResult.data.total_price === 'number' && initResult.data.total_price > 0) {
         updateFileCredits(file.id, initResult.data.total_price);
       }
@@ -759,6 +959,7 @@ const BatchScreen: React.FC<BatchScreenProps> = ({ config, setAppProcessing, onP
     }
 
     // Chained translation
+    const transcriptContent = outputContent;
     if (enableChaining && outputContent) {
       setQueue(prev => prev.map(f => f.id === file.id ? { ...f, progress: 60 } : f));
       setAppProcessing(true, `Starting translation chain for ${file.name}...`);
@@ -798,15 +999,90 @@ const BatchScreen: React.FC<BatchScreenProps> = ({ config, setAppProcessing, onP
     }
 
     // Store output
+    const translatedContent = enableChaining ? outputContent : undefined;
     if (outputContent) {
+      outputContent = finalizeOutput(outputContent, file.name);
       const type = enableChaining ? 'translation' : 'transcription';
       const targetLang = enableChaining ? batchSettings.targetLanguage : (file.selectedSourceLanguage || file.detectedLanguage?.ISO_639_1);
       const outputFileName = generateOutputFileName(file.name, type, targetLang);
 
+      let bilingual: Partial<BatchFile> = {};
+      const layout = getBilingualLayout(batchSettings.bilingualLayout);
+      if (enableChaining && layout && transcriptContent && translatedContent) {
+        const sourceLang = file.selectedSourceLanguage || file.detectedLanguage?.ISO_639_1;
+        const retime = getRetimeOptions();
+        const translationEntries = retimeEntries(parseSubtitleEntries(translatedContent, file.name), retime);
+        const sourceEntries = retimeEntries(parseSubtitleEntries(transcriptContent, file.name), retime);
+        bilingual = {
+          sourceContent: finalizeOutput(transcriptContent, file.name),
+          sourceFileName: generateOutputFileName(file.name, 'transcription', sourceLang),
+          bilingualContent: buildBilingualSubtitle(translationEntries, sourceEntries, layout.id),
+          bilingualFileName: replaceExtension(outputFileName, `bilingual.${layout.extension}`),
+        };
+      }
+
       setQueue(prev => prev.map(f =>
-        f.id === file.id ? { ...f, outputContent, outputFileName, progress: 100 } : f
+        f.id === file.id ? { ...f, outputContent, outputFileName, ...bilingual, progress: 100 } : f
       ));
+
+      if (batchSettings.muxOutput && isVideoFile(file.name)) {
+        await muxIntoVideo(file, transcriptContent, translatedContent);
+      }
+    }
+  };
+
+  /**
+   * Writes the video back out with the transcript/translation as soft
+   * subtitle tracks. A failure here doesn't fail the file: the subtitles
+   * themselves are still available.
+   */
+  const muxIntoVideo = async (file: BatchFile, transcriptContent: string, translatedContent?: string) => {
+    const container = batchSettings.muxOutput as MuxContainer;
+    const retime = getRetimeOptions();
+    const toSrt = (content: string) => buildSubtitle(retimeEntries(parseStyledEntries(content, file.name), retime), 'srt');
+    const sourceLang = file.selectedSourceLanguage || file.detectedLanguage?.ISO_639_1;
+
+    const tracks: MuxSubtitleTrack[] = [];
+    if (translatedContent) {
+      tracks.push({ content: toSrt(translatedContent), fileName: 'translation.srt', language: batchSettings.targetLanguage, isDefault: true });
+    }
+    tracks.push({ content: toSrt(transcriptContent), fileName: 'transcript.srt', language: sourceLang, isDefault: !translatedContent });
+
+    setAppProcessing(true, `Adding subtitles to ${file.name}...`);
+    try {
+      const blob = await ffmpegService.muxSubtitles(file.file, tracks, container, undefined, ffmpegAbortRef.current?.signal);
+      const muxedFileName = replaceExtension(file.name, `subtitled.${container}`);
+      saveBlobFile(blob, muxedFileName);
+      setQueue(prev => prev.map(f => f.id === file.id ? { ...f, muxedFileName } : f));
+    } catch (error: any) {
+      if (isAbortError(error)) throw error;
+      logger.error('BatchScreen', `Failed to add subtitles to ${file.name}:`, error);
+      setQueue(prev => prev.map(f => f.id === file.id ? { ...f, muxError: error.message || 'Unknown error' } : f));
+    }
+  };
+
+  const getRetimeOptions = (): RetimeOptions => {
+    const conversion = getFpsConversion(batchSettings.fpsConversion);
+    return {
+      offsetMs: batchSettings.timeShiftMs,
+      inFps: conversion?.inFps,
+      outFps: conversion?.outFps,
+    };
+  };
+
+  /** Applies the optional retiming step and converts to the output format */
+  const finalizeOutput = (content: string, fileName: string): string => {
+    const retime = getRetimeOptions();
+    if (hasRetiming(retime)) {
+      try {
+        return retimeSubtitle(content, fileName, retime, batchSettings.outputFormat);
+      } catch (error) {
+        // Plain transcripts have no cues to move
+        logger.warn('BatchScreen', `Could not retime ${fileName}, keeping the original timing`, error);
+        return content;
+      }
     }
+    return convertSubtitle(content, fileName, batchSettings.outputFormat);
   };
 
   const processTranslationFile = async (file: BatchFile) => {
@@ -815,7 +1091,8 @@ const BatchScreen: React.FC<BatchScreenProps> = ({ config, setAppProcessing, onP
     ));
     setAppProcessing(true, `Initiating translation for ${file.name}...`);
 
-    const initResult = await initiateTranslation(file.file, {
+    const upload = await toTranslationFile(file.file);
+    const initResult = await initiateTranslation(upload.file, {
       translateFrom: file.selectedSourceLanguage || file.detectedLanguage?.ISO_639_1 || 'auto',
       translateTo: batchSettings.targetLanguage,
       api: batchSettings.translationModel,
@@ -846,6 +1123,7 @@ const BatchScreen: React.FC<BatchScreenProps> = ({ config, setAppProcessing, onP
     }
 
     if (outputContent) {
+      outputContent = finalizeOutput(restoreTranslatedSubtitle(outputContent, upload.originalText, file.name), file.name);
       const outputFileName = generateOutputFileName(file.name, 'translation', batchSettings.targetLanguage);
       setQueue(prev => prev.map(f =>
         f.id === file.id ? { ...f, outputContent, outputFileName, progress: 100 } : f
@@ -870,6 +1148,13 @@ const BatchScreen: React.FC<BatchScreenProps> = ({ config, setAppProcessing, onP
         f.id === file.id ? { ...f, status: 'completed' as const, progress: 100 } : f
       ));
     } catch (error: any) {
+      if (isAbortError(error)) {
+        // Stopped mid-file: leave it queued so the next run picks it up
+        setQueue(prev => prev.map(f =>
+          f.id === file.id ? { ...f, status: 'pending' as const, progress: 0 } : f
+        ));
+        return;
+      }
       logger.error('BatchScreen', `Failed to process file: ${file.name}`, error);
       setQueue(prev => prev.map(f =>
         f.id === file.id ? { ...f, status: 'error' as const, error: error.message || 'Processing failed' } : f
@@ -893,6 +1178,8 @@ const BatchScreen: React.FC<BatchScreenProps> = ({ config, setAppProcessing, onP
     setOverallProgress(0);
     processingRef.current = true;
     shouldStopRef.current = false;
+    ffmpegAbortRef.current = new AbortController();
+    prefetchAbortRef.current = new AbortController();
     resetCreditTracking();
     setBatchStats({ startTime: new Date(), endTime: null, totalFilesProcessed: queue.length, successfulFiles: 0 });
     setAppProcessing(true, `Starting batch processing of ${queue.length} files...`);
@@ -904,6 +1191,7 @@ const BatchScreen: React.FC<BatchScreenProps> = ({ config, setAppProcessing, onP
       for (let i = 0; i < originalQueue.length; i++) {
         if (shouldStopRef.current) break;
         setCurrentFileIndex(i);
+        prefetchAudio(originalQueue, i);
         await processFile(originalQueue[i], i);
         const progress = Math.round(((i + 1) / totalFiles) * 100);
         setOverallProgress(progress);
@@ -930,14 +1218,22 @@ const BatchScreen: React.FC<BatchScreenProps> = ({ config, setAppProcessing, onP
       setShowCompletionSummary(true);
       setTimeout(() => setAppProcessing(false), 3000);
     } finally {
+      // Preparation still running for files the batch didn't get to
+      prefetchAbortRef.current?.abort();
+      preparedAudioRef.current.clear();
+      ffmpegPool.release();
       setIsProcessing(false);
       setCurrentFileIndex(-1);
       processingRef.current = false;
+      ffmpegAbortRef.current = null;
+      prefetchAbortRef.current = null;
     }
   };
 
   const stopBatchProcessing = () => {
     shouldStopRef.current = true;
+    ffmpegAbortRef.current?.abort();
+    prefetchAbortRef.current?.abort();
     setIsProcessing(false);
     setCurrentFileIndex(-1);
     processingRef.current = false;
@@ -950,11 +1246,24 @@ const BatchScreen: React.FC<BatchScreenProps> = ({ config, setAppProcessing, onP
     }
   };
 
+  /** Stores edits back on the queue item so later downloads include them */
+  const saveEditedFile = (fileId: string, content: string) => {
+    const file = queue.find(f => f.id === fileId);
+    setQueue(prev => prev.map(f => f.id === fileId ? { ...f, outputContent: content } : f));
+    if (file?.outputFileName) saveTextFile(content, file.outputFileName);
+    setEditingFileId(null);
+  };
+
   const downloadAllFiles = async () => {
-    const completed = queue.filter(f => f.status === 'completed' && f.outputContent && f.outputFileName);
-    for (let i = 0; i < completed.length; i++) {
-      downloadSingleFile(completed[i]);
-      if (i < completed.length - 1) {
+    const downloads: { content: string; fileName: string }[] = [];
+    queue.filter(f => f.status === 'completed').forEach(f => {
+      if (f.outputContent && f.outputFileName) downloads.push({ content: f.outputContent, fileName: f.outputFileName });
+      if (f.sourceContent && f.sourceFileName) downloads.push({ content: f.sourceContent, fileName: f.sourceFileName });
+      if (f.bilingualContent && f.bilingualFileName) downloads.push({ content: f.bilingualContent, fileName: f.bilingualFileName });
+    });
+    for (let i = 0; i < downloads.length; i++) {
+      saveTextFile(downloads[i].content, downloads[i].fileName);
+      if (i < downloads.length - 1) {
         await new Promise(resolve => setTimeout(resolve, 200));
       }
     }
@@ -964,9 +1273,31 @@ const BatchScreen: React.FC<BatchScreenProps> = ({ config, setAppProcessing, onP
   useEffect(() => {
     return () => {
       if (detectionTimeoutRef.current) clearTimeout(detectionTimeoutRef.current);
+      detectionAbortRef.current?.abort();
+      cancelAnalysis();
     };
   }, []);
 
+  // Lint results per completed output, shown as a badge on each row
+  const lintSummaries = useMemo(() => {
+    const summaries = new Map<string, LintSummary>();
+    queue.forEach(f => {
+      if (f.status === 'completed' && f.outputContent) {
+        // Plain transcripts have no cues to lint
+        const entries = parseSubtitleEntries(f.outputContent, f.outputFileName || f.name);
+        if (entries.length > 0) summaries.set(f.id, summarizeLint(lintEntries(entries)));
+      }
+    });
+    return summaries;
+  }, [queue]);
+
+  const autoFixFile = (fileId: string) => {
+    setQueue(prev => prev.map(f => f.id === fileId && f.outputContent
+      ? { ...f, outputContent: autoFixSubtitle(f.outputContent, f.outputFileName || f.name) }
+      : f
+    ));
+  };
+
   // ── Render ──
   const completedFiles = queue.filter(f => f.status === 'completed' && f.outputContent);
 
@@ -1102,6 +1433,29 @@ const BatchScreen: React.FC<BatchScreenProps> = ({ config, setAppProcessing, onP
                     </div>
                   )}
 
+                  {file.type === 'transcription' && file.audioStreams && file.audioStreams.length > 1 && (
+                    <div style={{ marginTop: '8px' }}>
+                      <label style={{ fontSize: '11px', color: 'var(--text-secondary)', display: 'block', marginBottom: '4px' }}>
+                        Audio Track:
+                      </label>
+                      <select
+                        value={file.audioStreamIndex ?? ''}
+                        onChange={(e) => handleAudioStreamChange(file.id, parseInt(e.target.value, 10))}
+                        disabled={isProcessing || isDetectingLanguages}
+                        style={{
+                          fontSize: '11px', padding: '2px 4px',
+                          border: '1px solid var(--border-color)', borderRadius: '3px',
+                          backgroundColor: 'var(--bg-primary)', color: 'var(--text-primary)',
+                          maxWidth: '300px',
+                        }}
+                      >
+                        {file.audioStreams.map(stream => (
+                          <option key={stream.index} value={stream.index}>{describeAudioStream(stream)}</option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+
                   {file.type === 'transcription' && contextTranscriptionInfo && batchSettings.transcriptionModel && (
                     <div style={{ marginTop: '8px' }}>
                       <label style={{ fontSize: '11px', color: 'var(--text-secondary)', display: 'block', marginBottom: '4px' }}>
@@ -1143,6 +1497,78 @@ const BatchScreen: React.FC<BatchScreenProps> = ({ config, setAppProcessing, onP
                       Download {file.outputFileName}
                     </button>
                   )}
+                  {file.status === 'completed' && file.outputContent && (
+                    <button
+                      onClick={() => setEditingFileId(file.id)}
+                      style={{
+                        marginTop: '6px', marginLeft: '6px', padding: '4px 10px', fontSize: '11px',
+                        backgroundColor: 'var(--bg-primary)', color: 'var(--text-primary)',
+                        border: '1px solid var(--border-color)', borderRadius: '3px', cursor: 'pointer',
+                      }}
+                    >
+                      <i className="fas fa-edit" style={{ marginRight: '4px' }}></i>
+                      Edit
+                    </button>
+                  )}
+                  {file.status === 'completed' && file.sourceContent && file.sourceFileName && (
+                    <button
+                      onClick={() => saveTextFile(file.sourceContent!, file.sourceFileName!)}
+                      title={file.sourceFileName}
+                      style={{
+                        marginTop: '6px', marginLeft: '6px', padding: '4px 10px', fontSize: '11px',
+                        backgroundColor: 'var(--bg-primary)', color: 'var(--text-primary)',
+                        border: '1px solid var(--border-color)', borderRadius: '3px', cursor: 'pointer',
+                      }}
+                    >
+                      <i className="fas fa-file-alt" style={{ marginRight: '4px' }}></i>
+                      Source
+                    </button>
+                  )}
+                  {file.status === 'completed' && file.bilingualContent && file.bilingualFileName && (
+                    <button
+                      onClick={() => saveTextFile(file.bilingualContent!, file.bilingualFileName!)}
+                      title={file.bilingualFileName}
+                      style={{
+                        marginTop: '6px', marginLeft: '6px', padding: '4px 10px', fontSize: '11px',
+                        backgroundColor: 'var(--bg-primary)', color: 'var(--text-primary)',
+                        border: '1px solid var(--border-color)', borderRadius: '3px', cursor: 'pointer',
+                      }}
+                    >
+                      <i className="fas fa-language" style={{ marginRight: '4px' }}></i>
+                      Bilingual
+                    </button>
+                  )}
+                  {file.muxedFileName && (
+                    <span style={{ marginTop: '6px', marginLeft: '6px', fontSize: '11px', color: 'var(--success-color)' }} title={file.muxedFileName}>
+                      <i className="fas fa-film" style={{ marginRight: '4px' }}></i>
+                      Video saved
+                    </span>
+                  )}
+                  {file.muxError && (
+                    <span style={{ marginTop: '6px', marginLeft: '6px', fontSize: '11px', color: 'var(--danger-color)' }} title={file.muxError}>
+                      <i className="fas fa-exclamation-triangle" style={{ marginRight: '4px' }}></i>
+                      Video not created
+                    </span>
+                  )}
+                  {lintSummaries.has(file.id) && (
+                    <span style={{ marginTop: '6px', marginLeft: '6px', display: 'inline-flex', alignItems: 'center', gap: '6px' }}>
+                      <LintBadge summary={lintSummaries.get(file.id)!} />
+                      {lintSummaries.get(file.id)!.total > 0 && (
+                        <button
+                          onClick={() => autoFixFile(file.id)}
+                          title="Fix overlaps, long lines, short cues and fast reading speed"
+                          style={{
+                            padding: '4px 10px', fontSize: '11px',
+                            backgroundColor: 'var(--bg-primary)', color: 'var(--text-primary)',
+                            border: '1px solid var(--border-color)', borderRadius: '3px', cursor: 'pointer',
+                          }}
+                        >
+                          <i className="fas fa-magic" style={{ marginRight: '4px' }}></i>
+                          Auto-fix
+                        </button>
+                      )}
+                    </span>
+                  )}
 
                   {file.error && <div style={{ fontSize: '12px', color: 'var(--danger-color)', marginTop: '4px' }}>Error: {file.error}</div>}
                 </div>
@@ -1363,11 +1789,106 @@ const BatchScreen: React.FC<BatchScreenProps> = ({ config, setAppProcessing, onP
               disabled={isProcessing}
               style={{ width: '100%', padding: '5px' }}
             >
-              {fileFormatsConfig.subtitle.map(format => (
-                <option key={format} value={format}>{format.toUpperCase()}</option>
+              {EXPORT_FORMATS.map(format => (
+                <option key={format.id} value={format.id}>{format.label}</option>
               ))}
             </select>
           </div>
+          <div style={{ marginBottom: '15px' }}>
+            <label style={{ display: 'block', marginBottom: '5px' }}>Time Shift (ms):</label>
+            <input
+              type="number"
+              step="100"
+              value={batchSettings.timeShiftMs}
+              onChange={(e) => setBatchSettings(prev => ({ ...prev, timeShiftMs: parseInt(e.target.value, 10) || 0 }))}
+              disabled={isProcessing}
+              style={{ width: '100%', padding: '5px', boxSizing: 'border-box' }}
+            />
+          </div>
+          <div style={{ marginBottom: '15px' }}>
+            <label style={{ display: 'block', marginBottom: '5px' }}>Frame Rate Conversion:</label>
+            <select
+              value={batchSettings.fpsConversion}
+              onChange={(e) => setBatchSettings(prev => ({ ...prev, fpsConversion: e.target.value }))}
+              disabled={isProcessing}
+              style={{ width: '100%', padding: '5px' }}
+            >
+              <option value="">None</option>
+              {FPS_CONVERSIONS.map(c => (
+                <option key={c.id} value={c.id}>{c.label}</option>
+              ))}
+            </select>
+          </div>
+          <div style={{ marginBottom: '15px', opacity: enableChaining ? 1 : 0.5 }}>
+            <label style={{ display: 'block', marginBottom: '5px' }}>Bilingual Export:</label>
+            <select
+              value={batchSettings.bilingualLayout}
+              onChange={(e) => setBatchSettings(prev => ({ ...prev, bilingualLayout: e.target.value }))}
+              disabled={isProcessing || !enableChaining}
+              style={{ width: '100%', padding: '5px' }}
+            >
+              <option value="">Off</option>
+              {BILINGUAL_LAYOUTS.map(layout => (
+                <option key={layout.id} value={layout.id}>{layout.label}</option>
+              ))}
+            </select>
+            {!enableChaining && (
+              <p style={{ fontSize: '12px', color: 'var(--text-secondary)', fontStyle: 'italic', margin: '5px 0 0 0' }}>
+                Available with the "Auto-translate" workflow
+              </p>
+            )}
+          </div>
+          <div style={{ marginBottom: '15px' }}>
+            <label style={{ display: 'block', marginBottom: '5px' }}>Video With Subtitles:</label>
+            <select
+              value={batchSettings.muxOutput}
+              onChange={(e) => setBatchSettings(prev => ({ ...prev, muxOutput: e.target.value as BatchSettings['muxOutput'] }))}
+              disabled={isProcessing}
+              style={{ width: '100%', padding: '5px' }}
+            >
+              <option value="">Off</option>
+              <option value="mkv">MKV (soft subtitle tracks)</option>
+              <option value="mp4">MP4 (mov_text tracks)</option>
+            </select>
+            {batchSettings.muxOutput && (
+              <p style={{ fontSize: '12px', color: 'var(--text-secondary)', fontStyle: 'italic', margin: '5px 0 0 0' }}>
+                Video inputs are saved as each file finishes
+              </p>
+            )}
+          </div>
+          <div style={{ marginBottom: '15px' }}>
+            <label style={{ display: 'block', marginBottom: '5px' }}>Audio Cleanup:</label>
+            {AUDIO_FILTER_PRESETS.map(preset => (
+              <label key={preset.id} title={preset.description} style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '3px' }}>
+                <input
+                  type="checkbox"
+                  checked={batchSettings.audioFilters.includes(preset.id)}
+                  onChange={(e) => setBatchSettings(prev => ({
+                    ...prev,
+                    audioFilters: e.target.checked ? [...prev.audioFilters, preset.id] : prev.audioFilters.filter(f => f !== preset.id),
+                  }))}
+                  disabled={isProcessing}
+                />
+                {preset.label}
+              </label>
+            ))}
+          </div>
+          <div style={{ marginBottom: '15px' }}>
+            <label style={{ display: 'block', marginBottom: '5px' }}>Upload Encoding:</label>
+            <select
+              value={batchSettings.uploadEncoding}
+              onChange={(e) => setBatchSettings(prev => ({ ...prev, uploadEncoding: e.target.value }))}
+              disabled={isProcessing}
+              style={{ width: '100%', padding: '5px' }}
+            >
+              {UPLOAD_ENCODINGS.map(encoding => (
+                <option key={encoding.id} value={encoding.id}>{encoding.label}</option>
+              ))}
+            </select>
+            <p style={{ fontSize: '12px', color: 'var(--text-secondary)', fontStyle: 'italic', margin: '5px 0 0 0' }}>
+              {getUploadEncoding(batchSettings.uploadEncoding).description}
+            </p>
+          </div>
         </div>
 
         {/* Processing Options */}
@@ -1427,25 +1948,31 @@ const BatchScreen: React.FC<BatchScreenProps> = ({ config, setAppProcessing, onP
                 )}
               </div>
             )}
+            {!isProcessing && estimatedUploadSize !== null && (
+              <div style={{ fontSize: '12px', marginTop: '2px', color: 'var(--text-muted)' }}>
+                Est. upload: ~{formatFileSize(estimatedUploadSize)} ({getUploadEncoding(batchSettings.uploadEncoding).label})
+              </div>
+            )}
           </div>
 
           <div style={{ display: 'flex', gap: '10px' }}>
             {/* Language Detection Button */}
             {!isProcessing && queue.some(file => !file.detectedLanguage) && (
               <button
-                onClick={() => processLanguageDetectionQueue(undefined, true)}
-                disabled={isDetectingLanguages || !isAuthenticated}
+                onClick={() => isDetectingLanguages ? detectionAbortRef.current?.abort() : processLanguageDetectionQueue(undefined, true)}
+                disabled={!isAuthenticated}
+                title={isDetectingLanguages ? 'Stop detecting languages' : undefined}
                 style={{
                   padding: '10px 20px',
                   backgroundColor: isDetectingLanguages ? 'var(--text-muted)' : '#17a2b8',
                   color: 'white', border: 'none', borderRadius: '4px',
-                  cursor: isDetectingLanguages || !isAuthenticated ? 'not-allowed' : 'pointer',
+                  cursor: !isAuthenticated ? 'not-allowed' : 'pointer',
                   fontSize: '16px', minWidth: '160px',
                   display: 'flex', alignItems: 'center', justifyContent: 'center', gap: '8px',
                 }}
               >
                 {isDetectingLanguages ? (
-                  <><i className="fas fa-spinner fa-spin"></i> Detecting...</>
+                  <><i className="fas fa-spinner fa-spin"></i> Cancel Detection</>
                 ) : (
                   'Detect Languages'
                 )}
@@ -1643,6 +2170,19 @@ const BatchScreen: React.FC<BatchScreenProps> = ({ config, setAppProcessing, onP
         </div>
       )}
 
+      {(() => {
+        const editingFile = queue.find(f => f.id === editingFileId);
+        return editingFile?.outputContent ? (
+          <SubtitleEditorModal
+            isOpen={true}
+            onClose={() => setEditingFileId(null)}
+            content={editingFile.outputContent}
+            fileName={editingFile.outputFileName || editingFile.name}
+            onSave={(content) => saveEditedFile(editingFile.id, content)}
+          />
+        ) : null;
+      })()}
+
       <style>{`
         @media (max-width: 1024px) {
           .batch-settings-panel {
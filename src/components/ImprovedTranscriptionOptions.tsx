@@ -8,18 +8,21 @@ import {
   getConsolidatedLanguageById,
   getConsolidatedLanguageByCode
 } from '../utils/languageMapper';
-import * as fileFormatsConfig from '../config/fileFormats.json';
+import { EXPORT_FORMATS } from '../utils/subtitleConverter';
+import { AUDIO_FILTER_PRESETS } from '../utils/audioFilters';
 
 interface ImprovedTranscriptionOptionsProps {
   options: {
     language: string;
     model: string;
     format: string;
+    audioFilters: string[];
   };
   setOptions: React.Dispatch<React.SetStateAction<{
     language: string;
     model: string;
     format: string;
+    audioFilters: string[];
   }>>;
   transcriptionInfo: TranscriptionInfo | null;
   disabled?: boolean;
@@ -121,6 +124,13 @@ const ImprovedTranscriptionOptions: React.FC<ImprovedTranscriptionOptionsProps>
     }
   };
 
+  const toggleAudioFilter = (id: string, enabled: boolean) => {
+    setOptions(prev => ({
+      ...prev,
+      audioFilters: enabled ? [...prev.audioFilters, id] : prev.audioFilters.filter(f => f !== id)
+    }));
+  };
+
   return (
     <div className="options-container">
       <h3>Transcription Options</h3>
@@ -158,13 +168,28 @@ const ImprovedTranscriptionOptions: React.FC<ImprovedTranscriptionOptionsProps>
           onChange={(e) => setOptions(prev => ({ ...prev, format: e.target.value }))}
           disabled={disabled}
         >
-          {fileFormatsConfig.subtitle.map(format => (
-            <option key={format} value={format}>
-              {format.toUpperCase()}
+          {EXPORT_FORMATS.map(format => (
+            <option key={format.id} value={format.id}>
+              {format.label}
             </option>
           ))}
         </select>
       </div>
+
+      <div className="form-group">
+        <label>Audio Cleanup:</label>
+        {AUDIO_FILTER_PRESETS.map(preset => (
+          <label key={preset.id} title={preset.description} style={{ display: 'flex', alignItems: 'center', gap: '8px', fontWeight: 'normal' }}>
+            <input
+              type="checkbox"
+              checked={options.audioFilters.includes(preset.id)}
+              onChange={(e) => toggleAudioFilter(preset.id, e.target.checked)}
+              disabled={disabled}
+            />
+            {preset.label}
+          </label>
+        ))}
+      </div>
     </div>
   );
 };
@@ -8,7 +8,7 @@ import {
   getConsolidatedLanguageById,
   getConsolidatedLanguageByCode
 } from '../utils/languageMapper';
-import * as fileFormatsConfig from '../config/fileFormats.json';
+import { EXPORT_FORMATS } from '../utils/subtitleConverter';
 import { logger } from '../utils/errorLogger';
 
 interface ImprovedTranslationOptionsProps {
@@ -154,9 +154,9 @@ const ImprovedTranslationOptions: React.FC<ImprovedTranslationOptionsProps> = ({
           onChange={(e) => onFormatChange(e.target.value)}
           disabled={disabled}
         >
-          {fileFormatsConfig.subtitle.map(format => (
-            <option key={format} value={format}>
-              {format.toUpperCase()}
+          {EXPORT_FORMATS.map(format => (
+            <option key={format.id} value={format.id}>
+              {format.label}
             </option>
           ))}
         </select>
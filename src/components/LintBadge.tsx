@@ -0,0 +1,48 @@
+import React from 'react';
+import { LintSummary } from '../utils/subtitleLinter';
+
+interface LintBadgeProps {
+  summary: LintSummary;
+  onClick?: () => void;
+}
+
+/**
+ * Compact pill summarizing subtitle lint results
+ */
+function LintBadge({ summary, onClick }: LintBadgeProps) {
+  const color = summary.errors > 0
+    ? 'var(--danger-color)'
+    : summary.warnings > 0 ? 'var(--warning-color)' : 'var(--success-color)';
+
+  const label = summary.total === 0
+    ? 'No issues'
+    : [
+        summary.errors > 0 ? `${summary.errors} error${summary.errors === 1 ? '' : 's'}` : '',
+        summary.warnings > 0 ? `${summary.warnings} warning${summary.warnings === 1 ? '' : 's'}` : '',
+      ].filter(Boolean).join(' · ');
+
+  return (
+    <span
+      onClick={onClick}
+      title={onClick ? 'Show quality issues' : undefined}
+      style={{
+        display: 'inline-flex',
+        alignItems: 'center',
+        gap: '4px',
+        padding: '2px 8px',
+        borderRadius: '4px',
+        fontSize: '11px',
+        fontWeight: '600',
+        border: `1px solid ${color}`,
+        color,
+        cursor: onClick ? 'pointer' : 'default',
+        whiteSpace: 'nowrap',
+      }}
+    >
+      <i className={`fas ${summary.total === 0 ? 'fa-check-circle' : 'fa-exclamation-triangle'}`}></i>
+      {label}
+    </span>
+  );
+}
+
+export default LintBadge;
@@ -3,13 +3,31 @@ import FileSelector from './FileSelector';
 import { getProcessingType } from '../config/fileFormats';
 import { LanguageInfo, TranscriptionInfo, TranslationInfo, DetectedLanguage, LanguageDetectionResult, APIResponse, ServicesInfo, ServiceModel } from '../services/api';
 import { logger } from '../utils/errorLogger';
-import { parseSubtitleFile, formatDuration, formatCharacterCount, ParsedSubtitle } from '../utils/subtitleParser';
+import { parseSubtitleFile, parseSubtitleEntries, detectSubtitleFormat, formatDuration, formatCharacterCount, ParsedSubtitle, SubtitleEntry } from '../utils/subtitleParser';
 import ImprovedTranscriptionOptions from './ImprovedTranscriptionOptions';
 import ImprovedTranslationOptions from './ImprovedTranslationOptions';
 import { useAPI } from '../contexts/APIContext';
 import { generateFilename } from '../utils/filenameGenerator';
-import { ffmpegService, MediaInfo } from '../services/ffmpegService';
-import { readTextFile, saveTextFile, formatFileSize } from '../hooks/useFileHandler';
+import { convertSubtitle, getExportFormat, replaceExtension, buildSubtitle } from '../utils/subtitleConverter';
+import { needsTranslationRoundTrip, restoreTranslatedSubtitle } from '../utils/translationRoundTrip';
+import { retimeSubtitle } from '../utils/subtitleTiming';
+import { resolveMediaRange, getRangeLength } from '../utils/timeRange';
+import { formatTimestamp } from '../utils/subtitleEditing';
+import { transcribeInChunks } from '../services/chunkedTranscription';
+import SubtitleEditorModal from './SubtitleEditorModal';
+import SubtitleMuxModal from './SubtitleMuxModal';
+import SubtitlePreviewModal from './SubtitlePreviewModal';
+import MediaInfoPanel from './MediaInfoPanel';
+import Waveform from './Waveform';
+import { WaveformEnvelope } from '../utils/waveform';
+import { getUploadEncoding, uploadsAsIs, estimateUploadSize } from '../utils/uploadEncoding';
+import { ffmpegService, isAbortError, MediaInfo } from '../services/ffmpegService';
+import { readTextFileWithEncoding, toTranslationFile, saveTextFile, formatFileSize } from '../hooks/useFileHandler';
+import { SUPPORTED_ENCODINGS, getEncodingLabel, EncodingDetectionResult } from '../utils/encodingDetector';
+import {
+  SubtitleStreamInfo, AudioStreamInfo, MediaStreamDetails, MediaChapter, MuxSubtitleTrack,
+  describeSubtitleStream, describeAudioStream, getDefaultAudioStream,
+} from '../utils/mediaStreams';
 import appConfig from '../config/appConfig.json';
 import * as fileFormatsConfig from '../config/fileFormats.json';
 
@@ -38,6 +56,8 @@ interface MainScreenProps {
     debugMode?: boolean;
     debugLevel?: number;
     audio_language_detection_time?: number;
+    transcriptionChunkMinutes?: number;
+    uploadEncoding?: string;
     pollingIntervalSeconds?: number;
     pollingTimeoutSeconds?: number;
     defaultFilenameFormat?: string;
@@ -79,6 +99,7 @@ function MainScreen({ config, setAppProcessing, onNavigateToCredits, onCreditsUp
   const [statusMessage, setStatusMessage] = useState<{ type: 'success' | 'error' | 'info'; message: string } | null>(null);
   const [showPreview, setShowPreview] = useState(false);
   const [previewContent, setPreviewContent] = useState<string>('');
+  const [showEditor, setShowEditor] = useState(false);
   const [translationOptions, setTranslationOptions] = useState({
     sourceLanguage: 'auto',
     destinationLanguage: '',
@@ -88,7 +109,8 @@ function MainScreen({ config, setAppProcessing, onNavigateToCredits, onCreditsUp
   const [transcriptionOptions, setTranscriptionOptions] = useState({
     language: '',
     model: '',
-    format: fileFormatsConfig.subtitle[0] || 'srt'
+    format: fileFormatsConfig.subtitle[0] || 'srt',
+    audioFilters: [] as string[]
   });
   const [availableTranslationLanguages, setAvailableTranslationLanguages] = useState<LanguageInfo[]>([]);
   const [availableTranslationApis, setAvailableTranslationApis] = useState<string[]>([]);
@@ -109,14 +131,50 @@ function MainScreen({ config, setAppProcessing, onNavigateToCredits, onCreditsUp
     hasAudio?: boolean;
     hasVideo?: boolean;
     format?: string;
+    bitrate?: number;
+    audioStreams?: AudioStreamInfo[];
+    streams?: MediaStreamDetails[];
+    tags?: Record<string, string>;
+    chapters?: MediaChapter[];
     subtitleInfo?: ParsedSubtitle;
+    encoding?: EncodingDetectionResult;
   } | null>(null);
+  // Manual encoding choice for subtitle files; empty means auto-detect
+  const [encodingOverride, setEncodingOverride] = useState('');
   const [isLoadingFileInfo, setIsLoadingFileInfo] = useState(false);
+  // Audio track to transcribe when the file has several
+  const [selectedAudioStream, setSelectedAudioStream] = useState<number | null>(null);
+  // Part of the file to transcribe, as typed; empty for start/end
+  const [rangeFrom, setRangeFrom] = useState('');
+  const [rangeTo, setRangeTo] = useState('');
+  // Text subtitle tracks inside the selected video, offered for translation
+  const [embeddedSubtitles, setEmbeddedSubtitles] = useState<SubtitleStreamInfo[]>([]);
+  const [selectedEmbeddedStream, setSelectedEmbeddedStream] = useState<number | null>(null);
+  const [isExtractingSubtitle, setIsExtractingSubtitle] = useState(false);
+  // Video the current result belongs to, for adding it back as a subtitle track
+  const [sourceVideoFile, setSourceVideoFile] = useState<File | null>(null);
+  const [muxTracks, setMuxTracks] = useState<MuxSubtitleTrack[] | null>(null);
+  const [showVideoPreview, setShowVideoPreview] = useState(false);
   const [showCreditModal, setShowCreditModal] = useState(false);
   const [ffmpegProgress, setFfmpegProgress] = useState<number | null>(null);
   const [servicesInfo, setServicesInfo] = useState<ServicesInfo | null>(null);
   const languageDetectionTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const pollingTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Cancels audio extraction/conversion when the user stops the process
+  const ffmpegAbortRef = useRef<AbortController | null>(null);
+  // Decoded source of the subtitle being translated, for restoring its format
+  const translationSourceRef = useRef<string | null>(null);
+  // Where the transcribed range starts in the file, to move cues back to
+  const transcriptOffsetRef = useRef(0);
+  // Waveform of the selected file's audio, decoded in the background
+  const [waveform, setWaveform] = useState<WaveformEnvelope | null>(null);
+  const [isLoadingWaveform, setIsLoadingWaveform] = useState(false);
+  const [waveformView, setWaveformView] = useState<'waveform' | 'spectrogram'>('waveform');
+  const [spectrogramUrl, setSpectrogramUrl] = useState<string | null>(null);
+  // Cancels waveform decoding, which would otherwise hold up the worker
+  const waveformAbortRef = useRef<AbortController | null>(null);
+  // File whose details are shown, so late FFmpeg details for another one are dropped
+  const analyzedFileRef = useRef<File | null>(null);
 
   const clearLanguageDetectionTimeout = () => {
     if (languageDetectionTimeoutRef.current) {
@@ -151,14 +209,58 @@ function MainScreen({ config, setAppProcessing, onNavigateToCredits, onCreditsUp
     models?.find(m => normalizeModelName(m.name) === normalizeModelName(selected)),
   [normalizeModelName]);
 
+  // Shown next to duration since it decides FPS conversions of the subtitles
+  const videoFrameRate = fileInfo?.streams?.find(stream => stream.kind === 'video' && stream.frameRate)?.frameRate;
+
+  // Cue boundaries of the transcript, drawn over the waveform for review
+  const transcriptCues = useMemo<SubtitleEntry[] | undefined>(() => {
+    if (fileType !== 'transcription' || !previewContent) return undefined;
+    try {
+      return parseSubtitleEntries(previewContent, `transcript.${transcriptionOptions.format}`);
+    } catch {
+      return undefined;
+    }
+  }, [fileType, previewContent, transcriptionOptions.format]);
+
+  // Only map a track explicitly when there is a choice to make
+  const chosenAudioStream = (fileInfo?.audioStreams?.length ?? 0) > 1 ? selectedAudioStream ?? undefined : undefined;
+  const audioCleanup = {
+    audioFilters: transcriptionOptions.audioFilters,
+    sourceChannels: fileInfo?.audioStreams?.find(stream => stream.index === selectedAudioStream)?.channels,
+  };
+
+  const mediaRange = useMemo(
+    () => resolveMediaRange(rangeFrom, rangeTo, fileInfo?.duration),
+    [rangeFrom, rangeTo, fileInfo?.duration]
+  );
+  const waveformSelection = useMemo(() => {
+    if (!mediaRange.ok || !mediaRange.range) return null;
+    const { startSeconds, durationSeconds } = mediaRange.range;
+    return { start: startSeconds, end: durationSeconds !== undefined ? startSeconds + durationSeconds : undefined };
+  }, [mediaRange]);
+  // Seconds that will actually be transcribed
+  const transcribedDuration = fileInfo?.duration !== undefined
+    ? getRangeLength(mediaRange.ok ? mediaRange.range : null, fileInfo.duration)
+    : undefined;
+  // A picked track, range or clean-up has to be applied even to formats the API takes
+  const needsAudioProcessing = chosenAudioStream !== undefined || !!(mediaRange.ok && mediaRange.range) || audioCleanup.audioFilters.length > 0;
+  const uploadEncoding = getUploadEncoding(config.uploadEncoding);
+  const uploadEstimate = useMemo(() => {
+    if (fileType !== 'transcription' || !selectedFile || !transcribedDuration) return null;
+    if (isAudioFile(selectedFile.name) && uploadsAsIs(selectedFile.name, needsAudioProcessing, uploadEncoding.id)) {
+      return { bytes: selectedFile.size, asIs: true };
+    }
+    return { bytes: estimateUploadSize(uploadEncoding.id, transcribedDuration), asIs: false };
+  }, [fileType, selectedFile, transcribedDuration, needsAudioProcessing, uploadEncoding.id]);
+
   // Compute estimated cost based on file info, model, and pricing
   const { estimatedCost, matchedModelPrice } = useMemo(() => {
     if (!servicesInfo || !fileInfo || isProcessing) return { estimatedCost: null, matchedModelPrice: null };
 
-    if (fileType === 'transcription' && fileInfo.duration && transcriptionOptions.model) {
+    if (fileType === 'transcription' && transcribedDuration && transcriptionOptions.model) {
       const modelInfo = findModelPrice(servicesInfo.Transcription, transcriptionOptions.model);
       if (modelInfo && typeof modelInfo.price === 'number') {
-        return { estimatedCost: fileInfo.duration * modelInfo.price, matchedModelPrice: modelInfo.price };
+        return { estimatedCost: transcribedDuration * modelInfo.price, matchedModelPrice: modelInfo.price };
       }
     }
 
@@ -170,7 +272,7 @@ function MainScreen({ config, setAppProcessing, onNavigateToCredits, onCreditsUp
     }
 
     return { estimatedCost: null, matchedModelPrice: null };
-  }, [servicesInfo, fileInfo, fileType, transcriptionOptions.model, translationOptions.model, isProcessing, findModelPrice]);
+  }, [servicesInfo, fileInfo, fileType, transcribedDuration, transcriptionOptions.model, translationOptions.model, isProcessing, findModelPrice]);
 
   // Propagate estimated cost to parent
   useEffect(() => {
@@ -178,8 +280,88 @@ function MainScreen({ config, setAppProcessing, onNavigateToCredits, onCreditsUp
     return () => { onEstimatedCostChange?.(null); };
   }, [estimatedCost, onEstimatedCostChange]);
 
+  const cancelWaveform = () => {
+    waveformAbortRef.current?.abort();
+    waveformAbortRef.current = null;
+    setIsLoadingWaveform(false);
+  };
+
+  // Frees the spectrogram image when it is replaced or the screen closes
+  useEffect(() => () => {
+    if (spectrogramUrl) URL.revokeObjectURL(spectrogramUrl);
+  }, [spectrogramUrl]);
+
+  useEffect(() => () => cancelWaveform(), []);
+  useEffect(() => () => ffmpegAbortRef.current?.abort(), []);
+
+  const loadWaveform = async (file: File, audioStreamIndex?: number) => {
+    cancelWaveform();
+    const abortController = new AbortController();
+    waveformAbortRef.current = abortController;
+    setWaveform(null);
+    setSpectrogramUrl(null);
+    setWaveformView('waveform');
+    setIsLoadingWaveform(true);
+    try {
+      const envelope = await ffmpegService.extractWaveform(file, { audioStreamIndex, signal: abortController.signal });
+      if (!abortController.signal.aborted) setWaveform(envelope);
+    } catch (error) {
+      if (!isAbortError(error)) {
+        // The waveform is a visual aid; files still process without it
+        logger.warn('MainScreen', `Could not decode a waveform for ${file.name}`, error);
+      }
+    } finally {
+      if (waveformAbortRef.current === abortController) {
+        waveformAbortRef.current = null;
+        setIsLoadingWaveform(false);
+      }
+    }
+  };
+
+  const showSpectrogram = async () => {
+    setWaveformView('spectrogram');
+    if (spectrogramUrl || !selectedFile) return;
+    cancelWaveform();
+    const abortController = new AbortController();
+    waveformAbortRef.current = abortController;
+    setIsLoadingWaveform(true);
+    try {
+      const image = await ffmpegService.renderSpectrogram(selectedFile, {
+        audioStreamIndex: chosenAudioStream,
+        signal: abortController.signal,
+      });
+      if (!abortController.signal.aborted) setSpectrogramUrl(URL.createObjectURL(image));
+    } catch (error) {
+      if (!isAbortError(error)) {
+        logger.warn('MainScreen', `Could not render a spectrogram for ${selectedFile.name}`, error);
+        setWaveformView('waveform');
+      }
+    } finally {
+      if (waveformAbortRef.current === abortController) {
+        waveformAbortRef.current = null;
+        setIsLoadingWaveform(false);
+      }
+    }
+  };
+
+  // Click sets where transcription starts, Shift+click where it ends
+  const handleWaveformPick = (seconds: number, shiftKey: boolean) => {
+    if (isProcessing || isDetectingLanguage) return;
+    const timestamp = formatTimestamp(Math.round(seconds * 1000));
+    if (shiftKey) setRangeTo(timestamp);
+    else setRangeFrom(timestamp);
+  };
+
+  const handleAudioStreamSelect = (index: number) => {
+    setSelectedAudioStream(index);
+    if (selectedFile && waveform) loadWaveform(selectedFile, index);
+  };
+
   const handleStopProcess = () => {
     logger.info('MainScreen', 'User requested to stop process');
+    ffmpegAbortRef.current?.abort();
+    ffmpegAbortRef.current = null;
+    setFfmpegProgress(null);
     clearPollingTimeout();
     setIsProcessing(false);
     setAppProcessing(false);
@@ -235,12 +417,18 @@ function MainScreen({ config, setAppProcessing, onNavigateToCredits, onCreditsUp
   const detectLanguageForFile = async () => {
     if (!selectedFile || isDetectingLanguage) return;
 
+    // The worker runs jobs in order; don't wait behind a full-file decode
+    cancelWaveform();
     setIsDetectingLanguage(true);
     setDetectedLanguage(null);
     setShowLanguageDetectionResult(false);
     setCompatibleModels({ translation: [], transcription: [] });
 
+    const abortController = new AbortController();
+    ffmpegAbortRef.current = abortController;
+
     languageDetectionTimeoutRef.current = setTimeout(() => {
+      abortController.abort();
       setStatusMessage({ type: 'error', message: 'Language detection timed out. Please try again.' });
       setIsDetectingLanguage(false);
       setAppProcessing(false);
@@ -257,17 +445,26 @@ function MainScreen({ config, setAppProcessing, onNavigateToCredits, onCreditsUp
         setStatusMessage({ type: 'info', message: 'Extracting audio for language detection...' });
         setAppProcessing(true, 'Extracting audio for language detection...');
 
+        // Listen from the start of the chosen range, past any intro
         const durationSeconds = config.audio_language_detection_time ?? 240;
+        setFfmpegProgress(0);
         fileToProcess = await ffmpegService.extractAudioFromVideo(
           selectedFile,
           (p) => setFfmpegProgress(p),
-          durationSeconds
+          {
+            startSeconds: mediaRange.ok ? mediaRange.range?.startSeconds : undefined,
+            durationSeconds,
+            audioStreamIndex: chosenAudioStream,
+            ...audioCleanup,
+            signal: abortController.signal,
+          }
         );
         setFfmpegProgress(null);
         setStatusMessage({ type: 'info', message: 'Audio extracted, detecting language...' });
         setAppProcessing(true, 'Detecting language...');
       } else {
         setAppProcessing(true, 'Detecting language...');
+        fileToProcess = (await toTranslationFile(selectedFile, encodingOverride || fileInfo?.encoding?.encoding)).file;
       }
 
       const durationSeconds = config.audio_language_detection_time ?? 240;
@@ -286,6 +483,14 @@ function MainScreen({ config, setAppProcessing, onNavigateToCredits, onCreditsUp
         throw new Error('Unexpected response from language detection');
       }
     } catch (error) {
+      setFfmpegProgress(null);
+      if (isAbortError(error)) {
+        // Cancelled, or timed out and already reported
+        if (languageDetectionTimeoutRef.current) setStatusMessage({ type: 'info', message: 'Language detection cancelled' });
+        setIsDetectingLanguage(false);
+        setAppProcessing(false);
+        return;
+      }
       logger.error('MainScreen', 'Language detection failed', error);
       setStatusMessage({
         type: 'error',
@@ -295,6 +500,7 @@ function MainScreen({ config, setAppProcessing, onNavigateToCredits, onCreditsUp
       setAppProcessing(false);
     } finally {
       clearLanguageDetectionTimeout();
+      if (ffmpegAbortRef.current === abortController) ffmpegAbortRef.current = null;
     }
   };
 
@@ -483,10 +689,46 @@ function MainScreen({ config, setAppProcessing, onNavigateToCredits, onCreditsUp
     }
   };
 
+  // Read from the file's cached probe, so listing them needs no FFmpeg pass
+  const loadEmbeddedSubtitles = async (file: File) => {
+    try {
+      const textStreams = (await ffmpegService.listSubtitleStreams(file)).filter(stream => stream.isText);
+      if (analyzedFileRef.current !== file) return;
+      setEmbeddedSubtitles(textStreams);
+      setSelectedEmbeddedStream(prev => textStreams.some(stream => stream.index === prev)
+        ? prev
+        : textStreams.find(stream => stream.isDefault)?.index ?? textStreams[0]?.index ?? null);
+    } catch (streamError) {
+      // Not being able to list tracks shouldn't block transcription
+      logger.warn('MainScreen', `Could not list subtitle streams in ${file.name}`, streamError);
+    }
+  };
+
+  // Tags, chapters and stream titles only come from FFmpeg; fill them in once it has run
+  const loadFullMediaInfo = async (file: File, probed: MediaInfo) => {
+    try {
+      const mediaInfo = await ffmpegService.completeMediaInfo(file, probed);
+      if (analyzedFileRef.current !== file) return;
+      setFileInfo(prev => prev && {
+        ...prev,
+        bitrate: mediaInfo.bitrate,
+        audioStreams: mediaInfo.audioStreams,
+        streams: mediaInfo.streams,
+        tags: mediaInfo.tags,
+        chapters: mediaInfo.chapters
+      });
+      // Now with their titles
+      if (mediaInfo.hasVideo) loadEmbeddedSubtitles(file);
+    } catch (error) {
+      logger.warn('MainScreen', `Could not read full media details for ${file.name}`, error);
+    }
+  };
+
   // ── Analyze selected file using browser APIs ──
-  const analyzeSelectedFile = async (file: File) => {
+  const analyzeSelectedFile = async (file: File, encoding?: string) => {
     setIsLoadingFileInfo(true);
     setFileInfo(null);
+    analyzedFileRef.current = file;
 
     try {
       const processingType = getProcessingType(file.name);
@@ -503,7 +745,8 @@ function MainScreen({ config, setAppProcessing, onNavigateToCredits, onCreditsUp
             setStatusMessage({ type: 'info', message: sizeCheck.warning });
           }
 
-          const mediaInfo = await ffmpegService.getMediaInfo(file);
+          // Read from the container headers when possible, so cost shows without loading FFmpeg
+          const mediaInfo = await ffmpegService.probeMediaInfo(file);
           if (!mediaInfo.hasAudio && !mediaInfo.hasVideo) {
             throw new Error('File does not contain audio or video streams');
           }
@@ -511,8 +754,29 @@ function MainScreen({ config, setAppProcessing, onNavigateToCredits, onCreditsUp
             duration: mediaInfo.duration,
             hasAudio: mediaInfo.hasAudio,
             hasVideo: mediaInfo.hasVideo,
-            format: mediaInfo.format
+            format: mediaInfo.format,
+            bitrate: mediaInfo.bitrate,
+            audioStreams: mediaInfo.audioStreams,
+            streams: mediaInfo.streams,
+            tags: mediaInfo.tags,
+            chapters: mediaInfo.chapters
           });
+          setSelectedAudioStream(getDefaultAudioStream(mediaInfo.audioStreams)?.index ?? null);
+
+          // Queued ahead of the waveform; FFmpeg only reads the headers
+          if (mediaInfo.probedBy === 'container') {
+            loadFullMediaInfo(file, mediaInfo);
+          }
+
+          if (mediaInfo.hasVideo) {
+            await loadEmbeddedSubtitles(file);
+          }
+
+          // Decoded in the background while the options are being set
+          if (mediaInfo.hasAudio) {
+            const defaultStream = getDefaultAudioStream(mediaInfo.audioStreams);
+            loadWaveform(file, mediaInfo.audioStreams.length > 1 ? defaultStream?.index : undefined);
+          }
         } catch (mediaError: any) {
           logger.error('MainScreen', `Invalid media file: ${file.name}`, mediaError);
           setStatusMessage({ type: 'error', message: `Invalid media file: ${mediaError.message || 'Unknown error'}` });
@@ -521,12 +785,23 @@ function MainScreen({ config, setAppProcessing, onNavigateToCredits, onCreditsUp
         }
       } else if (processingType === 'translation') {
         try {
-          const textContent = await readTextFile(file);
+          const { text: textContent, detection } = await readTextFileWithEncoding(file, encoding);
           const subtitleInfo = parseSubtitleFile(textContent, file.name);
           if (subtitleInfo.characterCount === 0) {
             throw new Error('Subtitle file appears to be empty or contains no readable text');
           }
-          setFileInfo({ subtitleInfo });
+          if (detection.encoding !== 'utf-8') {
+            logger.info('MainScreen', `Subtitle encoding: ${detection.encoding} (${encoding ? 'manual' : detection.confidence})`);
+          }
+          setFileInfo({ subtitleInfo, encoding: detection });
+          // Formats the API can't take are translated via SRT and written back,
+          // so default the export to the same format
+          if (needsTranslationRoundTrip(textContent, file.name)) {
+            const sourceFormat = detectSubtitleFormat(textContent, file.name).toLowerCase();
+            if (getExportFormat(sourceFormat)) {
+              setTranslationOptions(prev => ({ ...prev, format: sourceFormat }));
+            }
+          }
         } catch (subtitleError: any) {
           logger.error('MainScreen', 'Invalid subtitle file:', subtitleError);
           setStatusMessage({ type: 'error', message: `Invalid subtitle file: ${subtitleError.message || 'Unknown error'}` });
@@ -545,6 +820,18 @@ function MainScreen({ config, setAppProcessing, onNavigateToCredits, onCreditsUp
 
   const handleFileSelect = (file: File) => {
     setSelectedFile(file);
+    setEncodingOverride('');
+    setEmbeddedSubtitles([]);
+    setSelectedEmbeddedStream(null);
+    setSelectedAudioStream(null);
+    setRangeFrom('');
+    setRangeTo('');
+    cancelWaveform();
+    setWaveform(null);
+    setSpectrogramUrl(null);
+    setPreviewContent('');
+    setSourceVideoFile(isVideoFile(file.name) ? file : null);
+    translationSourceRef.current = null;
     const processingType = getProcessingType(file.name);
     setFileType(processingType === 'unknown' ? null : processingType);
     setStatusMessage(null);
@@ -556,6 +843,7 @@ function MainScreen({ config, setAppProcessing, onNavigateToCredits, onCreditsUp
     clearLanguageDetectionTimeout();
 
     if (isDetectingLanguage) {
+      ffmpegAbortRef.current?.abort();
       setAppProcessing(false);
     }
 
@@ -564,6 +852,44 @@ function MainScreen({ config, setAppProcessing, onNavigateToCredits, onCreditsUp
     }
   };
 
+  // ── Translate an embedded subtitle track instead of transcribing ──
+  const handleUseEmbeddedSubtitle = async () => {
+    const stream = embeddedSubtitles.find(s => s.index === selectedEmbeddedStream);
+    if (!selectedFile || !stream) return;
+
+    cancelWaveform();
+    const abortController = new AbortController();
+    ffmpegAbortRef.current = abortController;
+    setIsExtractingSubtitle(true);
+    setFfmpegProgress(0);
+    setStatusMessage({ type: 'info', message: 'Extracting embedded subtitle track...' });
+    try {
+      const { content, format } = await ffmpegService.extractSubtitleStream(selectedFile, stream, (p) => setFfmpegProgress(p), abortController.signal);
+      const baseName = selectedFile.name.replace(/\.[^.]+$/, '');
+      const subtitleName = `${baseName}${stream.language ? `.${stream.language}` : ''}.${format}`;
+      const video = selectedFile;
+      handleFileSelect(new File([content], subtitleName, { type: 'text/plain' }));
+      setSourceVideoFile(video);
+      setStatusMessage({ type: 'info', message: `Using ${describeSubtitleStream(stream)} from ${video.name} for translation` });
+    } catch (error: any) {
+      if (isAbortError(error)) {
+        setStatusMessage({ type: 'info', message: 'Subtitle extraction cancelled' });
+        return;
+      }
+      logger.error('MainScreen', 'Failed to extract embedded subtitle:', error);
+      setStatusMessage({ type: 'error', message: `Could not extract subtitle track: ${error.message || 'Unknown error'}` });
+    } finally {
+      if (ffmpegAbortRef.current === abortController) ffmpegAbortRef.current = null;
+      setFfmpegProgress(null);
+      setIsExtractingSubtitle(false);
+    }
+  };
+
+  const handleEncodingOverride = (encoding: string) => {
+    setEncodingOverride(encoding);
+    if (selectedFile) analyzeSelectedFile(selectedFile, encoding || undefined);
+  };
+
   // ── Process file (transcription or translation) ──
   const handleProcess = async () => {
     if (!selectedFile || !fileType) return;
@@ -573,35 +899,53 @@ function MainScreen({ config, setAppProcessing, onNavigateToCredits, onCreditsUp
       return;
     }
 
+    if (fileType === 'transcription' && !mediaRange.ok) {
+      setStatusMessage({ type: 'error', message: mediaRange.error });
+      return;
+    }
+    const range = fileType === 'transcription' && mediaRange.ok ? mediaRange.range : null;
+    transcriptOffsetRef.current = range ? Math.round(range.startSeconds * 1000) : 0;
+
     setIsProcessing(true);
     setAppProcessing(true, fileType === 'transcription' ? 'Transcribing...' : 'Translating...');
     setStatusMessage({ type: 'info', message: 'Processing file...' });
 
     let isPollingMode = false;
+    // Processing needs the worker; an unfinished waveform can wait
+    cancelWaveform();
+    const abortController = new AbortController();
+    ffmpegAbortRef.current = abortController;
 
     try {
       let fileToProcess: File | Blob = selectedFile;
 
       if (fileType === 'transcription') {
-        // Check if video → extract audio; or non-mp3 audio → convert
+        const extractOptions = {
+          ...range,
+          ...audioCleanup,
+          audioStreamIndex: chosenAudioStream,
+          uploadEncoding: uploadEncoding.id,
+          signal: abortController.signal,
+        };
+        // Check if video → extract audio; or audio that can't go as is → convert
         if (isVideoFile(selectedFile.name)) {
           setStatusMessage({ type: 'info', message: 'Extracting audio from video...' });
           setAppProcessing(true, 'Extracting audio from video...');
           fileToProcess = await ffmpegService.extractAudioFromVideo(
             selectedFile,
-            (p) => setFfmpegProgress(p)
+            (p) => setFfmpegProgress(p),
+            extractOptions
           );
           setFfmpegProgress(null);
           setStatusMessage({ type: 'info', message: 'Audio extraction completed. Starting transcription...' });
         } else if (isAudioFile(selectedFile.name)) {
-          const ext = selectedFile.name.toLowerCase().split('.').pop();
-          const directFormats = ['mp3', 'wav', 'flac', 'm4a'];
-          if (ext && !directFormats.includes(ext)) {
+          if (!uploadsAsIs(selectedFile.name, needsAudioProcessing, uploadEncoding.id)) {
             setStatusMessage({ type: 'info', message: 'Converting audio format...' });
             setAppProcessing(true, 'Converting audio...');
             fileToProcess = await ffmpegService.convertAudioToMp3(
               selectedFile,
-              (p) => setFfmpegProgress(p)
+              (p) => setFfmpegProgress(p),
+              extractOptions
             );
             setFfmpegProgress(null);
             setStatusMessage({ type: 'info', message: 'Audio conversion completed. Starting transcription...' });
@@ -609,12 +953,58 @@ function MainScreen({ config, setAppProcessing, onNavigateToCredits, onCreditsUp
         }
       }
 
+      // Stopped while the audio was being prepared
+      if (abortController.signal.aborted) return;
+
       let result;
 
       if (fileType === 'transcription') {
         if (!transcriptionOptions.language || !transcriptionOptions.model) {
           throw new Error('Please select both language and model for transcription');
         }
+
+        const chunkSeconds = (config.transcriptionChunkMinutes || 0) * 60;
+        if (chunkSeconds && transcribedDuration && transcribedDuration > chunkSeconds) {
+          const audio = fileToProcess instanceof File
+            ? fileToProcess
+            : new File([fileToProcess], replaceExtension(selectedFile.name, uploadEncoding.extension), { type: uploadEncoding.mimeType });
+          let creditsUsed = 0;
+          const entries = await transcribeInChunks(audio, { initiateTranscription, checkTranscriptionStatus, downloadFile }, {
+            durationSeconds: transcribedDuration,
+            chunkSeconds,
+            transcription: { language: transcriptionOptions.language, api: transcriptionOptions.model },
+            uploadEncoding: uploadEncoding.id,
+            // Re-cut from the original rather than re-encoding the encoded audio
+            source: fileToProcess === selectedFile ? undefined : {
+              file: selectedFile,
+              selection: { startSeconds: range?.startSeconds, audioStreamIndex: chosenAudioStream, ...audioCleanup },
+            },
+            pollingIntervalMs: (config.pollingIntervalSeconds || 10) * 1000,
+            pollingTimeoutMs: (config.pollingTimeoutSeconds || 7200) * 1000,
+            signal: abortController.signal,
+            onProgress: ({ chunk, total, stage, attempt }) => {
+              const message = stage === 'retrying'
+                ? `Retrying part ${chunk} of ${total} (attempt ${attempt})...`
+                : `Transcribing part ${chunk} of ${total}...`;
+              setStatusMessage({ type: 'info', message });
+              setAppProcessing(true, message);
+            },
+            onCredits: (used, remaining) => {
+              creditsUsed += used;
+              if (typeof remaining === 'number') {
+                onCreditsUpdate?.({ used, remaining });
+                triggerCreditsAnimation();
+              }
+            },
+          });
+          setStatusMessage({
+            type: 'success',
+            message: `Transcription completed successfully!${creditsUsed > 0 ? ` (${creditsUsed} credits used)` : ''}`
+          });
+          showResultContent(buildSubtitle(entries, 'srt'));
+          return;
+        }
+
         result = await initiateTranscription(fileToProcess, {
           language: transcriptionOptions.language,
           api: transcriptionOptions.model,
@@ -625,6 +1015,9 @@ function MainScreen({ config, setAppProcessing, onNavigateToCredits, onCreditsUp
         if (!translationOptions.sourceLanguage || !translationOptions.destinationLanguage || !translationOptions.model) {
           throw new Error('Please select source language, destination language, and model for translation');
         }
+        const upload = await toTranslationFile(selectedFile, encodingOverride || fileInfo?.encoding?.encoding);
+        fileToProcess = upload.file;
+        translationSourceRef.current = upload.originalText;
         result = await initiateTranslation(fileToProcess, {
           translateFrom: translationOptions.sourceLanguage,
           translateTo: translationOptions.destinationLanguage,
@@ -651,12 +1044,15 @@ function MainScreen({ config, setAppProcessing, onNavigateToCredits, onCreditsUp
         throw new Error('Unexpected response format');
       }
     } catch (error: any) {
+      // handleStopProcess already reported the cancel
+      if (isAbortError(error)) return;
       logger.error('MainScreen', `${fileType} error:`, error);
       setStatusMessage({
         type: 'error',
         message: `${fileType === 'transcription' ? 'Transcription' : 'Translation'} failed: ${error.message || 'Processing failed'}`
       });
     } finally {
+      if (ffmpegAbortRef.current === abortController) ffmpegAbortRef.current = null;
       if (!isPollingMode) {
         setIsProcessing(false);
         setAppProcessing(false);
@@ -680,10 +1076,25 @@ function MainScreen({ config, setAppProcessing, onNavigateToCredits, onCreditsUp
     if (result.data.url) {
       const downloadResult = await downloadFile(result.data.url);
       if (downloadResult.success && downloadResult.content) {
-        setPreviewContent(downloadResult.content);
-        setShowPreview(true);
+        showResultContent(downloadResult.content);
+      }
+    }
+  };
+
+  const showResultContent = (resultContent: string) => {
+    let content = fileType === 'translation' && translationSourceRef.current !== null && selectedFile
+      ? restoreTranslatedSubtitle(resultContent, translationSourceRef.current, selectedFile.name)
+      : resultContent;
+    if (fileType === 'transcription' && transcriptOffsetRef.current) {
+      // Cue times are relative to the extracted range
+      try {
+        content = retimeSubtitle(content, `transcript.${transcriptionOptions.format}`, { offsetMs: transcriptOffsetRef.current });
+      } catch (error) {
+        logger.warn('MainScreen', 'Could not move transcript cues to the range start', error);
       }
     }
+    setPreviewContent(content);
+    setShowPreview(true);
   };
 
   const pollForCompletion = async (correlationId: string, type: 'transcription' | 'translation') => {
@@ -739,6 +1150,18 @@ function MainScreen({ config, setAppProcessing, onNavigateToCredits, onCreditsUp
   };
 
   // ── Save result file via browser download ──
+  const handleOpenMux = (content: string) => {
+    if (!sourceVideoFile) return;
+    cancelWaveform();
+    const language = fileType === 'translation' ? translationOptions.destinationLanguage : transcriptionOptions.language;
+    setMuxTracks([{
+      content,
+      fileName: selectedFile?.name || replaceExtension(sourceVideoFile.name, 'srt'),
+      language: language === 'auto' ? undefined : language,
+      isDefault: true,
+    }]);
+  };
+
   const handleSaveFile = (content: string) => {
     if (!selectedFile || !fileType) return;
 
@@ -768,7 +1191,12 @@ function MainScreen({ config, setAppProcessing, onNavigateToCredits, onCreditsUp
       format
     );
 
-    saveTextFile(content, newFileName);
+    try {
+      saveTextFile(convertSubtitle(content, selectedFile.name, format), newFileName);
+    } catch (error: any) {
+      setStatusMessage({ type: 'error', message: error.message || 'Failed to save file.' });
+      return;
+    }
     setStatusMessage({ type: 'success', message: `File downloaded: ${newFileName}` });
     setShowPreview(false);
   };
@@ -849,6 +1277,17 @@ function MainScreen({ config, setAppProcessing, onNavigateToCredits, onCreditsUp
                     )}
                   </div>
                 )}
+                {videoFrameRate !== undefined && (
+                  <div><strong>Frame Rate:</strong> {videoFrameRate} fps</div>
+                )}
+                {fileInfo.streams && (
+                  <MediaInfoPanel
+                    streams={fileInfo.streams}
+                    tags={fileInfo.tags ?? {}}
+                    chapters={fileInfo.chapters ?? []}
+                    bitrate={fileInfo.bitrate}
+                  />
+                )}
                 {fileInfo.subtitleInfo && (
                   <>
                     <div><strong>Characters:</strong> {formatCharacterCount(fileInfo.subtitleInfo.characterCount)}</div>
@@ -856,10 +1295,137 @@ function MainScreen({ config, setAppProcessing, onNavigateToCredits, onCreditsUp
                     <div><strong>Subtitle Lines:</strong> {formatCharacterCount(fileInfo.subtitleInfo.lineCount)}</div>
                   </>
                 )}
+                {fileInfo.encoding && (
+                  <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                    <strong>Encoding:</strong>
+                    <select
+                      value={encodingOverride}
+                      onChange={(e) => handleEncodingOverride(e.target.value)}
+                      disabled={isProcessing}
+                      title="Change if characters look garbled"
+                      style={{ padding: '2px 4px' }}
+                    >
+                      <option value="">
+                        {encodingOverride ? 'Auto-detect' : `Auto (${getEncodingLabel(fileInfo.encoding.encoding)})`}
+                      </option>
+                      {SUPPORTED_ENCODINGS.map(enc => (
+                        <option key={enc.id} value={enc.id}>{enc.label}</option>
+                      ))}
+                    </select>
+                    {!encodingOverride && fileInfo.encoding.confidence === 'low' && (
+                      <i className="fas fa-question-circle" title="Low confidence guess" style={{ color: 'var(--warning-color)' }}></i>
+                    )}
+                  </div>
+                )}
               </>
             ) : null}
           </div>
 
+          {fileType === 'transcription' && fileInfo?.hasAudio && (
+            <div style={{ marginTop: '12px', fontSize: '14px' }}>
+              <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '6px' }}>
+                <i className="fas fa-wave-square" style={{ color: 'var(--primary-color)' }}></i>
+                <strong>Audio</strong>
+                {/* Decoding stops when other FFmpeg work needs the worker */}
+                {!waveform && !isLoadingWaveform && selectedFile && (
+                  <button
+                    className="btn-secondary"
+                    onClick={() => loadWaveform(selectedFile, chosenAudioStream)}
+                    disabled={isProcessing || isDetectingLanguage || isExtractingSubtitle}
+                    style={{ padding: '2px 8px', fontSize: '12px' }}
+                  >
+                    Show waveform
+                  </button>
+                )}
+                {isLoadingWaveform && (
+                  <span style={{ color: 'var(--text-muted)', fontStyle: 'italic' }}>
+                    {waveformView === 'spectrogram' ? 'Rendering spectrogram...' : 'Reading audio...'}
+                  </span>
+                )}
+                {waveform && (
+                  <div style={{ marginLeft: 'auto', display: 'flex', gap: '4px' }}>
+                    {(['waveform', 'spectrogram'] as const).map(view => (
+                      <button
+                        key={view}
+                        className={waveformView === view ? 'btn-primary' : 'btn-secondary'}
+                        onClick={() => (view === 'spectrogram' ? showSpectrogram() : setWaveformView('waveform'))}
+                        disabled={isProcessing || (isLoadingWaveform && waveformView !== view)}
+                        style={{ padding: '2px 8px', fontSize: '12px' }}
+                      >
+                        {view === 'waveform' ? 'Waveform' : 'Spectrogram'}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+              {waveform && fileInfo?.duration ? (
+                <>
+                  <Waveform
+                    envelope={waveform}
+                    duration={fileInfo.duration}
+                    cues={transcriptCues}
+                    selection={waveformSelection}
+                    spectrogramUrl={waveformView === 'spectrogram' ? spectrogramUrl : null}
+                    onPick={handleWaveformPick}
+                  />
+                  <div style={{ color: 'var(--text-muted)', fontSize: '12px', marginTop: '4px' }}>
+                    Click to set where transcription starts, Shift+click where it ends.
+                    {transcriptCues && ' Shaded spans are the transcript\'s cues.'}
+                  </div>
+                </>
+              ) : null}
+            </div>
+          )}
+
+          {fileType === 'transcription' && fileInfo?.audioStreams && fileInfo.audioStreams.length > 1 && (
+            <div style={{ marginTop: '12px', padding: '8px 12px', backgroundColor: 'var(--bg-tertiary)', borderRadius: '4px', fontSize: '14px' }}>
+              <div style={{ marginBottom: '6px' }}>
+                <i className="fas fa-volume-up" style={{ marginRight: '6px', color: 'var(--primary-color)' }}></i>
+                This file has {fileInfo.audioStreams.length} audio tracks. Choose the one to transcribe.
+              </div>
+              <select
+                value={selectedAudioStream ?? ''}
+                onChange={(e) => handleAudioStreamSelect(parseInt(e.target.value, 10))}
+                disabled={isProcessing || isDetectingLanguage}
+                style={{ padding: '4px 6px', width: '100%' }}
+              >
+                {fileInfo.audioStreams.map(stream => (
+                  <option key={stream.index} value={stream.index}>{describeAudioStream(stream)}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {fileType === 'transcription' && embeddedSubtitles.length > 0 && (
+            <div style={{ marginTop: '12px', padding: '8px 12px', backgroundColor: 'var(--bg-tertiary)', borderRadius: '4px', fontSize: '14px' }}>
+              <div style={{ marginBottom: '6px' }}>
+                <i className="fas fa-closed-captioning" style={{ marginRight: '6px', color: 'var(--primary-color)' }}></i>
+                This video already contains {embeddedSubtitles.length} text subtitle track{embeddedSubtitles.length !== 1 ? 's' : ''}.
+                Translating one is usually cheaper than transcribing the audio.
+              </div>
+              <div style={{ display: 'flex', gap: '8px', alignItems: 'center', flexWrap: 'wrap' }}>
+                <select
+                  value={selectedEmbeddedStream ?? ''}
+                  onChange={(e) => setSelectedEmbeddedStream(parseInt(e.target.value, 10))}
+                  disabled={isProcessing || isExtractingSubtitle}
+                  style={{ padding: '4px 6px', minWidth: 0, flex: 1 }}
+                >
+                  {embeddedSubtitles.map(stream => (
+                    <option key={stream.index} value={stream.index}>{describeSubtitleStream(stream)}</option>
+                  ))}
+                </select>
+                <button
+                  className="btn-secondary"
+                  onClick={handleUseEmbeddedSubtitle}
+                  disabled={isProcessing || isExtractingSubtitle || selectedEmbeddedStream === null}
+                >
+                  <i className={`fas ${isExtractingSubtitle ? 'fa-spinner fa-spin' : 'fa-language'}`} style={{ marginRight: '6px' }}></i>
+                  {isExtractingSubtitle ? 'Extracting...' : 'Translate this track'}
+                </button>
+              </div>
+            </div>
+          )}
+
           {fileType === 'translation' && fileInfo?.subtitleInfo && (
             <div style={{ marginTop: '12px', padding: '8px 12px', backgroundColor: 'var(--bg-tertiary)', borderRadius: '4px', fontSize: '14px' }}>
               {estimatedCost !== null ? (
@@ -899,7 +1465,50 @@ function MainScreen({ config, setAppProcessing, onNavigateToCredits, onCreditsUp
             </div>
           )}
 
-          {fileType === 'transcription' && fileInfo?.duration && (
+          {fileType === 'transcription' && !!fileInfo?.duration && (
+            <div style={{ marginTop: '12px', padding: '8px 12px', backgroundColor: 'var(--bg-tertiary)', borderRadius: '4px', fontSize: '14px' }}>
+              <div style={{ display: 'flex', gap: '8px', alignItems: 'center', flexWrap: 'wrap' }}>
+                <i className="fas fa-cut" style={{ color: 'var(--primary-color)' }}></i>
+                <strong>Transcribe from</strong>
+                <input
+                  type="text"
+                  value={rangeFrom}
+                  onChange={(e) => setRangeFrom(e.target.value)}
+                  placeholder="00:00:00"
+                  disabled={isProcessing || isDetectingLanguage}
+                  style={{ width: '90px', padding: '2px 4px' }}
+                />
+                <strong>to</strong>
+                <input
+                  type="text"
+                  value={rangeTo}
+                  onChange={(e) => setRangeTo(e.target.value)}
+                  placeholder={formatTimestamp(fileInfo.duration * 1000).slice(0, 8)}
+                  disabled={isProcessing || isDetectingLanguage}
+                  style={{ width: '90px', padding: '2px 4px' }}
+                />
+                {(rangeFrom || rangeTo) && (
+                  <button
+                    className="btn-secondary"
+                    onClick={() => { setRangeFrom(''); setRangeTo(''); }}
+                    disabled={isProcessing || isDetectingLanguage}
+                    style={{ padding: '2px 8px', fontSize: '12px' }}
+                  >
+                    Whole file
+                  </button>
+                )}
+              </div>
+              {!mediaRange.ok ? (
+                <div style={{ color: 'var(--danger-color)', marginTop: '4px' }}>{mediaRange.error}</div>
+              ) : mediaRange.range && (
+                <div style={{ color: 'var(--text-muted)', marginTop: '4px' }}>
+                  Only this part is transcribed; subtitle times still match the full file.
+                </div>
+              )}
+            </div>
+          )}
+
+          {fileType === 'transcription' && !!transcribedDuration && (
             <div style={{ marginTop: '12px', padding: '8px 12px', backgroundColor: 'var(--bg-tertiary)', borderRadius: '4px', fontSize: '14px' }}>
               {estimatedCost !== null ? (
                 estimatedCost === 0 ? (
@@ -917,7 +1526,7 @@ function MainScreen({ config, setAppProcessing, onNavigateToCredits, onCreditsUp
                     </strong>{' '}
                     ~{estimatedCost.toFixed(1)} credits
                     <span style={{ color: 'var(--text-muted)', marginLeft: '8px' }}>
-                      ({formatDuration(fileInfo.duration)} × {matchedModelPrice?.toFixed(6)} cr/s · {transcriptionOptions.model})
+                      ({formatDuration(transcribedDuration)} × {matchedModelPrice?.toFixed(6)} cr/s · {transcriptionOptions.model})
                     </span>
                     {credits && estimatedCost > credits.remaining && (
                       <div style={{ color: 'var(--danger-color)', marginTop: '4px', fontWeight: '500' }}>
@@ -929,10 +1538,18 @@ function MainScreen({ config, setAppProcessing, onNavigateToCredits, onCreditsUp
                 )
               ) : (
                 <>
-                  <strong>Processing Time:</strong> ~{Math.ceil(fileInfo.duration / 60)} minutes of audio
+                  <strong>Processing Time:</strong> ~{Math.ceil(transcribedDuration / 60)} minutes of audio
                   <span style={{ color: 'var(--text-muted)', marginLeft: '8px' }}>(cost varies by selected AI model)</span>
                 </>
               )}
+              {uploadEstimate && (
+                <div style={{ marginTop: '4px' }}>
+                  <strong>Upload size:</strong> {uploadEstimate.asIs ? '' : '~'}{formatFileSize(uploadEstimate.bytes)}
+                  <span style={{ color: 'var(--text-muted)', marginLeft: '8px' }}>
+                    ({uploadEstimate.asIs ? 'file sent as is' : uploadEncoding.label})
+                  </span>
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -1029,8 +1646,19 @@ function MainScreen({ config, setAppProcessing, onNavigateToCredits, onCreditsUp
 
       {/* FFmpeg progress bar */}
       {ffmpegProgress !== null && (
-        <div className="progress-bar">
-          <div className="progress-bar-fill" style={{ width: `${ffmpegProgress}%` }}></div>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+          <div className="progress-bar" style={{ flex: 1 }}>
+            <div className="progress-bar-fill" style={{ width: `${ffmpegProgress}%` }}></div>
+          </div>
+          {/* Processing has its own Stop button */}
+          {!isProcessing && (
+            <button
+              onClick={() => ffmpegAbortRef.current?.abort()}
+              style={{ background: 'transparent', border: 'none', color: 'var(--primary-color)', cursor: 'pointer', fontSize: '13px', padding: 0 }}
+            >
+              Cancel
+            </button>
+          )}
         </div>
       )}
 
@@ -1051,14 +1679,49 @@ function MainScreen({ config, setAppProcessing, onNavigateToCredits, onCreditsUp
         </div>
       )}
 
-      {showPreview && (
+      {showPreview && !showEditor && !showVideoPreview && (
         <PreviewDialog
           content={previewContent}
           onClose={() => setShowPreview(false)}
           onSave={handleSaveFile}
+          onEdit={() => setShowEditor(true)}
+          onMux={sourceVideoFile ? handleOpenMux : undefined}
+          onPreviewVideo={sourceVideoFile ? () => {
+            cancelWaveform();
+            setShowVideoPreview(true);
+          } : undefined}
+        />
+      )}
+
+      <SubtitlePreviewModal
+        isOpen={showVideoPreview && !!sourceVideoFile}
+        onClose={() => setShowVideoPreview(false)}
+        content={previewContent}
+        fileName={selectedFile?.name || 'subtitle.srt'}
+        videoFile={sourceVideoFile}
+      />
+
+      {sourceVideoFile && muxTracks && (
+        <SubtitleMuxModal
+          isOpen
+          onClose={() => setMuxTracks(null)}
+          videoFile={sourceVideoFile}
+          initialTracks={muxTracks}
         />
       )}
 
+      <SubtitleEditorModal
+        isOpen={showEditor}
+        onClose={() => setShowEditor(false)}
+        content={previewContent}
+        fileName={selectedFile?.name || 'subtitle.srt'}
+        onSave={(edited) => {
+          setPreviewContent(edited);
+          setShowEditor(false);
+          handleSaveFile(edited);
+        }}
+      />
+
       {/* Credit Warning Modal */}
       {showCreditModal && (
         <div style={{ position: 'fixed', top: 0, left: 0, width: '100%', height: '100%', backgroundColor: 'rgba(0,0,0,0.6)', display: 'flex', justifyContent: 'center', alignItems: 'center', zIndex: 1000 }}>
@@ -1088,7 +1751,7 @@ function MainScreen({ config, setAppProcessing, onNavigateToCredits, onCreditsUp
   );
 }
 
-function PreviewDialog({ content, onClose, onSave }: { content: string; onClose: () => void; onSave: (content: string) => void }) {
+function PreviewDialog({ content, onClose, onSave, onEdit, onMux, onPreviewVideo }: { content: string; onClose: () => void; onSave: (content: string) => void; onEdit: () => void; onMux?: (content: string) => void; onPreviewVideo?: () => void }) {
   return (
     <div style={{ position: 'fixed', top: 0, left: 0, right: 0, bottom: 0, backgroundColor: 'rgba(0,0,0,0.5)', display: 'flex', alignItems: 'center', justifyContent: 'center', zIndex: 1000 }}>
       <div style={{ backgroundColor: 'var(--bg-primary)', padding: '20px', borderRadius: '8px', maxWidth: '80%', maxHeight: '80%', overflow: 'auto', minWidth: '500px', minHeight: '400px', border: '1px solid var(--border-color)', boxShadow: '0 4px 12px rgba(0,0,0,0.3)' }}>
@@ -1109,6 +1772,19 @@ function PreviewDialog({ content, onClose, onSave }: { content: string; onClose:
           <button onClick={() => onSave(content)} className="btn-primary" style={{ backgroundColor: 'var(--success-color)' }}>
             Save to File
           </button>
+          <button onClick={onEdit} className="btn-secondary">
+            <i className="fas fa-edit" style={{ marginRight: '6px' }}></i>Edit
+          </button>
+          {onPreviewVideo && (
+            <button onClick={onPreviewVideo} className="btn-secondary" title="Play the source video with these subtitles">
+              <i className="fas fa-play-circle" style={{ marginRight: '6px' }}></i>Watch
+            </button>
+          )}
+          {onMux && (
+            <button onClick={() => onMux(content)} className="btn-secondary" title="Add as a subtitle track to the source video">
+              <i className="fas fa-film" style={{ marginRight: '6px' }}></i>Add to Video
+            </button>
+          )}
           <button onClick={onClose} className="btn-secondary">Close</button>
         </div>
       </div>
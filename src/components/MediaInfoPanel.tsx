@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { MediaStreamDetails, MediaChapter, describeStreamDetails } from '../utils/mediaStreams';
+import { formatTimestamp } from '../utils/subtitleEditing';
+
+interface MediaInfoPanelProps {
+  streams: MediaStreamDetails[];
+  tags: Record<string, string>;
+  chapters: MediaChapter[];
+  /** Overall kb/s */
+  bitrate?: number;
+}
+
+const sectionTitleStyle: React.CSSProperties = {
+  fontWeight: 600,
+  fontSize: '12px',
+  color: 'var(--text-secondary)',
+  margin: '8px 0 4px',
+};
+
+const rowStyle: React.CSSProperties = {
+  fontSize: '12px',
+  fontFamily: 'monospace',
+  padding: '2px 0',
+  wordBreak: 'break-word',
+};
+
+/**
+ * Collapsible listing of every stream, the container tags and chapters
+ */
+function MediaInfoPanel({ streams, tags, chapters, bitrate }: MediaInfoPanelProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const tagEntries = Object.entries(tags);
+
+  if (streams.length === 0 && tagEntries.length === 0 && chapters.length === 0) return null;
+
+  return (
+    <div style={{ marginTop: '6px' }}>
+      <button
+        type="button"
+        onClick={() => setIsExpanded(!isExpanded)}
+        style={{
+          background: 'none',
+          border: 'none',
+          padding: 0,
+          color: 'var(--primary-color)',
+          cursor: 'pointer',
+          fontSize: '13px',
+          display: 'inline-flex',
+          alignItems: 'center',
+          gap: '6px',
+        }}
+      >
+        <i className={`fas fa-chevron-${isExpanded ? 'down' : 'right'}`} style={{ fontSize: '10px' }}></i>
+        Media details ({streams.length} stream{streams.length === 1 ? '' : 's'}
+        {chapters.length > 0 && `, ${chapters.length} chapter${chapters.length === 1 ? '' : 's'}`})
+      </button>
+
+      {isExpanded && (
+        <div style={{
+          marginTop: '6px',
+          padding: '8px 10px',
+          border: '1px solid var(--border-color)',
+          borderRadius: '4px',
+          background: 'var(--bg-secondary)',
+        }}>
+          <div style={{ ...sectionTitleStyle, marginTop: 0 }}>Streams</div>
+          {streams.map(stream => (
+            <div key={stream.index} style={rowStyle}>{describeStreamDetails(stream)}</div>
+          ))}
+          {bitrate !== undefined && (
+            <div style={{ ...rowStyle, color: 'var(--text-muted)' }}>Overall bitrate: {bitrate} kb/s</div>
+          )}
+
+          {tagEntries.length > 0 && (
+            <>
+              <div style={sectionTitleStyle}>Container Tags</div>
+              {tagEntries.map(([key, value]) => (
+                <div key={key} style={rowStyle}><strong>{key}:</strong> {value}</div>
+              ))}
+            </>
+          )}
+
+          {chapters.length > 0 && (
+            <>
+              <div style={sectionTitleStyle}>Chapters</div>
+              {chapters.map((chapter, i) => (
+                <div key={i} style={rowStyle}>
+                  {formatTimestamp(chapter.start * 1000)} – {formatTimestamp(chapter.end * 1000)}
+                  {chapter.title && ` · ${chapter.title}`}
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default MediaInfoPanel;
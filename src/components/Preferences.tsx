@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import { useAPI } from '../contexts/APIContext';
 import CacheManager from '../services/cache';
+import { UPLOAD_ENCODINGS, DEFAULT_UPLOAD_ENCODING, getUploadEncoding } from '../utils/uploadEncoding';
 
 const DEFAULT_FILENAME_FORMAT = '{filename}.{language_code}.{type}.{extension}';
 
@@ -165,6 +166,46 @@ function Preferences({ setAppProcessing }: PreferencesProps) {
             <span>300s</span>
           </div>
         </div>
+        <div style={rowStyle}>
+          <div>
+            <div style={labelStyle}>Split Long Recordings</div>
+            <div style={sublabelStyle}>Transcribe longer files in parts cut at pauses, each retried on its own</div>
+          </div>
+          <select
+            style={selectStyle}
+            value={config?.transcriptionChunkMinutes ?? 0}
+            onChange={(e) => updateConfig({ transcriptionChunkMinutes: Number(e.target.value) })}
+          >
+            <option value={0}>Off</option>
+            <option value={10}>10 minute parts</option>
+            <option value={20}>20 minute parts</option>
+            <option value={30}>30 minute parts</option>
+            <option value={60}>60 minute parts</option>
+          </select>
+        </div>
+      </div>
+
+      {/* Upload Encoding */}
+      <div style={sectionStyle}>
+        <div style={sectionTitleStyle}>
+          <i className="fas fa-file-audio" style={{ marginRight: '8px' }}></i>
+          Audio Upload
+        </div>
+        <div style={rowStyle}>
+          <div>
+            <div style={labelStyle}>Upload Encoding</div>
+            <div style={sublabelStyle}>{getUploadEncoding(config?.uploadEncoding).description}</div>
+          </div>
+          <select
+            style={selectStyle}
+            value={config?.uploadEncoding ?? DEFAULT_UPLOAD_ENCODING}
+            onChange={(e) => updateConfig({ uploadEncoding: e.target.value })}
+          >
+            {UPLOAD_ENCODINGS.map(encoding => (
+              <option key={encoding.id} value={encoding.id}>{encoding.label}</option>
+            ))}
+          </select>
+        </div>
       </div>
 
       {/* Filename Format */}
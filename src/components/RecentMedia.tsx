@@ -800,6 +800,7 @@ function RecentMedia({ setAppProcessing, isVisible = true }: RecentMediaProps) {
         content={previewContent || ''}
         fileName={previewFileName}
         onDownload={handlePreviewDownload}
+        compareOrigin="recent"
       />
 
       {/* Info Section - Collapsible */}
@@ -480,6 +480,7 @@ function Search({ setAppProcessing }: SearchProps) {
         content={previewContent || ''}
         fileName={previewFileName}
         onDownload={handlePreviewDownload}
+        compareOrigin="search"
       />
 
       <style>{`
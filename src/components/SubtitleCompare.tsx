@@ -0,0 +1,240 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { parseSubtitleEntries, SubtitleEntry } from '../utils/subtitleParser';
+import { alignEntries, summarizeDiff, DiffRow, DiffRowType } from '../utils/subtitleDiff';
+import { formatTimestamp } from '../utils/subtitleEditing';
+import { compareTray, CompareItem, CompareSlots } from '../utils/compareTray';
+import { readTextFile, getAcceptString } from '../hooks/useFileHandler';
+import { logger } from '../utils/errorLogger';
+
+const ORIGIN_LABELS: Record<CompareItem['origin'], string> = {
+  local: 'Local file',
+  recent: 'Recent Media',
+  search: 'Search',
+};
+
+const ROW_COLORS: Record<DiffRowType, string> = {
+  same: 'transparent',
+  changed: 'var(--warning-color)',
+  timing: 'var(--accent-color)',
+  'left-only': 'var(--danger-color)',
+  'right-only': 'var(--success-color)',
+};
+
+const formatDrift = (ms: number) => `${ms > 0 ? '+' : ''}${(ms / 1000).toFixed(2)}s`;
+
+function CueCell({ entry, index }: { entry?: SubtitleEntry; index?: number }) {
+  if (!entry) {
+    return <div style={{ flex: 1, color: 'var(--text-disabled)', fontStyle: 'italic' }}>—</div>;
+  }
+  return (
+    <div style={{ flex: 1, minWidth: 0 }}>
+      <div style={{ fontSize: '11px', color: 'var(--text-secondary)', fontFamily: 'monospace' }}>
+        #{(index ?? 0) + 1} {formatTimestamp(entry.start)} → {formatTimestamp(entry.end)}
+      </div>
+      <div style={{ whiteSpace: 'pre-wrap', color: 'var(--text-primary)' }}>{entry.text}</div>
+    </div>
+  );
+}
+
+function DiffRowView({ row }: { row: DiffRow }) {
+  return (
+    <div style={{
+      display: 'flex',
+      gap: '16px',
+      padding: '8px 12px',
+      borderBottom: '1px solid var(--border-color)',
+      borderLeft: `3px solid ${ROW_COLORS[row.type]}`,
+      fontSize: '13px',
+    }}>
+      <CueCell entry={row.left} index={row.leftIndex} />
+      <div style={{ flex: 1, minWidth: 0 }}>
+        {row.right && (
+          <div style={{ fontSize: '11px', color: 'var(--text-secondary)', fontFamily: 'monospace' }}>
+            #{(row.rightIndex ?? 0) + 1} {formatTimestamp(row.right.start)} → {formatTimestamp(row.right.end)}
+            {row.startDriftMs !== undefined && (row.startDriftMs !== 0 || row.endDriftMs !== 0) && (
+              <span style={{ marginLeft: '8px', color: row.type === 'timing' ? 'var(--accent-color)' : 'inherit' }}>
+                ({formatDrift(row.startDriftMs)} / {formatDrift(row.endDriftMs ?? 0)})
+              </span>
+            )}
+          </div>
+        )}
+        {row.words ? (
+          <div>
+            {row.words.map((part, i) => (
+              <span
+                key={i}
+                style={{
+                  background: part.type === 'added' ? 'rgba(40, 167, 69, 0.25)' : part.type === 'removed' ? 'rgba(220, 53, 69, 0.25)' : 'transparent',
+                  textDecoration: part.type === 'removed' ? 'line-through' : 'none',
+                  color: 'var(--text-primary)',
+                }}
+              >
+                {part.text}{i < row.words!.length - 1 ? ' ' : ''}
+              </span>
+            ))}
+          </div>
+        ) : row.right ? (
+          <div style={{ whiteSpace: 'pre-wrap', color: 'var(--text-primary)' }}>{row.right.text}</div>
+        ) : (
+          <div style={{ color: 'var(--text-disabled)', fontStyle: 'italic' }}>—</div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function SubtitleCompare() {
+  const navigate = useNavigate();
+  const [slots, setSlots] = useState<CompareSlots>(compareTray.getSlots());
+  const [onlyDifferences, setOnlyDifferences] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRefs = [useRef<HTMLInputElement>(null), useRef<HTMLInputElement>(null)];
+
+  useEffect(() => compareTray.addListener(setSlots), []);
+
+  const [left, right] = slots;
+  const leftEntries = useMemo(() => left ? parseSubtitleEntries(left.content, left.fileName) : [], [left]);
+  const rightEntries = useMemo(() => right ? parseSubtitleEntries(right.content, right.fileName) : [], [right]);
+  const rows = useMemo(() => left && right ? alignEntries(leftEntries, rightEntries) : [], [left, right, leftEntries, rightEntries]);
+  const summary = useMemo(() => summarizeDiff(rows), [rows]);
+  const visibleRows = onlyDifferences ? rows.filter(r => r.type !== 'same') : rows;
+
+  const handleLocalFile = async (index: 0 | 1, file: File | undefined) => {
+    if (!file) return;
+    try {
+      const content = await readTextFile(file);
+      if (parseSubtitleEntries(content, file.name).length === 0) {
+        setError(`Could not read any subtitle entries from ${file.name}`);
+        return;
+      }
+      setError(null);
+      compareTray.set(index, { content, fileName: file.name, origin: 'local' });
+    } catch (err: any) {
+      logger.error('Compare', 'Failed to read local file:', err);
+      setError(`Failed to read ${file.name}: ${err.message}`);
+    }
+  };
+
+  const renderSlot = (index: 0 | 1) => {
+    const item = slots[index];
+    const entries = index === 0 ? leftEntries : rightEntries;
+    return (
+      <div style={{
+        flex: 1,
+        padding: '16px',
+        border: '1px solid var(--border-color)',
+        borderRadius: '8px',
+        backgroundColor: 'var(--bg-secondary)',
+        minWidth: 0,
+      }}>
+        <div style={{ fontSize: '12px', color: 'var(--text-secondary)', marginBottom: '6px' }}>
+          {index === 0 ? 'Version A' : 'Version B'}
+        </div>
+        {item ? (
+          <>
+            <div style={{ fontWeight: 'bold', wordBreak: 'break-all', color: 'var(--text-primary)' }}>{item.fileName}</div>
+            <div style={{ fontSize: '12px', color: 'var(--text-secondary)', marginTop: '4px' }}>
+              {ORIGIN_LABELS[item.origin]} · {entries.length.toLocaleString()} entries
+            </div>
+          </>
+        ) : (
+          <div style={{ color: 'var(--text-secondary)', fontStyle: 'italic' }}>Nothing selected</div>
+        )}
+        <div style={{ display: 'flex', gap: '8px', marginTop: '12px', flexWrap: 'wrap' }}>
+          <input
+            ref={fileInputRefs[index]}
+            type="file"
+            accept={getAcceptString(['subtitle'])}
+            style={{ display: 'none' }}
+            onChange={(e) => {
+              handleLocalFile(index, e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+          <button className="btn-secondary" onClick={() => fileInputRefs[index].current?.click()}>
+            <i className="fas fa-folder-open" style={{ marginRight: '6px' }}></i>Local file
+          </button>
+          <button className="btn-secondary" onClick={() => navigate('/recent')}>
+            <i className="fas fa-history" style={{ marginRight: '6px' }}></i>Recent Media
+          </button>
+          <button className="btn-secondary" onClick={() => navigate('/search')}>
+            <i className="fas fa-search" style={{ marginRight: '6px' }}></i>Search
+          </button>
+          {item && (
+            <button className="btn-secondary" onClick={() => compareTray.set(index, null)} title="Clear">
+              <i className="fas fa-times"></i>
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', height: '100%', gap: '20px' }}>
+      <div>
+        <h1>Compare Subtitles</h1>
+        <p style={{ margin: 0, color: 'var(--text-secondary)' }}>
+          Pick two versions from a local file, Recent Media or Search (use "Compare" in the preview) to see them aligned cue by cue.
+        </p>
+      </div>
+
+      <div style={{ display: 'flex', gap: '16px', alignItems: 'stretch' }}>
+        {renderSlot(0)}
+        <button
+          className="btn-secondary"
+          onClick={() => compareTray.swap()}
+          title="Swap versions"
+          style={{ alignSelf: 'center' }}
+        >
+          <i className="fas fa-exchange-alt"></i>
+        </button>
+        {renderSlot(1)}
+      </div>
+
+      {error && (
+        <div style={{ color: 'var(--danger-color)', fontSize: '14px' }}>
+          <i className="fas fa-exclamation-circle" style={{ marginRight: '6px' }}></i>{error}
+        </div>
+      )}
+
+      {left && right && (
+        <div style={{ display: 'flex', flexDirection: 'column', flex: 1, minHeight: 0, border: '1px solid var(--border-color)', borderRadius: '8px' }}>
+          <div style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: '12px',
+            padding: '10px 12px',
+            borderBottom: '1px solid var(--border-color)',
+            fontSize: '12px',
+            color: 'var(--text-secondary)',
+            flexWrap: 'wrap',
+          }}>
+            <span>{summary.same} identical</span>
+            <span style={{ color: ROW_COLORS.changed }}>{summary.changed} text changes</span>
+            <span style={{ color: ROW_COLORS.timing }}>{summary.timing} timing drifts</span>
+            <span style={{ color: ROW_COLORS['left-only'] }}>{summary.leftOnly} only in A</span>
+            <span style={{ color: ROW_COLORS['right-only'] }}>{summary.rightOnly} only in B</span>
+            <label style={{ marginLeft: 'auto', display: 'flex', alignItems: 'center', gap: '6px' }}>
+              <input type="checkbox" checked={onlyDifferences} onChange={(e) => setOnlyDifferences(e.target.checked)} />
+              Only show differences
+            </label>
+          </div>
+          <div style={{ flex: 1, overflowY: 'auto' }}>
+            {visibleRows.length === 0 ? (
+              <div style={{ padding: '40px 20px', textAlign: 'center', color: 'var(--text-secondary)' }}>
+                <i className="fas fa-check-circle" style={{ fontSize: '24px', marginBottom: '12px', display: 'block', color: 'var(--success-color)' }}></i>
+                No differences found.
+              </div>
+            ) : (
+              visibleRows.map((row, i) => <DiffRowView key={i} row={row} />)
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default SubtitleCompare;
@@ -0,0 +1,429 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import ReactDOM from 'react-dom';
+import { detectSubtitleFormat, SubtitleEntry } from '../utils/subtitleParser';
+import { parseStyledEntries } from '../utils/subtitleMarkup';
+import { buildSubtitle, getExportExtension, getExportFormat, replaceExtension } from '../utils/subtitleConverter';
+import {
+  formatTimestamp,
+  parseTimestamp,
+  updateEntry,
+  deleteEntry,
+  insertEntryAfter,
+  splitEntry,
+  mergeWithNext,
+} from '../utils/subtitleEditing';
+import { saveTextFile } from '../hooks/useFileHandler';
+
+interface SubtitleEditorModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  content: string;
+  fileName: string;
+  /** Receives the edited content; when omitted the editor downloads it via saveTextFile */
+  onSave?: (content: string) => void;
+}
+
+interface History {
+  past: SubtitleEntry[][];
+  present: SubtitleEntry[];
+  future: SubtitleEntry[][];
+}
+
+const HISTORY_LIMIT = 200;
+
+const inputStyle: React.CSSProperties = {
+  padding: '4px 6px',
+  fontSize: '12px',
+  fontFamily: 'monospace',
+  background: 'var(--bg-secondary)',
+  color: 'var(--text-primary)',
+  border: '1px solid var(--border-color)',
+  borderRadius: '4px',
+};
+
+const toolButtonStyle: React.CSSProperties = {
+  padding: '6px 10px',
+  fontSize: '13px',
+  background: 'var(--bg-tertiary)',
+  color: 'var(--text-primary)',
+  border: '1px solid var(--border-color)',
+  borderRadius: '6px',
+  cursor: 'pointer',
+  display: 'flex',
+  alignItems: 'center',
+  gap: '6px',
+};
+
+const rowButtonStyle: React.CSSProperties = {
+  background: 'transparent',
+  border: 'none',
+  color: 'var(--text-secondary)',
+  cursor: 'pointer',
+  padding: '4px 6px',
+  fontSize: '12px',
+};
+
+interface CueRowProps {
+  index: number;
+  entry: SubtitleEntry;
+  isLast: boolean;
+  onChange: (index: number, changes: Partial<SubtitleEntry>) => void;
+  onSplit: (index: number, at?: number) => void;
+  onMerge: (index: number) => void;
+  onInsert: (index: number) => void;
+  onDelete: (index: number) => void;
+}
+
+function CueRow({ index, entry, isLast, onChange, onSplit, onMerge, onInsert, onDelete }: CueRowProps) {
+  // Drafts are committed on blur so each field edit is one undo step
+  const [startDraft, setStartDraft] = useState(formatTimestamp(entry.start));
+  const [endDraft, setEndDraft] = useState(formatTimestamp(entry.end));
+  const [textDraft, setTextDraft] = useState(entry.text);
+  const textRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => setStartDraft(formatTimestamp(entry.start)), [entry.start]);
+  useEffect(() => setEndDraft(formatTimestamp(entry.end)), [entry.end]);
+  useEffect(() => setTextDraft(entry.text), [entry.text]);
+
+  const commitTime = (field: 'start' | 'end', draft: string) => {
+    const ms = parseTimestamp(draft);
+    if (ms === null || ms === entry[field]) {
+      (field === 'start' ? setStartDraft : setEndDraft)(formatTimestamp(entry[field]));
+      return;
+    }
+    onChange(index, { [field]: ms });
+  };
+
+  const invalid = entry.end <= entry.start;
+
+  return (
+    <div style={{
+      display: 'flex',
+      gap: '8px',
+      alignItems: 'flex-start',
+      padding: '6px 16px',
+      background: index % 2 === 0 ? 'transparent' : 'var(--bg-secondary)',
+    }}>
+      <span style={{
+        color: 'var(--text-disabled)',
+        minWidth: '36px',
+        textAlign: 'right',
+        fontSize: '11px',
+        fontFamily: 'monospace',
+        paddingTop: '6px',
+      }}>{index + 1}.</span>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', flexShrink: 0 }}>
+        <input
+          value={startDraft}
+          onChange={(e) => setStartDraft(e.target.value)}
+          onBlur={() => commitTime('start', startDraft)}
+          aria-label={`Cue ${index + 1} start`}
+          style={{ ...inputStyle, width: '110px', borderColor: invalid ? 'var(--danger-color)' : 'var(--border-color)' }}
+        />
+        <input
+          value={endDraft}
+          onChange={(e) => setEndDraft(e.target.value)}
+          onBlur={() => commitTime('end', endDraft)}
+          aria-label={`Cue ${index + 1} end`}
+          style={{ ...inputStyle, width: '110px', borderColor: invalid ? 'var(--danger-color)' : 'var(--border-color)' }}
+        />
+      </div>
+      <textarea
+        ref={textRef}
+        value={textDraft}
+        onChange={(e) => setTextDraft(e.target.value)}
+        onBlur={() => { if (textDraft !== entry.text) onChange(index, { text: textDraft }); }}
+        rows={Math.max(2, textDraft.split('\n').length)}
+        aria-label={`Cue ${index + 1} text`}
+        style={{ ...inputStyle, flex: 1, fontSize: '13px', resize: 'vertical', lineHeight: '1.4' }}
+      />
+      <div style={{ display: 'flex', flexDirection: 'column', flexShrink: 0 }}>
+        <div style={{ display: 'flex' }}>
+          <button
+            style={rowButtonStyle}
+            title="Split at cursor"
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => {
+              // Flush a pending text edit first so the split uses what's on screen
+              if (textDraft !== entry.text) onChange(index, { text: textDraft });
+              const caret = document.activeElement === textRef.current ? textRef.current?.selectionStart : undefined;
+              onSplit(index, caret);
+            }}
+          >
+            <i className="fas fa-cut"></i>
+          </button>
+          <button style={{ ...rowButtonStyle, opacity: isLast ? 0.4 : 1 }} title="Merge with next" onClick={() => onMerge(index)} disabled={isLast}>
+            <i className="fas fa-compress-alt"></i>
+          </button>
+        </div>
+        <div style={{ display: 'flex' }}>
+          <button style={rowButtonStyle} title="Insert cue after" onClick={() => onInsert(index)}>
+            <i className="fas fa-plus"></i>
+          </button>
+          <button style={{ ...rowButtonStyle, color: 'var(--danger-color)' }} title="Delete cue" onClick={() => onDelete(index)}>
+            <i className="fas fa-trash"></i>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function SubtitleEditorModal({ isOpen, onClose, content, fileName, onSave }: SubtitleEditorModalProps) {
+  const format = useMemo(() => detectSubtitleFormat(content, fileName), [content, fileName]);
+  const [history, setHistory] = useState<History>({ past: [], present: [], future: [] });
+  const entries = history.present;
+
+  useEffect(() => {
+    if (isOpen) {
+      // Tags stay in the text so saving writes them back
+      setHistory({ past: [], present: parseStyledEntries(content, fileName), future: [] });
+    }
+  }, [isOpen, content, fileName]);
+
+  const apply = useCallback((edit: (current: SubtitleEntry[]) => SubtitleEntry[]) => {
+    setHistory(h => {
+      const next = edit(h.present);
+      if (next === h.present) return h;
+      return { past: [...h.past, h.present].slice(-HISTORY_LIMIT), present: next, future: [] };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(h => h.past.length === 0 ? h : {
+      past: h.past.slice(0, -1),
+      present: h.past[h.past.length - 1],
+      future: [h.present, ...h.future],
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(h => h.future.length === 0 ? h : {
+      past: [...h.past, h.present],
+      present: h.future[0],
+      future: h.future.slice(1),
+    });
+  }, []);
+
+  const isDirty = history.past.length > 0;
+
+  const handleClose = useCallback(() => {
+    if (isDirty && !window.confirm('Discard your subtitle edits?')) return;
+    onClose();
+  }, [isDirty, onClose]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        handleClose();
+        return;
+      }
+      // Leave undo inside text fields to the browser
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA') return;
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) redo(); else undo();
+      } else if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [isOpen, handleClose, undo, redo]);
+
+  const handleChange = useCallback((index: number, changes: Partial<SubtitleEntry>) => apply(e => updateEntry(e, index, changes)), [apply]);
+  const handleSplit = useCallback((index: number, at?: number) => apply(e => splitEntry(e, index, at)), [apply]);
+  const handleMerge = useCallback((index: number) => apply(e => mergeWithNext(e, index)), [apply]);
+  const handleInsert = useCallback((index: number) => apply(e => insertEntryAfter(e, index)), [apply]);
+  const handleDelete = useCallback((index: number) => apply(e => deleteEntry(e, index)), [apply]);
+
+  const handleSave = () => {
+    // Keep the source format when we can write it, otherwise fall back to SRT
+    const saveFormat = getExportFormat(format) ? format.toLowerCase() : 'srt';
+    const output = buildSubtitle(entries, saveFormat);
+    if (onSave) {
+      onSave(output);
+    } else {
+      saveTextFile(output, replaceExtension(fileName, getExportExtension(saveFormat)));
+    }
+    setHistory(h => ({ past: [], present: h.present, future: [] }));
+  };
+
+  if (!isOpen) return null;
+
+  return ReactDOM.createPortal(
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.6)',
+        zIndex: 10000,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: '20px',
+      }}
+      onClick={handleClose}
+    >
+      <div
+        style={{
+          backgroundColor: 'var(--bg-primary)',
+          borderRadius: '12px',
+          width: '95vw',
+          maxWidth: '1100px',
+          height: '85vh',
+          display: 'flex',
+          flexDirection: 'column',
+          boxShadow: '0 8px 32px rgba(0, 0, 0, 0.3)',
+          border: '1px solid var(--border-color)',
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div style={{
+          padding: '16px 20px',
+          borderBottom: '1px solid var(--border-color)',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          flexShrink: 0,
+        }}>
+          <h2 style={{
+            margin: 0,
+            fontSize: '16px',
+            fontWeight: '600',
+            color: 'var(--text-primary)',
+            display: 'flex',
+            alignItems: 'center',
+            gap: '8px',
+            overflow: 'hidden',
+            textOverflow: 'ellipsis',
+            whiteSpace: 'nowrap',
+          }}>
+            <i className="fas fa-edit" style={{ color: 'var(--primary-color)', flexShrink: 0 }}></i>
+            <span style={{ overflow: 'hidden', textOverflow: 'ellipsis' }}>{fileName}</span>
+            {isDirty && <span style={{ color: 'var(--text-secondary)', fontWeight: 'normal' }}>(edited)</span>}
+          </h2>
+          <button
+            onClick={handleClose}
+            style={{
+              background: 'transparent',
+              border: 'none',
+              fontSize: '24px',
+              color: 'var(--text-secondary)',
+              cursor: 'pointer',
+              padding: '4px 8px',
+              lineHeight: 1,
+              flexShrink: 0,
+            }}
+            aria-label="Close"
+          >
+            &times;
+          </button>
+        </div>
+
+        {/* Toolbar */}
+        <div style={{
+          padding: '8px 20px',
+          borderBottom: '1px solid var(--border-color)',
+          display: 'flex',
+          alignItems: 'center',
+          gap: '8px',
+          fontSize: '12px',
+          color: 'var(--text-secondary)',
+          flexShrink: 0,
+        }}>
+          <button style={{ ...toolButtonStyle, opacity: history.past.length ? 1 : 0.5 }} onClick={undo} disabled={!history.past.length} title="Undo (Ctrl+Z)">
+            <i className="fas fa-undo"></i> Undo
+          </button>
+          <button style={{ ...toolButtonStyle, opacity: history.future.length ? 1 : 0.5 }} onClick={redo} disabled={!history.future.length} title="Redo (Ctrl+Y)">
+            <i className="fas fa-redo"></i> Redo
+          </button>
+          <button style={toolButtonStyle} onClick={() => handleInsert(-1)} title="Insert cue at start">
+            <i className="fas fa-plus"></i> Add cue
+          </button>
+          <span style={{ marginLeft: 'auto' }}>{format} &middot; {entries.length.toLocaleString()} entries</span>
+        </div>
+
+        {/* Cues */}
+        <div style={{ flex: 1, overflowY: 'auto', padding: '4px 0' }}>
+          {entries.length === 0 ? (
+            <div style={{ padding: '40px 20px', textAlign: 'center', color: 'var(--text-secondary)' }}>
+              <i className="fas fa-exclamation-circle" style={{ fontSize: '24px', marginBottom: '12px', display: 'block' }}></i>
+              No subtitle entries. Use "Add cue" to start.
+            </div>
+          ) : (
+            entries.map((entry, i) => (
+              <CueRow
+                key={i}
+                index={i}
+                entry={entry}
+                isLast={i === entries.length - 1}
+                onChange={handleChange}
+                onSplit={handleSplit}
+                onMerge={handleMerge}
+                onInsert={handleInsert}
+                onDelete={handleDelete}
+              />
+            ))
+          )}
+        </div>
+
+        {/* Footer */}
+        <div style={{
+          padding: '12px 20px',
+          borderTop: '1px solid var(--border-color)',
+          display: 'flex',
+          justifyContent: 'flex-end',
+          gap: '8px',
+          flexShrink: 0,
+        }}>
+          <button
+            onClick={handleSave}
+            disabled={entries.length === 0}
+            style={{
+              padding: '8px 16px',
+              fontSize: '13px',
+              fontWeight: '600',
+              background: 'var(--primary-color)',
+              color: 'var(--button-text)',
+              border: 'none',
+              borderRadius: '6px',
+              cursor: entries.length === 0 ? 'not-allowed' : 'pointer',
+              opacity: entries.length === 0 ? 0.6 : 1,
+              display: 'flex',
+              alignItems: 'center',
+              gap: '6px',
+            }}
+          >
+            <i className="fas fa-save"></i> Save
+          </button>
+          <button
+            onClick={handleClose}
+            style={{
+              padding: '8px 16px',
+              fontSize: '13px',
+              fontWeight: '500',
+              background: 'var(--bg-tertiary)',
+              color: 'var(--text-primary)',
+              border: '1px solid var(--border-color)',
+              borderRadius: '6px',
+              cursor: 'pointer',
+            }}
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+}
+
+export default SubtitleEditorModal;
@@ -0,0 +1,296 @@
+import React, { useEffect, useRef, useState } from 'react';
+import ReactDOM from 'react-dom';
+import { ffmpegService, isAbortError } from '../services/ffmpegService';
+import { MuxContainer, MuxSubtitleTrack, toContainerLanguage } from '../utils/mediaStreams';
+import { replaceExtension } from '../utils/subtitleConverter';
+import { saveBlobFile, readTextFile, getAcceptString } from '../hooks/useFileHandler';
+import { logger } from '../utils/errorLogger';
+
+interface SubtitleMuxModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  videoFile: File;
+  /** Tracks to start with, e.g. the transcript or translation just produced */
+  initialTracks: MuxSubtitleTrack[];
+}
+
+const fieldStyle: React.CSSProperties = {
+  padding: '6px 8px',
+  fontSize: '13px',
+  background: 'var(--bg-secondary)',
+  color: 'var(--text-primary)',
+  border: '1px solid var(--border-color)',
+  borderRadius: '6px',
+};
+
+const labelStyle: React.CSSProperties = {
+  display: 'block',
+  fontSize: '12px',
+  color: 'var(--text-secondary)',
+  marginBottom: '4px',
+};
+
+const defaultContainer = (fileName: string): MuxContainer =>
+  /\.(mp4|m4v|mov)$/i.test(fileName) ? 'mp4' : 'mkv';
+
+function SubtitleMuxModal({ isOpen, onClose, videoFile, initialTracks }: SubtitleMuxModalProps) {
+  const [tracks, setTracks] = useState<MuxSubtitleTrack[]>(initialTracks);
+  const [container, setContainer] = useState<MuxContainer>(defaultContainer(videoFile.name));
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const isMuxing = progress !== null;
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setTracks(initialTracks);
+    setContainer(defaultContainer(videoFile.name));
+    setError(null);
+  }, [isOpen, initialTracks, videoFile]);
+
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        abortRef.current?.abort();
+        onClose();
+      }
+    };
+    if (isOpen) {
+      document.addEventListener('keydown', handleEscape);
+      return () => document.removeEventListener('keydown', handleEscape);
+    }
+  }, [isOpen, onClose]);
+
+  const updateTrack = (index: number, changes: Partial<MuxSubtitleTrack>) => {
+    setTracks(prev => prev.map((track, i) => {
+      if (i === index) return { ...track, ...changes };
+      // Only one track can be the default
+      if (changes.isDefault) return { ...track, isDefault: false };
+      return track;
+    }));
+  };
+
+  const handleAddFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const content = await readTextFile(file);
+      setTracks(prev => [...prev, { content, fileName: file.name, isDefault: prev.length === 0 }]);
+    } catch (err: any) {
+      setError(`Failed to read ${file.name}: ${err.message}`);
+    }
+  };
+
+  const handleMux = async () => {
+    setError(null);
+    setProgress(0);
+    const abortController = new AbortController();
+    abortRef.current = abortController;
+    try {
+      const blob = await ffmpegService.muxSubtitles(videoFile, tracks, container, p => setProgress(Math.round(p)), abortController.signal);
+      saveBlobFile(blob, replaceExtension(videoFile.name, `subtitled.${container}`));
+      onClose();
+    } catch (err: any) {
+      if (isAbortError(err)) return;
+      logger.error('Mux', 'Failed to add subtitles to video:', err);
+      setError(`Could not create the video: ${err.message || 'Unknown error'}. ${container === 'mp4' ? 'Try MKV, which accepts more audio and video codecs.' : ''}`);
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  return ReactDOM.createPortal(
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.6)',
+        zIndex: 10000,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: '20px',
+      }}
+      onClick={() => { if (!isMuxing) onClose(); }}
+    >
+      <div
+        style={{
+          backgroundColor: 'var(--bg-primary)',
+          borderRadius: '12px',
+          width: '90vw',
+          maxWidth: '720px',
+          maxHeight: '85vh',
+          display: 'flex',
+          flexDirection: 'column',
+          boxShadow: '0 8px 32px rgba(0, 0, 0, 0.3)',
+          border: '1px solid var(--border-color)',
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div style={{
+          padding: '16px 20px',
+          borderBottom: '1px solid var(--border-color)',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          flexShrink: 0,
+        }}>
+          <h2 style={{ margin: 0, fontSize: '16px', fontWeight: '600', color: 'var(--text-primary)', display: 'flex', alignItems: 'center', gap: '8px' }}>
+            <i className="fas fa-film" style={{ color: 'var(--primary-color)' }}></i>
+            Add subtitles to {videoFile.name}
+          </h2>
+          <button
+            onClick={handleCancel}
+            style={{ background: 'transparent', border: 'none', fontSize: '24px', color: 'var(--text-secondary)', cursor: 'pointer', padding: '4px 8px', lineHeight: 1 }}
+            aria-label="Close"
+          >
+            &times;
+          </button>
+        </div>
+
+        <div style={{ padding: '16px 20px', overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: '16px' }}>
+          <div style={{ fontSize: '13px', color: 'var(--text-secondary)' }}>
+            Video and audio are copied without re-encoding; each subtitle becomes a selectable track.
+          </div>
+
+          <div>
+            <label style={labelStyle}>Container</label>
+            <select value={container} onChange={(e) => setContainer(e.target.value as MuxContainer)} disabled={isMuxing} style={fieldStyle}>
+              <option value="mkv">MKV (keeps SRT/ASS styling)</option>
+              <option value="mp4">MP4 (mov_text, plain text only)</option>
+            </select>
+          </div>
+
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+            {tracks.map((track, i) => (
+              <div key={i} style={{ display: 'flex', gap: '8px', alignItems: 'center', flexWrap: 'wrap', padding: '8px', border: '1px solid var(--border-color)', borderRadius: '6px' }}>
+                <span style={{ flex: '1 1 160px', minWidth: 0, fontSize: '13px', color: 'var(--text-primary)', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }} title={track.fileName}>
+                  {track.fileName}
+                </span>
+                <input
+                  value={track.language || ''}
+                  onChange={(e) => updateTrack(i, { language: e.target.value })}
+                  placeholder="lang"
+                  title={`Language tag: ${toContainerLanguage(track.language)}`}
+                  disabled={isMuxing}
+                  style={{ ...fieldStyle, width: '70px' }}
+                />
+                <input
+                  value={track.title || ''}
+                  onChange={(e) => updateTrack(i, { title: e.target.value })}
+                  placeholder="Track title"
+                  disabled={isMuxing}
+                  style={{ ...fieldStyle, width: '140px' }}
+                />
+                <label style={{ fontSize: '12px', color: 'var(--text-primary)', display: 'flex', alignItems: 'center', gap: '4px' }}>
+                  <input type="checkbox" checked={!!track.isDefault} onChange={(e) => updateTrack(i, { isDefault: e.target.checked })} disabled={isMuxing} />
+                  Default
+                </label>
+                <label style={{ fontSize: '12px', color: 'var(--text-primary)', display: 'flex', alignItems: 'center', gap: '4px' }}>
+                  <input type="checkbox" checked={!!track.isForced} onChange={(e) => updateTrack(i, { isForced: e.target.checked })} disabled={isMuxing} />
+                  Forced
+                </label>
+                <button
+                  onClick={() => setTracks(prev => prev.filter((_, j) => j !== i))}
+                  disabled={isMuxing}
+                  title="Remove track"
+                  style={{ background: 'transparent', border: 'none', color: 'var(--danger-color)', cursor: 'pointer' }}
+                >
+                  <i className="fas fa-trash"></i>
+                </button>
+              </div>
+            ))}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={getAcceptString(['subtitle'])}
+              style={{ display: 'none' }}
+              onChange={(e) => {
+                handleAddFile(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+            <button className="btn-secondary" onClick={() => fileInputRef.current?.click()} disabled={isMuxing} style={{ alignSelf: 'flex-start' }}>
+              <i className="fas fa-plus" style={{ marginRight: '6px' }}></i>Add subtitle file
+            </button>
+          </div>
+
+          {isMuxing && (
+            <div style={{ fontSize: '13px', color: 'var(--text-secondary)' }}>
+              <i className="fas fa-spinner fa-spin" style={{ marginRight: '6px' }}></i>
+              Writing {container.toUpperCase()}... {progress}%
+            </div>
+          )}
+          {error && (
+            <div style={{ fontSize: '13px', color: 'var(--danger-color)' }}>
+              <i className="fas fa-exclamation-circle" style={{ marginRight: '6px' }}></i>{error}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div style={{
+          padding: '12px 20px',
+          borderTop: '1px solid var(--border-color)',
+          display: 'flex',
+          justifyContent: 'flex-end',
+          gap: '8px',
+          flexShrink: 0,
+        }}>
+          <button
+            onClick={handleMux}
+            disabled={isMuxing || tracks.length === 0}
+            style={{
+              padding: '8px 16px',
+              fontSize: '13px',
+              fontWeight: '600',
+              background: 'var(--primary-color)',
+              color: 'var(--button-text)',
+              border: 'none',
+              borderRadius: '6px',
+              cursor: isMuxing || tracks.length === 0 ? 'not-allowed' : 'pointer',
+              opacity: isMuxing || tracks.length === 0 ? 0.6 : 1,
+              display: 'flex',
+              alignItems: 'center',
+              gap: '6px',
+            }}
+          >
+            <i className="fas fa-download"></i> Create {container.toUpperCase()}
+          </button>
+          <button
+            onClick={handleCancel}
+            style={{
+              padding: '8px 16px',
+              fontSize: '13px',
+              fontWeight: '500',
+              background: 'var(--bg-tertiary)',
+              color: 'var(--text-primary)',
+              border: '1px solid var(--border-color)',
+              borderRadius: '6px',
+              cursor: 'pointer',
+            }}
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+}
+
+export default SubtitleMuxModal;
@@ -1,6 +1,15 @@
-import React, { useEffect, useMemo } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import ReactDOM from 'react-dom';
+import { useNavigate } from 'react-router-dom';
 import { parseSubtitleEntries, detectSubtitleFormat, SubtitleEntry } from '../utils/subtitleParser';
+import { EXPORT_FORMATS, buildSubtitle, convertSubtitle, getExportExtension, getExportFormat, replaceExtension } from '../utils/subtitleConverter';
+import { saveTextFile } from '../hooks/useFileHandler';
+import { findCueAt } from '../utils/subtitleTiming';
+import { compareTray, CompareOrigin } from '../utils/compareTray';
+import SubtitleEditorModal from './SubtitleEditorModal';
+import SubtitleRetimeModal from './SubtitleRetimeModal';
+import LintBadge from './LintBadge';
+import { lintEntries, summarizeLint, autoFixSubtitle, LintSeverity } from '../utils/subtitleLinter';
 
 interface SubtitlePreviewModalProps {
   isOpen: boolean;
@@ -8,6 +17,10 @@ interface SubtitlePreviewModalProps {
   content: string;
   fileName: string;
   onDownload?: () => void;
+  /** Where the content came from; enables sending it to the compare view */
+  compareOrigin?: CompareOrigin;
+  /** Local video to play the subtitles over; enables the video preview */
+  videoFile?: File | null;
 }
 
 function formatMs(ms: number): string {
@@ -30,24 +43,144 @@ function formatTotalDuration(entries: SubtitleEntry[]): string {
   return `${mins}m`;
 }
 
-function SubtitlePreviewModal({ isOpen, onClose, content, fileName, onDownload }: SubtitlePreviewModalProps) {
+function SubtitlePreviewModal({ isOpen, onClose, content, fileName, onDownload, compareOrigin, videoFile }: SubtitlePreviewModalProps) {
+  const navigate = useNavigate();
+  const [activeTool, setActiveTool] = useState<'edit' | 'retime' | null>(null);
+
   useEffect(() => {
     const handleEscape = (e: KeyboardEvent) => {
       if (e.key === 'Escape') onClose();
     };
-    if (isOpen) {
+    // Editing tools handle Escape themselves while open
+    if (isOpen && !activeTool) {
       document.addEventListener('keydown', handleEscape);
       return () => document.removeEventListener('keydown', handleEscape);
     }
-  }, [isOpen, onClose]);
+  }, [isOpen, activeTool, onClose]);
+
+  useEffect(() => {
+    if (!isOpen) setActiveTool(null);
+  }, [isOpen]);
+
+  // Auto-fixes apply to a working copy; Export saves it
+  const [workingContent, setWorkingContent] = useState(content);
+  const [showIssues, setShowIssues] = useState(false);
 
-  const entries = useMemo(() => parseSubtitleEntries(content, fileName), [content, fileName]);
-  const format = useMemo(() => detectSubtitleFormat(content, fileName), [content, fileName]);
+  useEffect(() => {
+    setWorkingContent(content);
+    setShowIssues(false);
+  }, [content]);
+
+  const entries = useMemo(() => parseSubtitleEntries(workingContent, fileName), [workingContent, fileName]);
+  const format = useMemo(() => detectSubtitleFormat(workingContent, fileName), [workingContent, fileName]);
+  const issues = useMemo(() => lintEntries(entries), [entries]);
+  const lintSummary = useMemo(() => summarizeLint(issues), [issues]);
+  const issueSeverityByCue = useMemo(() => {
+    const map = new Map<number, LintSeverity>();
+    issues.forEach(issue => {
+      if (map.get(issue.cueIndex) !== 'error') map.set(issue.cueIndex, issue.severity);
+    });
+    return map;
+  }, [issues]);
+  const isFixed = workingContent !== content;
   const totalChars = useMemo(() => entries.reduce((sum, e) => sum + e.text.length, 0), [entries]);
   const duration = useMemo(() => formatTotalDuration(entries), [entries]);
+  const [exportFormat, setExportFormat] = useState('srt');
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setExportFormat(getExportFormat(format) ? format.toLowerCase() : 'srt');
+  }, [format]);
+
+  // Video preview: the file plays from an object URL with the working copy
+  // attached as a WebVTT track, and the list follows playback
+  const [showVideo, setShowVideo] = useState(true);
+  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const [trackUrl, setTrackUrl] = useState<string | null>(null);
+  const [activeCue, setActiveCue] = useState(-1);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const cueRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const isVideoShown = isOpen && !!videoFile && showVideo;
+
+  useEffect(() => {
+    if (!isVideoShown || !videoFile) return;
+    const url = URL.createObjectURL(videoFile);
+    setVideoUrl(url);
+    return () => {
+      URL.revokeObjectURL(url);
+      setVideoUrl(null);
+    };
+  }, [isVideoShown, videoFile]);
+
+  useEffect(() => {
+    if (!isVideoShown || entries.length === 0) return;
+    const url = URL.createObjectURL(new Blob([buildSubtitle(entries, 'vtt')], { type: 'text/vtt' }));
+    setTrackUrl(url);
+    return () => {
+      URL.revokeObjectURL(url);
+      setTrackUrl(null);
+    };
+  }, [isVideoShown, entries]);
+
+  useEffect(() => {
+    if (activeCue >= 0) cueRefs.current[activeCue]?.scrollIntoView({ block: 'nearest' });
+  }, [activeCue]);
+
+  const handleTimeUpdate = () => {
+    if (videoRef.current) setActiveCue(findCueAt(entries, videoRef.current.currentTime * 1000));
+  };
+
+  const handleCueClick = (index: number) => {
+    if (!videoRef.current) return;
+    videoRef.current.currentTime = entries[index].start / 1000;
+    setActiveCue(index);
+  };
+
+  const handleExport = () => {
+    // Converted from the working copy, not the listed cues, so styling survives
+    try {
+      saveTextFile(convertSubtitle(workingContent, fileName, exportFormat), replaceExtension(fileName, getExportExtension(exportFormat)));
+      setExportError(null);
+    } catch (error: any) {
+      setExportError(error.message || 'Export failed');
+    }
+  };
+
+  const handleCompare = () => {
+    if (!compareOrigin) return;
+    compareTray.add({ content: workingContent, fileName, origin: compareOrigin });
+    onClose();
+    navigate('/compare');
+  };
+
+  const handleAutoFix = () => {
+    setWorkingContent(autoFixSubtitle(workingContent, fileName));
+  };
 
   if (!isOpen) return null;
 
+  // Editing tools take the preview's place until they are closed
+  if (activeTool === 'edit') {
+    return (
+      <SubtitleEditorModal
+        isOpen={true}
+        onClose={() => setActiveTool(null)}
+        content={workingContent}
+        fileName={fileName}
+      />
+    );
+  }
+  if (activeTool === 'retime') {
+    return (
+      <SubtitleRetimeModal
+        isOpen={true}
+        onClose={() => setActiveTool(null)}
+        content={workingContent}
+        fileName={fileName}
+      />
+    );
+  }
+
   return ReactDOM.createPortal(
     <div
       style={{
@@ -148,8 +281,105 @@ function SubtitlePreviewModal({ isOpen, onClose, content, fileName, onDownload }
           {duration && <><span style={{ color: 'var(--border-color)' }}>&middot;</span><span>{duration}</span></>}
           <span style={{ color: 'var(--border-color)' }}>&middot;</span>
           <span>{totalChars.toLocaleString()} chars</span>
+          {entries.length > 0 && (
+            <>
+              <span style={{ color: 'var(--border-color)' }}>&middot;</span>
+              <LintBadge summary={lintSummary} onClick={lintSummary.total > 0 ? () => setShowIssues(v => !v) : undefined} />
+            </>
+          )}
+          {isFixed && <span style={{ fontStyle: 'italic' }}>auto-fixed (use Export to save)</span>}
+          {videoFile && entries.length > 0 && (
+            <button
+              onClick={() => setShowVideo(v => !v)}
+              style={{
+                marginLeft: 'auto',
+                padding: '2px 8px',
+                fontSize: '12px',
+                background: 'transparent',
+                color: 'var(--text-secondary)',
+                border: '1px solid var(--border-color)',
+                borderRadius: '4px',
+                cursor: 'pointer',
+                display: 'flex',
+                alignItems: 'center',
+                gap: '6px',
+              }}
+            >
+              <i className="fas fa-film"></i> {showVideo ? 'Hide video' : 'Show video'}
+            </button>
+          )}
         </div>
 
+        {/* Video Preview */}
+        {isVideoShown && videoUrl && entries.length > 0 && (
+          <div style={{
+            borderBottom: '1px solid var(--border-color)',
+            background: '#000',
+            display: 'flex',
+            justifyContent: 'center',
+            flexShrink: 0,
+          }}>
+            <video
+              ref={videoRef}
+              src={videoUrl}
+              controls
+              onTimeUpdate={handleTimeUpdate}
+              onSeeked={handleTimeUpdate}
+              style={{ maxWidth: '100%', maxHeight: '40vh' }}
+            >
+              {trackUrl && <track key={trackUrl} kind="subtitles" src={trackUrl} label={fileName} default />}
+            </video>
+          </div>
+        )}
+
+        {/* Quality Issues */}
+        {showIssues && issues.length > 0 && (
+          <div style={{
+            borderBottom: '1px solid var(--border-color)',
+            flexShrink: 0,
+            fontSize: '12px',
+          }}>
+            <div style={{
+              padding: '6px 20px',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'space-between',
+              color: 'var(--text-secondary)',
+            }}>
+              <span>Quality issues</span>
+              <button
+                onClick={handleAutoFix}
+                style={{
+                  padding: '4px 10px',
+                  fontSize: '12px',
+                  background: 'var(--primary-color)',
+                  color: 'var(--button-text)',
+                  border: 'none',
+                  borderRadius: '4px',
+                  cursor: 'pointer',
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '6px',
+                }}
+              >
+                <i className="fas fa-magic"></i> Auto-fix
+              </button>
+            </div>
+            <div style={{ maxHeight: '140px', overflowY: 'auto', padding: '0 20px 8px' }}>
+              {issues.map((issue, i) => (
+                <div key={i} style={{ display: 'flex', gap: '8px', padding: '2px 0', color: 'var(--text-primary)' }}>
+                  <i
+                    className={`fas ${issue.severity === 'error' ? 'fa-times-circle' : 'fa-exclamation-triangle'}`}
+                    style={{ color: issue.severity === 'error' ? 'var(--danger-color)' : 'var(--warning-color)', paddingTop: '2px' }}
+                  ></i>
+                  <span style={{ color: 'var(--text-secondary)', minWidth: '60px' }}>Cue {issue.cueIndex + 1}</span>
+                  <span>{issue.message}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Subtitle Entries */}
         <div style={{
           flex: 1,
@@ -172,9 +402,17 @@ function SubtitlePreviewModal({ isOpen, onClose, content, fileName, onDownload }
             entries.map((entry, i) => (
               <div
                 key={i}
+                ref={(el) => { cueRefs.current[i] = el; }}
+                onClick={isVideoShown ? () => handleCueClick(i) : undefined}
                 style={{
                   padding: '3px 16px',
-                  background: i % 2 === 0 ? 'transparent' : 'var(--bg-secondary)',
+                  background: i === activeCue && isVideoShown
+                    ? 'var(--bg-tertiary)'
+                    : i % 2 === 0 ? 'transparent' : 'var(--bg-secondary)',
+                  cursor: isVideoShown ? 'pointer' : undefined,
+                  borderLeft: `3px solid ${issueSeverityByCue.get(i) === 'error'
+                    ? 'var(--danger-color)'
+                    : issueSeverityByCue.has(i) ? 'var(--warning-color)' : 'transparent'}`,
                   display: 'flex',
                   gap: '8px',
                   alignItems: 'baseline',
@@ -210,6 +448,120 @@ function SubtitlePreviewModal({ isOpen, onClose, content, fileName, onDownload }
           gap: '8px',
           flexShrink: 0,
         }}>
+          {entries.length > 0 && (
+            <div style={{ display: 'flex', alignItems: 'center', gap: '6px', marginRight: 'auto' }}>
+              <select
+                value={exportFormat}
+                onChange={(e) => { setExportFormat(e.target.value); setExportError(null); }}
+                aria-label="Export format"
+                style={{
+                  padding: '7px 8px',
+                  fontSize: '13px',
+                  background: 'var(--bg-secondary)',
+                  color: 'var(--text-primary)',
+                  border: '1px solid var(--border-color)',
+                  borderRadius: '6px',
+                }}
+              >
+                {EXPORT_FORMATS.map(f => (
+                  <option key={f.id} value={f.id}>{f.label}</option>
+                ))}
+              </select>
+              <button
+                onClick={handleExport}
+                style={{
+                  padding: '8px 16px',
+                  fontSize: '13px',
+                  fontWeight: '500',
+                  background: 'var(--bg-tertiary)',
+                  color: 'var(--text-primary)',
+                  border: '1px solid var(--border-color)',
+                  borderRadius: '6px',
+                  cursor: 'pointer',
+                  transition: 'background 0.2s ease',
+                  display: 'flex',
+                  alignItems: 'center',
+                  gap: '6px',
+                }}
+                onMouseEnter={(e) => e.currentTarget.style.background = 'var(--bg-secondary)'}
+                onMouseLeave={(e) => e.currentTarget.style.background = 'var(--bg-tertiary)'}
+              >
+                <i className="fas fa-file-export"></i> Export
+              </button>
+              {exportError && (
+                <span style={{ fontSize: '12px', color: 'var(--danger-color)' }}>{exportError}</span>
+              )}
+            </div>
+          )}
+          {entries.length > 0 && (
+            <button
+              onClick={() => setActiveTool('edit')}
+              style={{
+                padding: '8px 16px',
+                fontSize: '13px',
+                fontWeight: '500',
+                background: 'var(--bg-tertiary)',
+                color: 'var(--text-primary)',
+                border: '1px solid var(--border-color)',
+                borderRadius: '6px',
+                cursor: 'pointer',
+                transition: 'background 0.2s ease',
+                display: 'flex',
+                alignItems: 'center',
+                gap: '6px',
+              }}
+              onMouseEnter={(e) => e.currentTarget.style.background = 'var(--bg-secondary)'}
+              onMouseLeave={(e) => e.currentTarget.style.background = 'var(--bg-tertiary)'}
+            >
+              <i className="fas fa-edit"></i> Edit
+            </button>
+          )}
+          {entries.length > 0 && (
+            <button
+              onClick={() => setActiveTool('retime')}
+              style={{
+                padding: '8px 16px',
+                fontSize: '13px',
+                fontWeight: '500',
+                background: 'var(--bg-tertiary)',
+                color: 'var(--text-primary)',
+                border: '1px solid var(--border-color)',
+                borderRadius: '6px',
+                cursor: 'pointer',
+                transition: 'background 0.2s ease',
+                display: 'flex',
+                alignItems: 'center',
+                gap: '6px',
+              }}
+              onMouseEnter={(e) => e.currentTarget.style.background = 'var(--bg-secondary)'}
+              onMouseLeave={(e) => e.currentTarget.style.background = 'var(--bg-tertiary)'}
+            >
+              <i className="fas fa-clock"></i> Retime
+            </button>
+          )}
+          {entries.length > 0 && compareOrigin && (
+            <button
+              onClick={handleCompare}
+              style={{
+                padding: '8px 16px',
+                fontSize: '13px',
+                fontWeight: '500',
+                background: 'var(--bg-tertiary)',
+                color: 'var(--text-primary)',
+                border: '1px solid var(--border-color)',
+                borderRadius: '6px',
+                cursor: 'pointer',
+                transition: 'background 0.2s ease',
+                display: 'flex',
+                alignItems: 'center',
+                gap: '6px',
+              }}
+              onMouseEnter={(e) => e.currentTarget.style.background = 'var(--bg-secondary)'}
+              onMouseLeave={(e) => e.currentTarget.style.background = 'var(--bg-tertiary)'}
+            >
+              <i className="fas fa-columns"></i> Compare
+            </button>
+          )}
           {onDownload && (
             <button
               onClick={onDownload}
@@ -0,0 +1,455 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import ReactDOM from 'react-dom';
+import { detectSubtitleFormat, SubtitleEntry } from '../utils/subtitleParser';
+import { parseStyledEntries, stripMarkup } from '../utils/subtitleMarkup';
+import { buildSubtitle, getExportExtension, getExportFormat, replaceExtension } from '../utils/subtitleConverter';
+import { formatTimestamp, parseTimestamp } from '../utils/subtitleEditing';
+import { FPS_CONVERSIONS, getFpsConversion, shiftEntries, stretchEntries, convertFrameRate, scaleAndShiftEntries } from '../utils/subtitleTiming';
+import { detectVoiceActivity, alignToVoiceActivity, AudioSyncResult } from '../utils/audioSync';
+import { ffmpegService, isAbortError } from '../services/ffmpegService';
+import { AudioStreamInfo, describeAudioStream, getDefaultAudioStream } from '../utils/mediaStreams';
+import { saveTextFile, getAcceptString } from '../hooks/useFileHandler';
+import { logger } from '../utils/errorLogger';
+
+interface SubtitleRetimeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  content: string;
+  fileName: string;
+}
+
+type RetimeMode = 'offset' | 'stretch' | 'fps' | 'audio';
+
+const PREVIEW_ROWS = 6;
+
+/** Low rate keeps a feature-length track small; speech energy survives it */
+const SYNC_SAMPLE_RATE = 8000;
+
+const fieldStyle: React.CSSProperties = {
+  padding: '6px 8px',
+  fontSize: '13px',
+  background: 'var(--bg-secondary)',
+  color: 'var(--text-primary)',
+  border: '1px solid var(--border-color)',
+  borderRadius: '6px',
+};
+
+const labelStyle: React.CSSProperties = {
+  display: 'block',
+  fontSize: '12px',
+  color: 'var(--text-secondary)',
+  marginBottom: '4px',
+};
+
+const cueLabel = (entry: SubtitleEntry, index: number) => {
+  const text = stripMarkup(entry.text).replace(/\s*\n\s*/g, ' ');
+  return `#${index + 1} ${formatTimestamp(entry.start)} ${text.length > 40 ? text.slice(0, 40) + '…' : text}`;
+};
+
+function SubtitleRetimeModal({ isOpen, onClose, content, fileName }: SubtitleRetimeModalProps) {
+  const entries = useMemo(() => parseStyledEntries(content, fileName), [content, fileName]);
+  const format = useMemo(() => detectSubtitleFormat(content, fileName), [content, fileName]);
+
+  const [mode, setMode] = useState<RetimeMode>('offset');
+  const [offsetSeconds, setOffsetSeconds] = useState('0');
+  const [fpsConversion, setFpsConversion] = useState(FPS_CONVERSIONS[0].id);
+  const [firstCue, setFirstCue] = useState(0);
+  const [secondCue, setSecondCue] = useState(0);
+  const [firstTarget, setFirstTarget] = useState('');
+  const [secondTarget, setSecondTarget] = useState('');
+  const [syncStatus, setSyncStatus] = useState<'idle' | 'extracting' | 'analyzing'>('idle');
+  const [syncProgress, setSyncProgress] = useState(0);
+  const [syncResult, setSyncResult] = useState<AudioSyncResult | null>(null);
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const [syncMediaName, setSyncMediaName] = useState('');
+  // Audio tracks of the chosen file, when it has more than one
+  const [syncAudioStreams, setSyncAudioStreams] = useState<AudioStreamInfo[]>([]);
+  const [syncStreamIndex, setSyncStreamIndex] = useState<number | undefined>(undefined);
+  const syncFileRef = useRef<File | null>(null);
+  const syncAbortRef = useRef<AbortController | null>(null);
+
+  // Closing the modal cancels a running extraction
+  useEffect(() => {
+    if (!isOpen) syncAbortRef.current?.abort();
+  }, [isOpen]);
+  useEffect(() => () => syncAbortRef.current?.abort(), []);
+
+  useEffect(() => {
+    if (!isOpen || entries.length === 0) return;
+    const last = entries.length - 1;
+    setFirstCue(0);
+    setSecondCue(last);
+    setFirstTarget(formatTimestamp(entries[0].start));
+    setSecondTarget(formatTimestamp(entries[last].start));
+  }, [isOpen, entries]);
+
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    if (isOpen) {
+      document.addEventListener('keydown', handleEscape);
+      return () => document.removeEventListener('keydown', handleEscape);
+    }
+  }, [isOpen, onClose]);
+
+  // Recomputed on every input change so the preview tracks the settings
+  const { retimed, error } = useMemo((): { retimed: SubtitleEntry[]; error: string | null } => {
+    try {
+      if (mode === 'offset') {
+        const seconds = parseFloat(offsetSeconds);
+        if (isNaN(seconds)) return { retimed: entries, error: 'Enter an offset in seconds' };
+        return { retimed: shiftEntries(entries, Math.round(seconds * 1000)), error: null };
+      }
+      if (mode === 'audio') {
+        if (!syncResult) return { retimed: entries, error: syncError || 'Choose the video to sync against' };
+        return { retimed: scaleAndShiftEntries(entries, syncResult.scale, syncResult.offsetMs), error: null };
+      }
+      if (mode === 'fps') {
+        const conversion = getFpsConversion(fpsConversion);
+        if (!conversion) return { retimed: entries, error: 'Choose a frame rate conversion' };
+        return { retimed: convertFrameRate(entries, conversion.inFps, conversion.outFps), error: null };
+      }
+      const firstTo = parseTimestamp(firstTarget);
+      const secondTo = parseTimestamp(secondTarget);
+      if (firstTo === null || secondTo === null) {
+        return { retimed: entries, error: 'Sync times must look like 00:01:23,456' };
+      }
+      return {
+        retimed: stretchEntries(
+          entries,
+          { from: entries[firstCue].start, to: firstTo },
+          { from: entries[secondCue].start, to: secondTo },
+        ),
+        error: null,
+      };
+    } catch (err: any) {
+      return { retimed: entries, error: err.message };
+    }
+  }, [mode, entries, offsetSeconds, fpsConversion, firstCue, secondCue, firstTarget, secondTarget, syncResult, syncError]);
+
+  /**
+   * Syncs against one audio track of `file`; the default track (not
+   * ffmpeg's own pick, which may be a dub or commentary) unless one is given
+   */
+  const handleSyncMedia = async (file: File | undefined, audioStreamIndex?: number) => {
+    if (!file) return;
+    setSyncMediaName(file.name);
+    setSyncResult(null);
+    setSyncError(null);
+    setSyncProgress(0);
+    setSyncStatus('extracting');
+    const abortController = new AbortController();
+    syncAbortRef.current = abortController;
+    try {
+      if (file !== syncFileRef.current) {
+        syncFileRef.current = file;
+        const info = await ffmpegService.probeMediaInfo(file, abortController.signal).catch(err => {
+          if (isAbortError(err)) throw err;
+          logger.warn('Retime', `Could not read the audio tracks of ${file.name}`, err);
+          return null;
+        });
+        const streams = info?.audioStreams ?? [];
+        setSyncAudioStreams(streams.length > 1 ? streams : []);
+        audioStreamIndex = getDefaultAudioStream(streams)?.index;
+      }
+      setSyncStreamIndex(audioStreamIndex);
+      const samples = await ffmpegService.extractPcmAudio(file, {
+        sampleRate: SYNC_SAMPLE_RATE,
+        audioStreamIndex,
+        onProgress: p => setSyncProgress(Math.round(p)),
+        signal: abortController.signal,
+      });
+      setSyncStatus('analyzing');
+      // Let the status render before the synchronous analysis blocks the thread
+      await new Promise(resolve => setTimeout(resolve, 0));
+      const speech = detectVoiceActivity(samples, SYNC_SAMPLE_RATE);
+      const result = alignToVoiceActivity(entries, speech);
+      logger.info('Retime', `Audio sync for ${fileName}: offset ${result.offsetMs}ms, scale ${result.scale.toFixed(5)}, match ${Math.round(result.matchRatio * 100)}%`);
+      setSyncResult(result);
+    } catch (err: any) {
+      if (isAbortError(err)) return;
+      logger.error('Retime', 'Audio sync failed:', err);
+      setSyncError(`Audio sync failed: ${err.message || 'Unknown error'}`);
+    } finally {
+      syncAbortRef.current = null;
+      setSyncStatus('idle');
+    }
+  };
+
+  const handleSave = () => {
+    const saveFormat = getExportFormat(format) ? format.toLowerCase() : 'srt';
+    saveTextFile(buildSubtitle(retimed, saveFormat), replaceExtension(fileName, getExportExtension(saveFormat)));
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  const modeButton = (value: RetimeMode, icon: string, label: string) => (
+    <button
+      onClick={() => setMode(value)}
+      style={{
+        ...fieldStyle,
+        cursor: 'pointer',
+        background: mode === value ? 'var(--primary-color)' : 'var(--bg-secondary)',
+        color: mode === value ? 'var(--button-text)' : 'var(--text-primary)',
+        display: 'flex',
+        alignItems: 'center',
+        gap: '6px',
+      }}
+    >
+      <i className={`fas ${icon}`}></i> {label}
+    </button>
+  );
+
+  return ReactDOM.createPortal(
+    <div
+      style={{
+        position: 'fixed',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.6)',
+        zIndex: 10000,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: '20px',
+      }}
+      onClick={onClose}
+    >
+      <div
+        style={{
+          backgroundColor: 'var(--bg-primary)',
+          borderRadius: '12px',
+          width: '90vw',
+          maxWidth: '720px',
+          maxHeight: '85vh',
+          display: 'flex',
+          flexDirection: 'column',
+          boxShadow: '0 8px 32px rgba(0, 0, 0, 0.3)',
+          border: '1px solid var(--border-color)',
+        }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div style={{
+          padding: '16px 20px',
+          borderBottom: '1px solid var(--border-color)',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          flexShrink: 0,
+        }}>
+          <h2 style={{ margin: 0, fontSize: '16px', fontWeight: '600', color: 'var(--text-primary)', display: 'flex', alignItems: 'center', gap: '8px' }}>
+            <i className="fas fa-clock" style={{ color: 'var(--primary-color)' }}></i>
+            Retime {fileName}
+          </h2>
+          <button
+            onClick={onClose}
+            style={{ background: 'transparent', border: 'none', fontSize: '24px', color: 'var(--text-secondary)', cursor: 'pointer', padding: '4px 8px', lineHeight: 1 }}
+            aria-label="Close"
+          >
+            &times;
+          </button>
+        </div>
+
+        <div style={{ padding: '16px 20px', overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: '16px' }}>
+          <div style={{ display: 'flex', gap: '8px', flexWrap: 'wrap' }}>
+            {modeButton('offset', 'fa-arrows-alt-h', 'Offset')}
+            {modeButton('stretch', 'fa-expand-alt', 'Two-point sync')}
+            {modeButton('fps', 'fa-film', 'Frame rate')}
+            {modeButton('audio', 'fa-wave-square', 'Sync to video')}
+          </div>
+
+          {mode === 'offset' && (
+            <div>
+              <label style={labelStyle}>Shift all cues by (seconds, negative = earlier)</label>
+              <input
+                type="number"
+                step="0.1"
+                value={offsetSeconds}
+                onChange={(e) => setOffsetSeconds(e.target.value)}
+                style={{ ...fieldStyle, width: '160px' }}
+              />
+            </div>
+          )}
+
+          {mode === 'stretch' && (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '10px' }}>
+              {[
+                { cue: firstCue, setCue: setFirstCue, target: firstTarget, setTarget: setFirstTarget, label: 'First sync point' },
+                { cue: secondCue, setCue: setSecondCue, target: secondTarget, setTarget: setSecondTarget, label: 'Second sync point' },
+              ].map(point => (
+                <div key={point.label}>
+                  <label style={labelStyle}>{point.label}: cue and the time it should start at</label>
+                  <div style={{ display: 'flex', gap: '8px' }}>
+                    <select
+                      value={point.cue}
+                      onChange={(e) => point.setCue(parseInt(e.target.value, 10))}
+                      style={{ ...fieldStyle, flex: 1, minWidth: 0 }}
+                    >
+                      {entries.map((entry, i) => (
+                        <option key={i} value={i}>{cueLabel(entry, i)}</option>
+                      ))}
+                    </select>
+                    <input
+                      value={point.target}
+                      onChange={(e) => point.setTarget(e.target.value)}
+                      style={{ ...fieldStyle, width: '130px', fontFamily: 'monospace' }}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {mode === 'fps' && (
+            <div>
+              <label style={labelStyle}>Convert timings from → to frame rate</label>
+              <select value={fpsConversion} onChange={(e) => setFpsConversion(e.target.value)} style={fieldStyle}>
+                {FPS_CONVERSIONS.map(c => (
+                  <option key={c.id} value={c.id}>{c.label}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {mode === 'audio' && (
+            <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+              <label style={labelStyle}>
+                Local video or audio of your release. Speech is detected in the browser and the cues are lined up with it; nothing is uploaded.
+              </label>
+              <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                <input
+                  type="file"
+                  accept={getAcceptString(['video', 'audio'])}
+                  disabled={syncStatus !== 'idle'}
+                  onChange={(e) => {
+                    syncFileRef.current = null;
+                    handleSyncMedia(e.target.files?.[0]);
+                    e.target.value = '';
+                  }}
+                  style={{ fontSize: '13px', color: 'var(--text-primary)' }}
+                />
+                {syncAudioStreams.length > 0 && (
+                  <select
+                    value={syncStreamIndex ?? ''}
+                    disabled={syncStatus !== 'idle'}
+                    onChange={(e) => handleSyncMedia(syncFileRef.current ?? undefined, parseInt(e.target.value, 10))}
+                    style={fieldStyle}
+                  >
+                    {syncAudioStreams.map(stream => (
+                      <option key={stream.index} value={stream.index}>{describeAudioStream(stream)}</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+              {syncStatus !== 'idle' && (
+                <div style={{ fontSize: '13px', color: 'var(--text-secondary)' }}>
+                  <i className="fas fa-spinner fa-spin" style={{ marginRight: '6px' }}></i>
+                  {syncStatus === 'extracting'
+                    ? `Extracting audio from ${syncMediaName}... ${syncProgress}%`
+                    : 'Detecting speech and aligning cues...'}
+                  {syncStatus === 'extracting' && (
+                    <button
+                      onClick={() => syncAbortRef.current?.abort()}
+                      style={{ marginLeft: '8px', background: 'transparent', border: 'none', color: 'var(--primary-color)', cursor: 'pointer', fontSize: '13px', padding: 0 }}
+                    >
+                      Cancel
+                    </button>
+                  )}
+                </div>
+              )}
+              {syncResult && syncStatus === 'idle' && (
+                <div style={{ fontSize: '13px', color: 'var(--text-primary)', display: 'flex', gap: '16px', flexWrap: 'wrap' }}>
+                  <span><strong>Offset:</strong> {syncResult.offsetMs > 0 ? '+' : ''}{(syncResult.offsetMs / 1000).toFixed(2)}s</span>
+                  <span>
+                    <strong>Drift:</strong>{' '}
+                    {syncResult.scale === 1 ? 'none' : `${((syncResult.scale - 1) * 100).toFixed(2)}% (speed ×${syncResult.scale.toFixed(4)})`}
+                  </span>
+                  <span>
+                    <strong>Speech match:</strong> {Math.round(syncResult.originalMatchRatio * 100)}% &rarr; {Math.round(syncResult.matchRatio * 100)}%
+                  </span>
+                </div>
+              )}
+            </div>
+          )}
+
+          {error ? (
+            <div style={{ fontSize: '13px', color: 'var(--danger-color)' }}>
+              <i className="fas fa-exclamation-circle" style={{ marginRight: '6px' }}></i>{error}
+            </div>
+          ) : (
+            <div style={{ fontFamily: 'monospace', fontSize: '12px', lineHeight: '1.6', border: '1px solid var(--border-color)', borderRadius: '6px', padding: '8px 12px' }}>
+              {retimed.slice(0, PREVIEW_ROWS).map((entry, i) => (
+                <div key={i} style={{ display: 'flex', gap: '8px', whiteSpace: 'nowrap', overflow: 'hidden' }}>
+                  <span style={{ color: 'var(--text-secondary)' }}>
+                    {entries[i] ? formatTimestamp(entries[i].start) : ''} &rarr;
+                  </span>
+                  <span style={{ color: 'var(--text-primary)' }}>{formatTimestamp(entry.start)}</span>
+                  <span style={{ color: 'var(--text-secondary)', overflow: 'hidden', textOverflow: 'ellipsis' }}>{stripMarkup(entry.text).replace(/\s*\n\s*/g, ' ')}</span>
+                </div>
+              ))}
+              {retimed.length !== entries.length && (
+                <div style={{ color: 'var(--warning-color)', marginTop: '4px' }}>
+                  {entries.length - retimed.length} cue(s) fall before 00:00:00 and will be removed
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div style={{
+          padding: '12px 20px',
+          borderTop: '1px solid var(--border-color)',
+          display: 'flex',
+          justifyContent: 'flex-end',
+          gap: '8px',
+          flexShrink: 0,
+        }}>
+          <button
+            onClick={handleSave}
+            disabled={!!error || retimed.length === 0}
+            style={{
+              padding: '8px 16px',
+              fontSize: '13px',
+              fontWeight: '600',
+              background: 'var(--primary-color)',
+              color: 'var(--button-text)',
+              border: 'none',
+              borderRadius: '6px',
+              cursor: error ? 'not-allowed' : 'pointer',
+              opacity: error ? 0.6 : 1,
+              display: 'flex',
+              alignItems: 'center',
+              gap: '6px',
+            }}
+          >
+            <i className="fas fa-save"></i> Save retimed
+          </button>
+          <button
+            onClick={onClose}
+            style={{
+              padding: '8px 16px',
+              fontSize: '13px',
+              fontWeight: '500',
+              background: 'var(--bg-tertiary)',
+              color: 'var(--text-primary)',
+              border: '1px solid var(--border-color)',
+              borderRadius: '6px',
+              cursor: 'pointer',
+            }}
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+}
+
+export default SubtitleRetimeModal;
@@ -0,0 +1,124 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { WaveformEnvelope, resampleEnvelope } from '../utils/waveform';
+import { SubtitleEntry } from '../utils/subtitleParser';
+
+interface WaveformProps {
+  envelope: WaveformEnvelope;
+  /** Seconds of audio the view spans */
+  duration: number;
+  /** Drawn as shaded spans with edge lines over the audio */
+  cues?: SubtitleEntry[];
+  /** Highlighted part, in seconds; to the end without `end` */
+  selection?: { start: number; end?: number } | null;
+  /** Shown under the cue overlay instead of the peaks */
+  spectrogramUrl?: string | null;
+  height?: number;
+  /** Clicked position in seconds */
+  onPick?: (seconds: number, shiftKey: boolean) => void;
+}
+
+const cssColor = (element: HTMLElement, name: string, fallback: string) =>
+  getComputedStyle(element).getPropertyValue(name).trim() || fallback;
+
+/**
+ * Audio waveform with optional subtitle cue boundaries and a selected range
+ */
+function Waveform({ envelope, duration, cues, selection, spectrogramUrl, height = 80, onPick }: WaveformProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [width, setWidth] = useState(0);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    setWidth(container.clientWidth);
+    if (typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(entries => setWidth(Math.floor(entries[0].contentRect.width)));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || width <= 0 || duration <= 0) return;
+
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = width * ratio;
+    canvas.height = height * ratio;
+    context.setTransform(ratio, 0, 0, ratio, 0, 0);
+    context.clearRect(0, 0, width, height);
+
+    const toX = (seconds: number) => (seconds / duration) * width;
+    const accent = cssColor(canvas, '--primary-color', '#007bff');
+
+    if (!spectrogramUrl) {
+      const peaks = resampleEnvelope(envelope, width, 0, duration);
+      const middle = height / 2;
+      context.fillStyle = cssColor(canvas, '--text-secondary', '#6c757d');
+      for (let x = 0; x < peaks.length; x++) {
+        const half = Math.max(0.5, peaks[x] * middle);
+        context.fillRect(x, middle - half, 1, half * 2);
+      }
+    }
+
+    if (selection) {
+      // Dim what lies outside, which reads the same over peaks and spectrogram
+      const start = toX(selection.start);
+      const end = toX(selection.end ?? duration);
+      context.fillStyle = 'rgba(0, 0, 0, 0.25)';
+      context.fillRect(0, 0, start, height);
+      context.fillRect(end, 0, width - end, height);
+    }
+
+    if (cues?.length) {
+      context.globalAlpha = 0.2;
+      context.fillStyle = accent;
+      for (const cue of cues) {
+        context.fillRect(toX(cue.start / 1000), 0, Math.max(1, toX((cue.end - cue.start) / 1000)), height);
+      }
+      context.globalAlpha = 1;
+      context.fillStyle = accent;
+      for (const cue of cues) {
+        context.fillRect(Math.round(toX(cue.start / 1000)), 0, 1, height);
+        context.fillRect(Math.round(toX(cue.end / 1000)), 0, 1, height);
+      }
+    }
+  }, [envelope, duration, cues, selection, spectrogramUrl, width, height]);
+
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!onPick || width <= 0) return;
+    const x = e.clientX - e.currentTarget.getBoundingClientRect().left;
+    onPick(Math.min(duration, Math.max(0, (x / width) * duration)), e.shiftKey);
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      onClick={handleClick}
+      style={{
+        position: 'relative',
+        height: `${height}px`,
+        border: '1px solid var(--border-color)',
+        borderRadius: '4px',
+        background: 'var(--bg-primary)',
+        overflow: 'hidden',
+        cursor: onPick ? 'crosshair' : 'default',
+      }}
+    >
+      {spectrogramUrl && (
+        <img
+          src={spectrogramUrl}
+          alt="Spectrogram"
+          style={{ position: 'absolute', inset: 0, width: '100%', height: '100%', objectFit: 'fill' }}
+        />
+      )}
+      <canvas
+        ref={canvasRef}
+        style={{ position: 'absolute', inset: 0, width: '100%', height: '100%' }}
+      />
+    </div>
+  );
+}
+
+export default Waveform;
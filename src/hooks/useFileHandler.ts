@@ -1,5 +1,7 @@
 import { useCallback } from 'react';
 import { getAllSupportedExtensions, getFileTypeFromExtension, validateFileExtension, SUPPORTED_FORMATS } from '../config/fileFormats';
+import { detectEncoding, decodeBytes, EncodingDetectionResult } from '../utils/encodingDetector';
+import { prepareTranslationInput } from '../utils/translationRoundTrip';
 
 /**
  * Generates the accept string for <input type="file"> from supported formats
@@ -57,18 +59,58 @@ export function saveBlobFile(blob: Blob, filename: string): void {
   URL.revokeObjectURL(url);
 }
 
-/**
- * Reads a text file from a File object
- */
-export function readTextFile(file: File): Promise<string> {
+function readFileBytes(file: Blob): Promise<Uint8Array> {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
-    reader.onload = () => resolve(reader.result as string);
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
     reader.onerror = () => reject(new Error('Failed to read file'));
-    reader.readAsText(file);
+    reader.readAsArrayBuffer(file);
   });
 }
 
+/**
+ * Reads a text file, detecting its encoding unless one is given.
+ * Returns the text normalized to a JS (UTF-16) string.
+ */
+export async function readTextFileWithEncoding(
+  file: Blob,
+  encoding?: string
+): Promise<{ text: string; detection: EncodingDetectionResult }> {
+  const bytes = await readFileBytes(file);
+  const detection = encoding
+    ? { encoding, confidence: 'high' as const, bom: false }
+    : detectEncoding(bytes);
+  return { text: decodeBytes(bytes, detection.encoding), detection };
+}
+
+/**
+ * Reads a text file from a File object
+ */
+export async function readTextFile(file: Blob, encoding?: string): Promise<string> {
+  return (await readTextFileWithEncoding(file, encoding)).text;
+}
+
+/**
+ * Prepares a subtitle file for the translation API: re-encoded as UTF-8 so
+ * the API never receives legacy code pages, and converted to
+ * SRT when the API doesn't take its format. The decoded original is returned
+ * so the translation can be written back into the same format.
+ */
+export async function toTranslationFile(
+  file: File,
+  encoding?: string
+): Promise<{ file: File; originalText: string }> {
+  const { text, detection } = await readTextFileWithEncoding(file, encoding);
+  const input = prepareTranslationInput(text, file.name);
+  if (input.content === text && detection.encoding === 'utf-8' && !detection.bom) {
+    return { file, originalText: text };
+  }
+  return {
+    file: new File([input.content], input.fileName, { type: 'text/plain', lastModified: file.lastModified }),
+    originalText: text,
+  };
+}
+
 /**
  * Format file size for display
  */
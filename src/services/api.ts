@@ -2,6 +2,7 @@ import CacheManager from './cache';
 import { storageService } from './storageService';
 import { logger } from '../utils/errorLogger';
 import { apiRequestWithRetry, getUserFriendlyErrorMessage } from '../utils/networkUtils';
+import { getUploadFileName } from '../utils/uploadEncoding';
 import appConfig from '../config/appConfig.json';
 
 /** Re-throw auth errors so they propagate to withAuthRetry in APIContext */
@@ -430,7 +431,7 @@ export class OpenSubtitlesAPI {
 
       return await apiRequestWithRetry(async () => {
         const formData = new FormData();
-        formData.append('file', audioFile, (audioFile as File).name || 'audio.mp3');
+        formData.append('file', audioFile, (audioFile as File).name || getUploadFileName(audioFile));
         formData.append('language', options.language);
         formData.append('api', options.api);
         if (options.returnContent) formData.append('return_content', 'true');
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { transcribeInChunks, ChunkTranscriptionApi, ChunkedTranscriptionOptions } from './chunkedTranscription';
+import { ffmpegService } from './ffmpegService';
+
+vi.mock('./ffmpegService', () => ({
+  ffmpegService: {
+    detectSilences: vi.fn(),
+    convertAudioToMp3: vi.fn(),
+  },
+  isAbortError: (error: unknown) => (error as { name?: string } | null)?.name === 'AbortError',
+}));
+
+const srt = (text: string) => `1\n00:00:01,000 --> 00:00:02,000\n${text}\n`;
+const audio = () => new File([new Uint8Array(8)], 'talk.mp3', { type: 'audio/mpeg' });
+
+const options = (overrides: Partial<ChunkedTranscriptionOptions> = {}): ChunkedTranscriptionOptions => ({
+  durationSeconds: 1200,
+  chunkSeconds: 600,
+  transcription: { language: 'en', api: 'whisper' },
+  pollingIntervalMs: 10,
+  pollingTimeoutMs: 1000,
+  ...overrides,
+});
+
+describe('transcribeInChunks', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.mocked(ffmpegService.detectSilences).mockResolvedValue([{ start: 590, end: 592 }]);
+    vi.mocked(ffmpegService.convertAudioToMp3).mockImplementation(async (_file, _progress, range) =>
+      new Blob([String(range?.startSeconds)])
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  it('cuts at pauses and merges the pieces onto the full timeline', async () => {
+    const api: ChunkTranscriptionApi = {
+      initiateTranscription: vi.fn()
+        .mockResolvedValueOnce({ status: 'COMPLETED', data: { return_content: srt('first'), total_price: 2 } })
+        .mockResolvedValueOnce({ status: 'CREATED', correlation_id: 'c2' }),
+      checkTranscriptionStatus: vi.fn().mockResolvedValue({ status: 'COMPLETED', data: { url: 'u2', total_price: 3 } }),
+      downloadFile: vi.fn().mockResolvedValue({ success: true, content: srt('second') }),
+    };
+    const onCredits = vi.fn();
+    const onProgress = vi.fn();
+
+    const pending = transcribeInChunks(audio(), api, options({ onCredits, onProgress }));
+    await vi.runAllTimersAsync();
+    const entries = await pending;
+
+    expect(vi.mocked(ffmpegService.convertAudioToMp3).mock.calls.map(call => call[2])).toEqual([
+      { startSeconds: 0, durationSeconds: 591, signal: undefined },
+      { startSeconds: 591, durationSeconds: 609, signal: undefined },
+    ]);
+    expect(entries).toEqual([
+      { start: 1000, end: 2000, text: 'first' },
+      { start: 592000, end: 593000, text: 'second' },
+    ]);
+    expect(onCredits.mock.calls.map(call => call[0])).toEqual([2, 3]);
+    expect(onProgress).toHaveBeenCalledWith({ chunk: 2, total: 2, stage: 'done', attempt: 1 });
+  });
+
+  it('cuts the pieces from the original file when the audio was encoded from it', async () => {
+    const api: ChunkTranscriptionApi = {
+      initiateTranscription: vi.fn().mockResolvedValue({ status: 'COMPLETED', data: { return_content: srt('line') } }),
+      checkTranscriptionStatus: vi.fn(),
+      downloadFile: vi.fn(),
+    };
+    const video = new File([new Uint8Array(8)], 'film.mkv');
+    const selection = { startSeconds: 300, audioStreamIndex: 2, audioFilters: ['dialog'], sourceChannels: 6 };
+
+    const pending = transcribeInChunks(audio(), api, options({ uploadEncoding: 'opus-24', source: { file: video, selection } }));
+    await vi.runAllTimersAsync();
+    await pending;
+
+    const calls = vi.mocked(ffmpegService.convertAudioToMp3).mock.calls;
+    expect(calls.map(call => call[0])).toEqual([video, video]);
+    expect(calls.map(call => call[2])).toEqual([
+      { ...selection, startSeconds: 300, durationSeconds: 591, uploadEncoding: 'opus-24', signal: undefined },
+      { ...selection, startSeconds: 891, durationSeconds: 609, uploadEncoding: 'opus-24', signal: undefined },
+    ]);
+  });
+
+  it('retries a failed piece on its own', async () => {
+    const api: ChunkTranscriptionApi = {
+      initiateTranscription: vi.fn()
+        .mockResolvedValueOnce({ status: 'COMPLETED', data: { return_content: srt('first') } })
+        .mockResolvedValueOnce({ status: 'ERROR', errors: ['busy'] })
+        .mockResolvedValueOnce({ status: 'COMPLETED', data: { return_content: srt('second') } }),
+      checkTranscriptionStatus: vi.fn(),
+      downloadFile: vi.fn(),
+    };
+
+    const pending = transcribeInChunks(audio(), api, options());
+    await vi.runAllTimersAsync();
+    expect(await pending).toHaveLength(2);
+    expect(api.initiateTranscription).toHaveBeenCalledTimes(3);
+  });
+
+  it('names the chunk that kept failing', async () => {
+    const api: ChunkTranscriptionApi = {
+      initiateTranscription: vi.fn().mockResolvedValue({ status: 'ERROR', errors: ['busy'] }),
+      checkTranscriptionStatus: vi.fn(),
+      downloadFile: vi.fn(),
+    };
+
+    const pending = transcribeInChunks(audio(), api, options({ maxAttempts: 2 }));
+    const assertion = expect(pending).rejects.toThrow('Chunk 1/2 failed: busy');
+    await vi.runAllTimersAsync();
+    await assertion;
+    expect(api.initiateTranscription).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,167 @@
+// Transcribes long recordings piece by piece. Each piece is a separate API
+// task, so none runs into the polling timeout and a failed piece is retried
+// on its own instead of failing the whole recording.
+import { ffmpegService, isAbortError, AudioExtractOptions } from './ffmpegService';
+import { APIResponse, CompletedTaskData, TranscriptionOptions } from './api';
+import { planChunks, mergeChunkEntries, AudioChunk } from '../utils/audioChunking';
+import { parseSubtitleEntries, SubtitleEntry } from '../utils/subtitleParser';
+import { logger } from '../utils/errorLogger';
+
+/** The API calls used, as provided by APIContext */
+export interface ChunkTranscriptionApi {
+  initiateTranscription: (audioFile: File | Blob, options: TranscriptionOptions) => Promise<APIResponse>;
+  checkTranscriptionStatus: (correlationId: string) => Promise<APIResponse<CompletedTaskData>>;
+  downloadFile: (url: string) => Promise<{ success: boolean; content?: string; error?: string }>;
+}
+
+export interface ChunkProgress {
+  /** 1-based */
+  chunk: number;
+  total: number;
+  stage: 'preparing' | 'transcribing' | 'retrying' | 'done';
+  attempt: number;
+}
+
+export interface ChunkedTranscriptionOptions {
+  /** Length of the audio, in seconds */
+  durationSeconds: number;
+  /** Target piece length, in seconds */
+  chunkSeconds: number;
+  transcription: TranscriptionOptions;
+  pollingIntervalMs: number;
+  pollingTimeoutMs: number;
+  /** UPLOAD_ENCODINGS id the pieces are cut into */
+  uploadEncoding?: string;
+  /**
+   * The file `audio` was encoded from, with the track, filters and start it
+   * was taken with. Pieces are cut from it so they go through one lossy
+   * encode only; without it they are cut from `audio`.
+   */
+  source?: { file: File; selection: Pick<AudioExtractOptions, 'startSeconds' | 'audioStreamIndex' | 'audioFilters' | 'sourceChannels'> };
+  /** Tries per piece, including the first */
+  maxAttempts?: number;
+  signal?: AbortSignal;
+  onPlan?: (chunks: AudioChunk[]) => void;
+  onProgress?: (progress: ChunkProgress) => void;
+  onCredits?: (used: number, remaining?: number) => void;
+}
+
+const RETRY_DELAY_MS = 5000;
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Runs one transcription task to completion and returns its subtitle text
+ */
+async function transcribeOnce(
+  audio: Blob,
+  api: ChunkTranscriptionApi,
+  options: ChunkedTranscriptionOptions
+): Promise<string> {
+  const initResult = await api.initiateTranscription(audio, { ...options.transcription, returnContent: true });
+  if (initResult.status === 'ERROR') {
+    throw new Error(initResult.errors?.join(', ') || 'Transcription initiation failed');
+  }
+
+  let result: APIResponse = initResult;
+  if (!(initResult.status === 'COMPLETED' && initResult.data)) {
+    if (!initResult.correlation_id) {
+      throw new Error('No correlation ID received for transcription');
+    }
+    const startTime = Date.now();
+    for (;;) {
+      await wait(options.pollingIntervalMs, options.signal);
+      result = await api.checkTranscriptionStatus(initResult.correlation_id);
+      if (result.status === 'COMPLETED' && result.data) break;
+      if (result.status === 'ERROR') {
+        throw new Error(result.errors?.join(', ') || 'Transcription failed');
+      }
+      if (result.status === 'TIMEOUT' || Date.now() - startTime >= options.pollingTimeoutMs) {
+        throw new Error('Transcription timed out');
+      }
+    }
+  }
+
+  if (typeof result.data.total_price === 'number' && result.data.total_price > 0) {
+    options.onCredits?.(result.data.total_price, result.data.credits_left);
+  }
+
+  let content: string | undefined = result.data.return_content;
+  if (!content && result.data.url) {
+    const download = await api.downloadFile(result.data.url);
+    if (download.success) content = download.content;
+  }
+  if (content === undefined) {
+    throw new Error('Transcription finished without subtitle content');
+  }
+  return content;
+}
+
+/**
+ * Splits the audio at pauses into pieces of about `chunkSeconds`,
+ * transcribes them in order and returns the cues on the full timeline
+ */
+export async function transcribeInChunks(
+  audio: File,
+  api: ChunkTranscriptionApi,
+  options: ChunkedTranscriptionOptions
+): Promise<SubtitleEntry[]> {
+  const { signal, maxAttempts = 3 } = options;
+
+  const silences = await ffmpegService.detectSilences(audio, { signal });
+  const chunks = planChunks(options.durationSeconds, silences, options.chunkSeconds);
+  options.onPlan?.(chunks);
+  logger.info('ChunkedTranscription', `Transcribing ${audio.name} in ${chunks.length} chunk(s)`, chunks);
+
+  const parts: { offsetMs: number; entries: SubtitleEntry[] }[] = [];
+  for (let i = 0; i < chunks.length; i++) {
+    const chunk = chunks[i];
+    const report = (stage: ChunkProgress['stage'], attempt: number) =>
+      options.onProgress?.({ chunk: i + 1, total: chunks.length, stage, attempt });
+
+    report('preparing', 1);
+    const { source } = options;
+    const piece = chunks.length === 1
+      ? audio
+      : await ffmpegService.convertAudioToMp3(source?.file ?? audio, undefined, {
+          ...source?.selection,
+          // Chunk times are relative to `audio`, which starts where the selection does
+          startSeconds: (source?.selection.startSeconds ?? 0) + chunk.start,
+          durationSeconds: chunk.end - chunk.start,
+          uploadEncoding: options.uploadEncoding,
+          signal,
+        });
+
+    for (let attempt = 1; ; attempt++) {
+      signal?.throwIfAborted();
+      report(attempt === 1 ? 'transcribing' : 'retrying', attempt);
+      try {
+        const content = await transcribeOnce(piece, api, options);
+        // The last cue of a piece keeps the file's trailing newline
+        const entries = parseSubtitleEntries(content, 'chunk.srt').map(entry => ({ ...entry, text: entry.text.trim() }));
+        parts.push({ offsetMs: Math.round(chunk.start * 1000), entries });
+        break;
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        if (attempt >= maxAttempts) {
+          throw new Error(`Chunk ${i + 1}/${chunks.length} failed: ${(error as Error).message}`);
+        }
+        logger.warn('ChunkedTranscription', `Chunk ${i + 1}/${chunks.length} failed (attempt ${attempt}/${maxAttempts}), retrying`, error);
+        await wait(RETRY_DELAY_MS * attempt, signal);
+      }
+    }
+    report('done', 1);
+  }
+
+  return mergeChunkEntries(parts);
+}
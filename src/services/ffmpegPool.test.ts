@@ -0,0 +1,73 @@
+import { describe, it, expect, vi } from 'vitest';
+import { FFmpegWorkerPool, getWorkerPoolSize } from './ffmpegPool';
+import { BrowserFFmpegService } from './ffmpegService';
+
+describe('getWorkerPoolSize', () => {
+  it('uses half the cores within the memory budget', () => {
+    expect(getWorkerPoolSize(8, 16)).toBe(4);
+    expect(getWorkerPoolSize(8, 4)).toBe(2);
+    expect(getWorkerPoolSize(4, 8)).toBe(2);
+    expect(getWorkerPoolSize(32, 64)).toBe(4);
+  });
+
+  it('keeps at least one worker', () => {
+    expect(getWorkerPoolSize(1, 1)).toBe(1);
+    expect(getWorkerPoolSize()).toBe(1);
+  });
+});
+
+describe('FFmpegWorkerPool', () => {
+  const deferred = () => {
+    let resolve!: (value: string) => void;
+    const promise = new Promise<string>(r => { resolve = r; });
+    return { promise, resolve };
+  };
+
+  it('spreads concurrent tasks over new workers up to its size', async () => {
+    const primary = new BrowserFFmpegService();
+    const create = vi.fn(() => new BrowserFFmpegService());
+    const pool = new FFmpegWorkerPool(2, primary, create);
+
+    const used: BrowserFFmpegService[] = [];
+    const tasks = [deferred(), deferred(), deferred()];
+    const runs = tasks.map(task => pool.run(service => {
+      used.push(service);
+      return task.promise;
+    }));
+
+    expect(create).toHaveBeenCalledTimes(1);
+    expect(used[0]).toBe(primary);
+    expect(used[1]).not.toBe(primary);
+    // Both busy: the third waits in the least loaded worker's queue
+    expect([primary, used[1]]).toContain(used[2]);
+
+    tasks.forEach((task, i) => task.resolve(`done ${i}`));
+    expect(await Promise.all(runs)).toEqual(['done 0', 'done 1', 'done 2']);
+  });
+
+  it('reuses an idle worker before starting another', async () => {
+    const primary = new BrowserFFmpegService();
+    const create = vi.fn(() => new BrowserFFmpegService());
+    const pool = new FFmpegWorkerPool(3, primary, create);
+
+    await pool.run(async () => 'one');
+    await pool.run(async () => 'two');
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it('terminates only the extra workers on release', async () => {
+    const primary = new BrowserFFmpegService();
+    const extra = new BrowserFFmpegService();
+    const terminate = vi.spyOn(extra, 'terminate');
+    const pool = new FFmpegWorkerPool(2, primary, () => extra);
+
+    const first = deferred();
+    const running = pool.run(() => first.promise);
+    await pool.run(async service => expect(service).toBe(extra));
+
+    pool.release();
+    expect(terminate).toHaveBeenCalled();
+    first.resolve('ok');
+    expect(await running).toBe('ok');
+  });
+});
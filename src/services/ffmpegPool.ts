@@ -0,0 +1,82 @@
+// Several FFmpeg workers side by side, so batch audio preparation isn't
+// limited to one file at a time. Each worker is a separate
+// BrowserFFmpegService with its own WASM instance and job queue.
+import { BrowserFFmpegService, ffmpegService } from './ffmpegService';
+import { logger } from '../utils/errorLogger';
+
+// Beyond this, workers mostly compete for the same cores and disk
+const MAX_POOL_SIZE = 4;
+// Each worker's WASM memory can grow to 2GB while encoding
+const GB_PER_WORKER = 2;
+// navigator.deviceMemory is Chromium-only; elsewhere assume a modest machine
+const ASSUMED_DEVICE_MEMORY_GB = 4;
+
+/**
+ * Number of workers the machine can keep busy: half the logical cores
+ * (ffmpeg and the page need some too) within the memory budget
+ */
+export function getWorkerPoolSize(hardwareConcurrency?: number, deviceMemoryGb?: number): number {
+  const byCpu = Math.floor((hardwareConcurrency || 2) / 2);
+  const byMemory = Math.floor((deviceMemoryGb || ASSUMED_DEVICE_MEMORY_GB) / GB_PER_WORKER);
+  return Math.max(1, Math.min(MAX_POOL_SIZE, byCpu, byMemory));
+}
+
+export class FFmpegWorkerPool {
+  private services: BrowserFFmpegService[];
+  /** Tasks handed to each service and not finished yet */
+  private load: number[];
+
+  /**
+   * @param primary the app-wide service, reused as the first worker so the
+   *   pool doesn't load an extra one for small batches
+   */
+  constructor(
+    readonly size: number,
+    primary: BrowserFFmpegService = ffmpegService,
+    private createService: () => BrowserFFmpegService = () => new BrowserFFmpegService()
+  ) {
+    this.services = [primary];
+    this.load = [0];
+  }
+
+  /**
+   * Runs a task on the least busy worker. Workers are added up to the pool
+   * size as tasks pile up; each one queues what it gets in order.
+   */
+  async run<T>(task: (service: BrowserFFmpegService) => Promise<T>): Promise<T> {
+    let index = this.load.indexOf(Math.min(...this.load));
+    if (this.load[index] > 0 && this.services.length < this.size) {
+      this.services.push(this.createService());
+      this.load.push(0);
+      index = this.services.length - 1;
+      logger.info('FFmpegPool', `Started worker ${index + 1}/${this.size}`);
+    }
+
+    const service = this.services[index];
+    this.load[index]++;
+    try {
+      return await task(service);
+    } finally {
+      // The worker may have been released meanwhile
+      const current = this.services.indexOf(service);
+      if (current >= 0) this.load[current]--;
+    }
+  }
+
+  /**
+   * Stops the extra workers, freeing their memory; the primary one stays
+   */
+  release(): void {
+    this.services.slice(1).forEach(service => service.terminate());
+    this.services = this.services.slice(0, 1);
+    this.load = this.load.slice(0, 1);
+  }
+}
+
+const navigatorInfo = typeof navigator !== 'undefined'
+  ? navigator as Navigator & { deviceMemory?: number }
+  : undefined;
+
+export const ffmpegPool = new FFmpegWorkerPool(
+  getWorkerPoolSize(navigatorInfo?.hardwareConcurrency, navigatorInfo?.deviceMemory)
+);
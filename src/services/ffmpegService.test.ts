@@ -0,0 +1,311 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { BrowserFFmpegService, isAbortError } from './ffmpegService';
+
+// Stands in for the ffmpeg worker: loads instantly, answers commands only
+// when told to. Answers go to the latest command unless a job ID is given.
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+  /** Load error the next workers answer with instead of loading */
+  static loadError: string | null = null;
+  listeners: { type: string; listener: (e: any) => void }[] = [];
+  commands: any[] = [];
+  cancelled: number[] = [];
+  terminated = false;
+
+  constructor() {
+    FakeWorker.instances.push(this);
+  }
+
+  addEventListener(type: string, listener: (e: any) => void) {
+    this.listeners.push({ type, listener });
+  }
+
+  removeEventListener(type: string, listener: (e: any) => void) {
+    this.listeners = this.listeners.filter(l => l.type !== type || l.listener !== listener);
+  }
+
+  dispatch(type: string, event: Record<string, unknown>) {
+    this.listeners.filter(l => l.type === type).forEach(l => l.listener({ type, ...event }));
+  }
+
+  postMessage(message: any) {
+    if (message.cmd === 'load') {
+      const error = FakeWorker.loadError;
+      queueMicrotask(() => this.emit(error ? { type: 'error', error, jobId: undefined } : { type: 'loaded', jobId: undefined }));
+    } else if (message.cmd === 'cancel') {
+      this.cancelled.push(message.jobId);
+    } else {
+      this.commands.push(message);
+    }
+  }
+
+  emit(data: Record<string, unknown>) {
+    this.dispatch('message', { data: { jobId: this.commands[this.commands.length - 1]?.jobId, ...data } });
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+}
+
+const video = () => new File([new Uint8Array(16)], 'clip.mp4', { type: 'video/mp4' });
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('BrowserFFmpegService', () => {
+  beforeEach(() => {
+    FakeWorker.instances = [];
+    FakeWorker.loadError = null;
+    vi.stubGlobal('Worker', FakeWorker);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('resolves with the worker result', async () => {
+    const service = new BrowserFFmpegService();
+    const onProgress = vi.fn();
+    const file = video();
+    const pending = service.extractAudioFromVideo(file, onProgress);
+    await flush();
+
+    const worker = FakeWorker.instances[0];
+    expect(worker.commands[0].cmd).toBe('encodeAudio');
+    // Posted as-is for the worker to mount, not read into memory
+    expect(worker.commands[0].file).toBe(file);
+    worker.emit({ type: 'progress', progress: 50 });
+    worker.emit({ type: 'result', data: new Uint8Array([1, 2, 3]) });
+
+    const blob = await pending;
+    expect(blob.size).toBe(3);
+    expect(onProgress).toHaveBeenCalledWith(50);
+  });
+
+  it('passes the range and audio track to the worker', async () => {
+    const service = new BrowserFFmpegService();
+    service.extractAudioFromVideo(video(), undefined, { startSeconds: 180, durationSeconds: 600, audioStreamIndex: 2 });
+    await flush();
+
+    expect(FakeWorker.instances[0].commands[0]).toMatchObject({ startSeconds: 180, durationSeconds: 600, audioStreamIndex: 2 });
+    expect(FakeWorker.instances[0].commands[0]).not.toHaveProperty('signal');
+  });
+
+  it('decodes PCM from the chosen audio track', async () => {
+    const service = new BrowserFFmpegService();
+    service.extractPcmAudio(video(), { sampleRate: 8000, audioStreamIndex: 3 });
+    await flush();
+
+    expect(FakeWorker.instances[0].commands[0]).toMatchObject({ cmd: 'extractPcm', sampleRate: 8000, audioStreamIndex: 3 });
+  });
+
+  it('names and types the output after the upload encoding', async () => {
+    const service = new BrowserFFmpegService();
+    const pending = service.convertAudioToMp3(video(), undefined, { uploadEncoding: 'opus-24' });
+    await flush();
+
+    const worker = FakeWorker.instances[0];
+    expect(worker.commands[0]).toMatchObject({ cmd: 'encodeAudio', outputName: 'converted_audio.ogg', uploadEncoding: 'opus-24' });
+    worker.emit({ type: 'result', data: new Uint8Array([1]) });
+    expect((await pending).type).toBe('audio/ogg');
+  });
+
+  it('terminates the worker on abort and loads a fresh one', async () => {
+    const service = new BrowserFFmpegService();
+    const controller = new AbortController();
+    const pending = service.convertAudioToMp3(video(), undefined, { signal: controller.signal });
+    await flush();
+
+    FakeWorker.instances[0].emit({ type: 'started' });
+    controller.abort();
+    const error = await pending.catch(e => e);
+    expect(isAbortError(error)).toBe(true);
+    expect(FakeWorker.instances[0].terminated).toBe(true);
+
+    await flush();
+    expect(FakeWorker.instances).toHaveLength(2);
+    expect(service.isReady()).toBe(true);
+
+    const next = service.convertAudioToMp3(video());
+    await flush();
+    FakeWorker.instances[1].emit({ type: 'result', data: new Uint8Array([9]) });
+    expect((await next).size).toBe(1);
+  });
+
+  it('rejects without posting when already aborted', async () => {
+    const service = new BrowserFFmpegService();
+    const controller = new AbortController();
+    controller.abort();
+
+    const error = await service.extractAudioFromVideo(video(), undefined, { signal: controller.signal }).catch(e => e);
+    expect(isAbortError(error)).toBe(true);
+    expect(FakeWorker.instances[0].commands).toHaveLength(0);
+  });
+
+  it('only warns about very large inputs', () => {
+    const service = new BrowserFFmpegService();
+    const huge = video();
+    Object.defineProperty(huge, 'size', { value: 20 * 1024 ** 3 });
+    expect(service.checkFileSize(huge)).toEqual({ ok: true, warning: expect.stringContaining('20.00 GB') });
+    expect(service.checkFileSize(video())).toEqual({ ok: true });
+  });
+
+  it('refuses to remux videos whose output would not fit in memory', async () => {
+    const service = new BrowserFFmpegService();
+    const huge = video();
+    Object.defineProperty(huge, 'size', { value: 3 * 1024 ** 3 });
+    await expect(service.muxSubtitles(huge, [{ content: '', fileName: 'a.srt' }], 'mkv')).rejects.toThrow('too large');
+  });
+
+  it('routes answers and progress to the job they belong to', async () => {
+    const service = new BrowserFFmpegService();
+    const extractProgress = vi.fn();
+    const extraction = service.extractAudioFromVideo(video(), extractProgress);
+    const info = service.getMediaInfo(video());
+    await flush();
+
+    const worker = FakeWorker.instances[0];
+    const [extractJob, infoJob] = worker.commands.map(command => command.jobId);
+    expect(extractJob).not.toBe(infoJob);
+
+    worker.emit({ jobId: infoJob, type: 'progress', progress: 99 });
+    worker.emit({ jobId: extractJob, type: 'progress', progress: 40 });
+    worker.emit({ jobId: infoJob, type: 'mediaInfo', data: { hasAudio: true, hasVideo: true, audioStreams: [], streams: [], tags: {}, chapters: [] } });
+    worker.emit({ jobId: extractJob, type: 'result', data: new Uint8Array([1, 2]) });
+
+    expect((await info).hasVideo).toBe(true);
+    expect((await extraction).size).toBe(2);
+    expect(extractProgress.mock.calls).toEqual([[40]]);
+  });
+
+  it('lists subtitle streams from the earlier probe of the file', async () => {
+    const service = new BrowserFFmpegService();
+    const file = video();
+    const info = service.getMediaInfo(file);
+    await flush();
+
+    const worker = FakeWorker.instances[0];
+    const subtitle = { index: 2, kind: 'subtitle', codec: 'subrip', language: 'eng', isDefault: true, isForced: false, tags: {} };
+    worker.emit({ type: 'mediaInfo', data: { hasAudio: true, hasVideo: true, audioStreams: [], streams: [subtitle], tags: {}, chapters: [] } });
+    await info;
+
+    expect(await service.listSubtitleStreams(file)).toEqual([
+      { index: 2, codec: 'subrip', language: 'eng', title: undefined, isText: true, isDefault: true, isForced: false },
+    ]);
+    expect(worker.commands).toHaveLength(1);
+  });
+
+  it('completes header-probed info with the tags, chapters and stream details FFmpeg reads', async () => {
+    const service = new BrowserFFmpegService();
+    const audio = { index: 1, kind: 'audio' as const, codec: 'aac', isDefault: true, isForced: false, tags: {} };
+    const probed = {
+      duration: 61.25, hasAudio: true, hasVideo: true, format: 'mp4', audioStreams: [], tags: {}, chapters: [],
+      streams: [audio], probedBy: 'container' as const,
+    };
+    const pending = service.completeMediaInfo(video(), probed);
+    await flush();
+
+    const chapters = [{ start: 0, end: 30, title: 'Opening' }];
+    FakeWorker.instances[0].emit({
+      type: 'mediaInfo',
+      data: {
+        duration: 61.2, hasAudio: true, hasVideo: true, bitrate: 900, audioStreams: [{ index: 1, codec: 'aac', channels: 6 }],
+        streams: [{ ...audio, title: 'Surround', channelLayout: '5.1' }], tags: { title: 'Clip' }, chapters,
+      },
+    });
+
+    expect(await pending).toMatchObject({
+      duration: 61.25, bitrate: 900, tags: { title: 'Clip' }, chapters, probedBy: 'ffmpeg',
+      streams: [{ title: 'Surround', channelLayout: '5.1' }], audioStreams: [{ channels: 6 }],
+    });
+  });
+
+  it('leaves info FFmpeg produced alone', async () => {
+    const service = new BrowserFFmpegService();
+    const info = { hasAudio: true, hasVideo: false, audioStreams: [], streams: [], tags: {}, chapters: [], probedBy: 'ffmpeg' as const };
+    expect(await service.completeMediaInfo(video(), info)).toBe(info);
+    expect(FakeWorker.instances).toHaveLength(0);
+  });
+
+  it('drops a queued job on abort without restarting the worker', async () => {
+    const service = new BrowserFFmpegService();
+    const running = service.extractAudioFromVideo(video());
+    const controller = new AbortController();
+    const queued = service.getMediaInfo(video(), controller.signal);
+    await flush();
+
+    const worker = FakeWorker.instances[0];
+    const [runningJob, queuedJob] = worker.commands.map(command => command.jobId);
+    worker.emit({ jobId: runningJob, type: 'started' });
+    controller.abort();
+
+    expect(isAbortError(await queued.catch(e => e))).toBe(true);
+    expect(worker.cancelled).toEqual([queuedJob]);
+    expect(worker.terminated).toBe(false);
+
+    worker.emit({ jobId: runningJob, type: 'result', data: new Uint8Array([7]) });
+    expect((await running).size).toBe(1);
+  });
+
+  it('sends waiting jobs to the new worker when the running one is aborted', async () => {
+    const service = new BrowserFFmpegService();
+    const controller = new AbortController();
+    const running = service.extractAudioFromVideo(video(), undefined, { signal: controller.signal });
+    const waiting = service.getMediaInfo(video());
+    await flush();
+
+    const first = FakeWorker.instances[0];
+    first.emit({ jobId: first.commands[0].jobId, type: 'started' });
+    controller.abort();
+    expect(isAbortError(await running.catch(e => e))).toBe(true);
+    expect(first.terminated).toBe(true);
+
+    await flush();
+    const second = FakeWorker.instances[1];
+    expect(second.commands).toHaveLength(1);
+    expect(second.commands[0]).toMatchObject({ cmd: 'getMediaInfo', jobId: first.commands[1].jobId });
+    second.emit({ type: 'mediaInfo', data: { hasAudio: true, hasVideo: true, audioStreams: [], streams: [], tags: {}, chapters: [] } });
+    expect((await waiting).hasVideo).toBe(true);
+  });
+
+  it('rejects commands when FFmpeg fails to load and retries on the next call', async () => {
+    const service = new BrowserFFmpegService();
+    FakeWorker.loadError = 'core not found';
+    await expect(service.extractAudioFromVideo(video())).rejects.toThrow('could not be loaded');
+    expect(FakeWorker.instances[0].terminated).toBe(true);
+    expect(FakeWorker.instances[0].commands).toHaveLength(0);
+
+    FakeWorker.loadError = null;
+    const pending = service.extractAudioFromVideo(video());
+    await flush();
+    expect(FakeWorker.instances).toHaveLength(2);
+    FakeWorker.instances[1].emit({ type: 'result', data: new Uint8Array([1]) });
+    expect((await pending).size).toBe(1);
+  });
+
+  it('fails every pending job and loads a fresh worker when the worker crashes', async () => {
+    const service = new BrowserFFmpegService();
+    const running = service.extractAudioFromVideo(video());
+    const waiting = service.getMediaInfo(video());
+    await flush();
+
+    const first = FakeWorker.instances[0];
+    first.emit({ jobId: first.commands[0].jobId, type: 'started' });
+    first.dispatch('error', { message: 'out of memory' });
+    await expect(running).rejects.toThrow('out of memory');
+    await expect(waiting).rejects.toThrow('out of memory');
+    expect(first.terminated).toBe(true);
+
+    await flush();
+    expect(FakeWorker.instances).toHaveLength(2);
+    expect(service.isReady()).toBe(true);
+  });
+
+  it('fails other running commands when the worker is terminated', async () => {
+    const service = new BrowserFFmpegService();
+    const pending = service.extractAudioFromVideo(video());
+    await flush();
+
+    service.terminate();
+    await expect(pending).rejects.toThrow('terminated');
+  });
+});
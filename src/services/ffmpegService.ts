@@ -1,26 +1,142 @@
 import { logger } from '../utils/errorLogger';
+import { SubtitleStreamInfo, AudioStreamInfo, MediaStreamDetails, MediaChapter, getSubtitleExtractFormat, toSubtitleStreams, MuxContainer, MuxSubtitleTrack } from '../utils/mediaStreams';
+import { detectSubtitleFormat } from '../utils/subtitleParser';
+import { convertSubtitle } from '../utils/subtitleConverter';
+import { getCoreSources } from '../utils/ffmpegCore';
+import { SilenceInterval } from '../utils/audioChunking';
+import { WaveformEnvelope, ENVELOPE_POINTS_PER_SECOND } from '../utils/waveform';
+import { probeContainer, toStreamDetails, toAudioStreams } from '../utils/containerProbe';
+import { getUploadEncoding } from '../utils/uploadEncoding';
 
 export interface MediaInfo {
   duration?: number;
   hasAudio: boolean;
   hasVideo: boolean;
   format?: string;
+  /** Overall kb/s */
+  bitrate?: number;
+  /** Every audio track, in stream order */
+  audioStreams: AudioStreamInfo[];
+  /** Every stream of any kind, in stream order */
+  streams: MediaStreamDetails[];
+  /** Container metadata such as title or encoder */
+  tags: Record<string, string>;
+  chapters: MediaChapter[];
+  /** 'container' when read from the headers without FFmpeg, which gives no tags or chapters */
+  probedBy: 'container' | 'ffmpeg';
 }
 
-// Max file size we'll attempt to process in WASM (500MB)
-const WASM_FILE_SIZE_WARNING = 500 * 1024 * 1024;
-// Hard limit: 2GB (WASM linear memory max)
-const WASM_FILE_SIZE_LIMIT = 2 * 1024 * 1024 * 1024;
+// Inputs are streamed from disk (WORKERFS), so size only affects how long
+// processing takes; above this we warn
+const LARGE_FILE_WARNING = 2 * 1024 * 1024 * 1024;
+// Outputs still live in WASM memory, whose maximum is 2GB. Only muxing
+// produces outputs anywhere near input size.
+const WASM_OUTPUT_SIZE_LIMIT = 2 * 1024 * 1024 * 1024;
+
+/**
+ * Error for cancelled calls; named AbortError like fetch's so callers can
+ * tell a user cancel from a failure
+ */
+const abortError = () => new DOMException('FFmpeg operation cancelled', 'AbortError');
+
+export const isAbortError = (error: unknown): boolean =>
+  (error as { name?: string } | null)?.name === 'AbortError';
+
+export interface AudioExtractOptions {
+  /** Where to start, in seconds; `-ss` before the input so ffmpeg seeks */
+  startSeconds?: number;
+  /** How much to take, in seconds; to the end when omitted */
+  durationSeconds?: number;
+  /** Stream to take instead of ffmpeg's own pick */
+  audioStreamIndex?: number;
+  /** AUDIO_FILTER_PRESETS ids to clean the audio up with */
+  audioFilters?: string[];
+  /** Channels of the track being extracted, for the dialog preset */
+  sourceChannels?: number;
+  /** UPLOAD_ENCODINGS id to encode the result with; MP3 128 kb/s when unset */
+  uploadEncoding?: string;
+  signal?: AbortSignal;
+}
+
+const describeExtractOptions = ({ startSeconds, durationSeconds, audioStreamIndex, audioFilters, uploadEncoding }: AudioExtractOptions): string => {
+  const parts: string[] = [];
+  if (uploadEncoding) parts.push(getUploadEncoding(uploadEncoding).label);
+  if (audioStreamIndex !== undefined) parts.push(`track ${audioStreamIndex}`);
+  if (startSeconds) parts.push(`from ${startSeconds}s`);
+  if (durationSeconds) parts.push(`${durationSeconds}s`);
+  if (audioFilters?.length) parts.push(`filters: ${audioFilters.join('+')}`);
+  return parts.length ? ` [${parts.join(', ')}]` : '';
+};
+
+interface CommandOptions<T> {
+  /** Message type that carries the answer */
+  resultType?: string;
+  onProgress?: (percent: number) => void;
+  signal?: AbortSignal;
+  parse: (data: any) => T;
+}
+
+/** A command posted to the worker, waiting for its answer */
+interface Job {
+  message: Record<string, unknown>;
+  transfer: Transferable[];
+  /** The worker has begun running it; before that it only sits in its queue */
+  started: boolean;
+  settled: boolean;
+  onMessage: (data: any) => void;
+  fail: (error: Error) => void;
+}
+
+// Log lines kept per job to explain a failure
+const FAILURE_LOG_LINES = 8;
 
 export class BrowserFFmpegService {
   private worker: Worker | null = null;
   private isLoaded = false;
   private loadPromise: Promise<void> | null = null;
+  private nextJobId = 0;
+  /** In-flight commands by job ID, failed together if the worker goes away */
+  private jobs = new Map<number, Job>();
+  /** Latest probe of each file, so later stream lookups don't read it again */
+  private mediaInfoCache = new WeakMap<File, MediaInfo>();
+
+  /**
+   * Hands each worker message to the job it belongs to. Messages without a
+   * job ID (loading) are left to the initialize handler.
+   */
+  private routeMessage = (e: MessageEvent) => {
+    const job = this.jobs.get(e.data.jobId);
+    if (!job) return;
+    if (e.data.type === 'started') {
+      job.started = true;
+    } else {
+      job.onMessage(e.data);
+    }
+  };
+
+  /**
+   * An uncaught error in the worker, or a message it couldn't read, leaves
+   * it in an unknown state: every pending job fails and a fresh worker is
+   * loaded. Errors while loading are left to the initialize handler.
+   */
+  private handleWorkerError = (e: Event) => {
+    if (!this.isLoaded) return;
+    const reason = e.type === 'messageerror' ? 'a message could not be read' : (e as ErrorEvent).message || 'uncaught error';
+    logger.error('FFmpeg', `FFmpeg worker failed, restarting it: ${reason}`);
+    const error = new Error(`FFmpeg worker failed: ${reason}`);
+    [...this.jobs.values()].forEach(job => job.fail(error));
+    this.terminate();
+    this.initialize();
+  };
 
   async initialize(): Promise<boolean> {
     if (this.isLoaded) return true;
     if (this.loadPromise) {
-      await this.loadPromise;
+      try {
+        await this.loadPromise;
+      } catch {
+        // Logged by the call that started the load
+      }
       return this.isLoaded;
     }
 
@@ -30,27 +146,54 @@ export class BrowserFFmpegService {
         { type: 'module' }
       );
 
+      this.worker.addEventListener('message', this.routeMessage);
+      this.worker.addEventListener('error', this.handleWorkerError);
+      this.worker.addEventListener('messageerror', this.handleWorkerError);
+
+      const removeHandlers = () => {
+        this.worker!.removeEventListener('message', handler);
+        this.worker!.removeEventListener('error', crashHandler);
+      };
+      const fail = (error: string) => {
+        removeHandlers();
+        logger.error('FFmpeg', 'FFmpeg WASM failed to load', error);
+        reject(new Error(error));
+      };
       const handler = (e: MessageEvent) => {
-        if (e.data.type === 'loaded') {
+        if (e.data.type === 'coreFallback') {
+          logger.warn('FFmpeg', `FFmpeg core source failed, trying the next one: ${e.data.message}`);
+        } else if (e.data.type === 'loaded') {
           this.isLoaded = true;
-          this.worker!.removeEventListener('message', handler);
-          logger.info('FFmpeg', 'FFmpeg WASM loaded successfully');
+          removeHandlers();
+          logger.info('FFmpeg', `FFmpeg WASM loaded successfully from ${e.data.source}${e.data.multiThread ? ' (multi-threaded)' : ''}`);
           resolve();
         } else if (e.data.type === 'error') {
-          this.worker!.removeEventListener('message', handler);
-          logger.error('FFmpeg', 'FFmpeg WASM failed to load', e.data.error);
-          reject(new Error(e.data.error));
+          fail(e.data.error);
         }
       };
+      // The worker script itself failed, e.g. it couldn't be fetched
+      const crashHandler = (e: Event) => fail((e as ErrorEvent).message || 'FFmpeg worker failed to start');
+
+      // Multi-threading needs SharedArrayBuffer, which only isolated pages get
+      const sources = getCoreSources({
+        multiThread: globalThis.crossOriginIsolated === true,
+        baseURI: document.baseURI,
+        overrideURL: import.meta.env.VITE_FFMPEG_CORE_URL,
+      });
 
       this.worker.addEventListener('message', handler);
-      this.worker.postMessage({ cmd: 'load' });
+      this.worker.addEventListener('error', crashHandler);
+      this.worker.postMessage({ cmd: 'load', sources });
     });
 
     try {
       await this.loadPromise;
       return true;
     } catch {
+      // Drop the failed worker so the next call starts a fresh load
+      this.worker?.removeEventListener('message', this.routeMessage);
+      this.worker?.terminate();
+      this.worker = null;
       this.loadPromise = null;
       return false;
     }
@@ -61,148 +204,278 @@ export class BrowserFFmpegService {
   }
 
   /**
-   * Check if a file size is within WASM processing limits
+   * Posts a command and settles with its answer. Each command gets a job ID
+   * that the worker puts on everything it sends back, so concurrent callers
+   * only see their own progress and results; the worker runs jobs in order.
+   *
+   * Aborting a job that is still queued just drops it. Aborting the running
+   * one terminates the worker: ffmpeg.wasm can't interrupt a running exec,
+   * and dropping the worker frees its virtual FS. A fresh worker is loaded
+   * right away and the jobs that were waiting are sent to it.
    */
-  checkFileSize(file: File): { ok: boolean; warning?: string; error?: string } {
-    if (file.size > WASM_FILE_SIZE_LIMIT) {
-      return {
-        ok: false,
-        error: `File is too large for browser processing (${formatFileSize(file.size)}). Maximum is 2GB. Please use the desktop app or extract audio externally.`
-      };
-    }
-    if (file.size > WASM_FILE_SIZE_WARNING) {
-      return {
-        ok: true,
-        warning: `Large file (${formatFileSize(file.size)}). Processing may take a while and use significant memory.`
-      };
+  private async runCommand<T>(message: Record<string, unknown>, transfer: Transferable[], options: CommandOptions<T>): Promise<T> {
+    const { resultType = 'result', onProgress, signal, parse } = options;
+    if (!(await this.initialize())) {
+      throw new Error('FFmpeg could not be loaded');
     }
-    return { ok: true };
-  }
 
-  async extractAudioFromVideo(
-    file: File,
-    onProgress?: (percent: number) => void,
-    durationSeconds?: number
-  ): Promise<Blob> {
-    await this.initialize();
-
-    const sizeCheck = this.checkFileSize(file);
-    if (!sizeCheck.ok) throw new Error(sizeCheck.error);
-
-    logger.info('FFmpeg', `Extracting audio from: ${file.name} (${formatFileSize(file.size)})`);
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(abortError());
+        return;
+      }
+      const worker = this.worker;
+      if (!worker) {
+        reject(new Error('FFmpeg is not loaded'));
+        return;
+      }
 
-    const fileData = new Uint8Array(await file.arrayBuffer());
-    const inputName = file.name;
-    const outputName = file.name.replace(/\.[^.]+$/, '') + '_converted.mp3';
+      const jobId = ++this.nextJobId;
+      const logTail: string[] = [];
 
-    return new Promise((resolve, reject) => {
-      const handler = (e: MessageEvent) => {
-        switch (e.data.type) {
+      const cleanup = () => {
+        job.settled = true;
+        signal?.removeEventListener('abort', onAbort);
+        this.jobs.delete(jobId);
+      };
+      const fail = (error: Error) => {
+        if (job.settled) return;
+        cleanup();
+        reject(error);
+      };
+      const onAbort = () => {
+        const started = job.started;
+        fail(abortError());
+        if (!started) {
+          this.worker?.postMessage({ cmd: 'cancel', jobId });
+          logger.info('FFmpeg', `${message.cmd} cancelled before it started`);
+          return;
+        }
+        logger.info('FFmpeg', `${message.cmd} cancelled, restarting worker`);
+        this.restartWorker();
+      };
+      const onMessage = (data: any) => {
+        switch (data.type) {
           case 'progress':
-            if (onProgress) onProgress(e.data.progress);
+            if (onProgress) onProgress(data.progress);
             break;
-          case 'result':
-            this.worker!.removeEventListener('message', handler);
-            logger.info('FFmpeg', `Audio extraction complete: ${formatFileSize(e.data.data.byteLength)}`);
-            resolve(new Blob([e.data.data], { type: 'audio/mpeg' }));
+          case 'log':
+            logTail.push(data.message);
+            if (logTail.length > FAILURE_LOG_LINES) logTail.shift();
+            break;
+          case resultType:
+            cleanup();
+            try {
+              resolve(parse(data.data));
+            } catch (error) {
+              reject(error);
+            }
             break;
           case 'error':
-            this.worker!.removeEventListener('message', handler);
-            reject(new Error(e.data.error));
+            logger.warn('FFmpeg', `${message.cmd} failed: ${data.error}`, logTail.join('\n'));
+            fail(new Error(data.error));
             break;
         }
       };
 
-      this.worker!.addEventListener('message', handler);
-      this.worker!.postMessage(
-        { cmd: 'extractAudio', fileData, inputName, outputName, durationSeconds },
-        [fileData.buffer] // Transfer, not copy
-      );
+      const job: Job = { message: { ...message, jobId }, transfer, started: false, settled: false, onMessage, fail };
+      this.jobs.set(jobId, job);
+      signal?.addEventListener('abort', onAbort);
+      worker.postMessage(job.message, transfer);
     });
   }
 
-  async convertAudioToMp3(
-    file: File,
-    onProgress?: (percent: number) => void
-  ): Promise<Blob> {
-    await this.initialize();
+  /**
+   * Replaces the worker after a running job was abandoned. Jobs still
+   * waiting in its queue are posted again to the new one, except those
+   * whose buffers were transferred away with the first post.
+   */
+  private restartWorker() {
+    const waiting = [...this.jobs].filter(([, job]) => !job.started && job.transfer.length === 0);
+    waiting.forEach(([jobId]) => this.jobs.delete(jobId));
+    this.terminate();
+
+    this.initialize().then(loaded => {
+      for (const [jobId, job] of waiting) {
+        // Aborted while the worker was reloading
+        if (job.settled) continue;
+        if (!loaded || !this.worker) {
+          job.fail(new Error('FFmpeg could not be restarted'));
+          continue;
+        }
+        this.jobs.set(jobId, job);
+        this.worker.postMessage(job.message);
+      }
+    });
+  }
 
-    const sizeCheck = this.checkFileSize(file);
-    if (!sizeCheck.ok) throw new Error(sizeCheck.error);
+  /**
+   * Check if a file size is within WASM processing limits. Inputs are read
+   * from disk on demand, so large files only get a warning.
+   */
+  checkFileSize(file: File): { ok: boolean; warning?: string; error?: string } {
+    if (file.size > LARGE_FILE_WARNING) {
+      return {
+        ok: true,
+        warning: `Large file (${formatFileSize(file.size)}). Reading it in the browser may take a while.`
+      };
+    }
+    return { ok: true };
+  }
 
-    logger.info('FFmpeg', `Converting audio: ${file.name} (${formatFileSize(file.size)})`);
+  async extractAudioFromVideo(
+    file: File,
+    onProgress?: (percent: number) => void,
+    options: AudioExtractOptions = {}
+  ): Promise<Blob> {
+    const { signal, ...range } = options;
+    logger.info('FFmpeg', `Extracting audio from: ${file.name} (${formatFileSize(file.size)})${describeExtractOptions(options)}`);
 
-    const fileData = new Uint8Array(await file.arrayBuffer());
     const inputName = file.name;
-    const outputName = file.name.replace(/\.[^.]+$/, '') + '_converted.mp3';
+    const encoding = getUploadEncoding(options.uploadEncoding);
+    const outputName = `extracted_audio.${encoding.extension}`;
+
+    // The File itself is posted: the worker mounts it instead of copying it
+    return this.runCommand(
+      { cmd: 'encodeAudio', file, inputName, outputName, ...range },
+      [],
+      {
+        onProgress,
+        signal,
+        parse: (data) => {
+          logger.info('FFmpeg', `Audio extraction complete: ${formatFileSize(data.byteLength)}`);
+          return new Blob([data], { type: encoding.mimeType });
+        },
+      }
+    );
+  }
 
-    return new Promise((resolve, reject) => {
-      const handler = (e: MessageEvent) => {
-        switch (e.data.type) {
-          case 'progress':
-            if (onProgress) onProgress(e.data.progress);
-            break;
-          case 'result':
-            this.worker!.removeEventListener('message', handler);
-            resolve(new Blob([e.data.data], { type: 'audio/mpeg' }));
-            break;
-          case 'error':
-            this.worker!.removeEventListener('message', handler);
-            reject(new Error(e.data.error));
-            break;
-        }
-      };
+  /**
+   * Re-encodes audio for upload; MP3 unless `uploadEncoding` picks another
+   */
+  async convertAudioToMp3(
+    file: File,
+    onProgress?: (percent: number) => void,
+    options: AudioExtractOptions = {}
+  ): Promise<Blob> {
+    const { signal, ...range } = options;
+    logger.info('FFmpeg', `Converting audio: ${file.name} (${formatFileSize(file.size)})${describeExtractOptions(options)}`);
 
-      this.worker!.addEventListener('message', handler);
-      this.worker!.postMessage(
-        { cmd: 'convertAudio', fileData, inputName, outputName },
-        [fileData.buffer]
-      );
-    });
+    const inputName = file.name;
+    const encoding = getUploadEncoding(options.uploadEncoding);
+    const outputName = `converted_audio.${encoding.extension}`;
+
+    return this.runCommand(
+      { cmd: 'encodeAudio', file, inputName, outputName, ...range },
+      [],
+      { onProgress, signal, parse: (data) => new Blob([data], { type: encoding.mimeType }) }
+    );
   }
 
-  async getMediaInfo(file: File): Promise<MediaInfo> {
-    await this.initialize();
+  /**
+   * Decodes the audio track to raw mono 16-bit samples for in-browser
+   * analysis such as voice activity detection
+   */
+  async extractPcmAudio(
+    file: File,
+    options: { sampleRate?: number; audioStreamIndex?: number; onProgress?: (percent: number) => void; signal?: AbortSignal } = {}
+  ): Promise<Int16Array> {
+    const { sampleRate = 8000, audioStreamIndex, onProgress, signal } = options;
+    logger.info('FFmpeg', `Extracting ${sampleRate} Hz PCM from: ${file.name} (${formatFileSize(file.size)})${describeExtractOptions({ audioStreamIndex })}`);
+
+    return this.runCommand(
+      { cmd: 'extractPcm', file, inputName: file.name, sampleRate, audioStreamIndex },
+      [],
+      {
+        onProgress,
+        signal,
+        parse: (data: Uint8Array) => {
+          // Int16Array views need an even byte offset; s16le is two bytes
+          // per sample, so a stray trailing byte is dropped
+          const bytes = data.byteOffset % 2 === 0 ? data : data.slice();
+          return new Int16Array(bytes.buffer, bytes.byteOffset, Math.floor(bytes.byteLength / 2));
+        },
+      }
+    );
+  }
 
-    // For media info, we only need a small portion of the file.
-    // Read first 10MB max to detect format/streams.
-    const maxProbeSize = 10 * 1024 * 1024;
-    const probeSlice = file.slice(0, Math.min(file.size, maxProbeSize));
-    const fileData = new Uint8Array(await probeSlice.arrayBuffer());
-    const inputName = file.name;
+  /**
+   * Loudness envelope of an audio track for drawing its waveform
+   */
+  async extractWaveform(
+    file: File,
+    options: { pointsPerSecond?: number; audioStreamIndex?: number; onProgress?: (percent: number) => void; signal?: AbortSignal } = {}
+  ): Promise<WaveformEnvelope> {
+    const { pointsPerSecond = ENVELOPE_POINTS_PER_SECOND, audioStreamIndex, onProgress, signal } = options;
+    logger.info('FFmpeg', `Extracting waveform from: ${file.name} (${formatFileSize(file.size)})`);
+
+    return this.runCommand(
+      { cmd: 'extractEnvelope', file, inputName: file.name, pointsPerSecond, audioStreamIndex },
+      [],
+      { resultType: 'envelope', onProgress, signal, parse: (data: WaveformEnvelope) => data }
+    );
+  }
 
-    const result = await new Promise<MediaInfo>((resolve, reject) => {
-      const handler = (e: MessageEvent) => {
-        switch (e.data.type) {
-          case 'mediaInfo':
-            this.worker!.removeEventListener('message', handler);
-            resolve(e.data.data);
-            break;
-          case 'error':
-            this.worker!.removeEventListener('message', handler);
-            reject(new Error(e.data.error));
-            break;
-        }
-      };
+  /**
+   * Spectrogram of a whole audio track as a PNG of the given size
+   */
+  async renderSpectrogram(
+    file: File,
+    options: { width?: number; height?: number; audioStreamIndex?: number; onProgress?: (percent: number) => void; signal?: AbortSignal } = {}
+  ): Promise<Blob> {
+    const { width = 1024, height = 128, audioStreamIndex, onProgress, signal } = options;
+    logger.info('FFmpeg', `Rendering spectrogram of: ${file.name} (${formatFileSize(file.size)})`);
+
+    return this.runCommand(
+      { cmd: 'renderSpectrogram', file, inputName: file.name, width, height, audioStreamIndex },
+      [],
+      { onProgress, signal, parse: (data) => new Blob([data], { type: 'image/png' }) }
+    );
+  }
 
-      this.worker!.addEventListener('message', handler);
-      this.worker!.postMessage(
-        { cmd: 'getMediaInfo', fileData, inputName },
-        [fileData.buffer]
-      );
-    });
+  /**
+   * Duration and streams read from the container headers when the format
+   * is one we can parse, which needs no WASM; anything else goes to ffmpeg
+   */
+  async probeMediaInfo(file: File, signal?: AbortSignal): Promise<MediaInfo> {
+    const probe = await probeContainer(file);
+    if (!probe) return this.getMediaInfo(file, signal);
+
+    const streams = probe.streams.map(toStreamDetails);
+    logger.info('FFmpeg', `Read ${file.name} headers without FFmpeg: ${probe.format}, ${probe.durationMs} ms, ${streams.length} stream(s)`);
+    const info: MediaInfo = {
+      duration: probe.durationMs / 1000,
+      hasAudio: streams.some(stream => stream.kind === 'audio'),
+      hasVideo: streams.some(stream => stream.kind === 'video'),
+      format: probe.format,
+      audioStreams: toAudioStreams(probe),
+      streams,
+      tags: {},
+      chapters: [],
+      probedBy: 'container',
+    };
+    this.mediaInfoCache.set(file, info);
+    return info;
+  }
 
-    // MP4 and some other containers store metadata (moov atom) at the end
-    // of the file. When we only probe the first 10MB, ffmpeg may not find
-    // any streams. In that case, infer from the file extension so we don't
-    // incorrectly reject a valid file.
+  async getMediaInfo(file: File, signal?: AbortSignal): Promise<MediaInfo> {
+    // The worker mounts the whole file but ffmpeg only reads the headers,
+    // including an MP4 index (moov atom) stored at the end
+    const result = await this.runCommand<MediaInfo>(
+      { cmd: 'getMediaInfo', file, inputName: file.name },
+      [],
+      { resultType: 'mediaInfo', signal, parse: (data) => ({ ...data, probedBy: 'ffmpeg' }) }
+    );
+
+    // Containers ffmpeg can't make sense of are judged by their extension
+    // so we don't incorrectly reject a valid file
     if (!result.hasAudio && !result.hasVideo) {
       const ext = file.name.toLowerCase().split('.').pop();
       const videoExts = ['mp4', 'mkv', 'avi', 'mov', 'wmv', 'flv', 'webm', 'm4v', 'mpg', 'mpeg', '3gp', 'ts', 'mts', 'm2ts', 'vob', 'mxf', 'asf'];
       const audioExts = ['mp3', 'wav', 'flac', 'aac', 'ogg', 'wma', 'm4a', 'opus', 'ac3', 'dts', 'aiff'];
 
       if (ext && videoExts.includes(ext)) {
-        logger.warn('FFmpeg', `Probe did not detect streams in ${file.name} (likely moov atom at end of file). Assuming video+audio based on extension.`);
+        logger.warn('FFmpeg', `Probe did not detect streams in ${file.name}. Assuming video+audio based on extension.`);
         result.hasVideo = true;
         result.hasAudio = true;
         result.format = result.format || ext;
@@ -213,14 +486,136 @@ export class BrowserFFmpegService {
       }
     }
 
+    this.mediaInfoCache.set(file, result);
     return result;
   }
 
   /**
-   * Terminate the worker and free resources
+   * Adds what only FFmpeg reads (tags, chapters, bitrate, stream titles and
+   * channel layouts) to info read from the container headers. The headers'
+   * duration and stream kinds stay; info from FFmpeg is returned as it is.
+   */
+  async completeMediaInfo(file: File, info: MediaInfo, signal?: AbortSignal): Promise<MediaInfo> {
+    if (info.probedBy === 'ffmpeg') return info;
+    const full = await this.getMediaInfo(file, signal);
+    // FFmpeg made nothing of the file; the headers are all there is
+    if (full.streams.length === 0) {
+      this.mediaInfoCache.set(file, info);
+      return info;
+    }
+    const complete: MediaInfo = {
+      ...info,
+      bitrate: full.bitrate,
+      audioStreams: full.audioStreams,
+      streams: full.streams,
+      tags: full.tags,
+      chapters: full.chapters,
+      probedBy: 'ffmpeg',
+    };
+    this.mediaInfoCache.set(file, complete);
+    return complete;
+  }
+
+  /**
+   * Finds the pauses in a recording: stretches at least `minSilenceSeconds`
+   * long that stay below `noiseDb`
+   */
+  async detectSilences(
+    file: File,
+    options: { noiseDb?: number; minSilenceSeconds?: number; onProgress?: (percent: number) => void; signal?: AbortSignal } = {}
+  ): Promise<SilenceInterval[]> {
+    const { noiseDb = -30, minSilenceSeconds = 0.5, onProgress, signal } = options;
+    const silences = await this.runCommand<SilenceInterval[]>(
+      { cmd: 'detectSilence', file, inputName: file.name, noiseDb, minSilenceSeconds },
+      [],
+      { resultType: 'silences', onProgress, signal, parse: (data) => data }
+    );
+    logger.info('FFmpeg', `Found ${silences.length} pause(s) in ${file.name}`);
+    return silences;
+  }
+
+  /**
+   * Lists the subtitle streams in a container, from the file's earlier
+   * probe when there is one
+   */
+  async listSubtitleStreams(file: File, signal?: AbortSignal): Promise<SubtitleStreamInfo[]> {
+    const info = this.mediaInfoCache.get(file) ?? await this.probeMediaInfo(file, signal);
+    const streams = toSubtitleStreams(info.streams);
+    logger.info('FFmpeg', `Found ${streams.length} subtitle stream(s) in ${file.name}`);
+    return streams;
+  }
+
+  /**
+   * Extracts one embedded text subtitle stream. ASS tracks stay ASS so their
+   * styling survives; other text codecs are converted to SRT.
+   */
+  async extractSubtitleStream(
+    file: File,
+    stream: SubtitleStreamInfo,
+    onProgress?: (percent: number) => void,
+    signal?: AbortSignal
+  ): Promise<{ content: string; format: 'srt' | 'ass' }> {
+    if (!stream.isText) {
+      throw new Error('Image-based subtitle tracks cannot be extracted as text');
+    }
+    const format = getSubtitleExtractFormat(stream);
+    logger.info('FFmpeg', `Extracting subtitle stream ${stream.index} (${stream.codec}) from ${file.name} as ${format}`);
+
+    // Subtitle packets are interleaved through the whole file, which is
+    // streamed rather than copied
+    return this.runCommand(
+      { cmd: 'extractSubtitle', file, inputName: file.name, streamIndex: stream.index, format },
+      [],
+      { onProgress, signal, parse: (data) => ({ content: new TextDecoder().decode(data), format }) }
+    );
+  }
+
+  /**
+   * Adds subtitle tracks to a video without re-encoding it. Video and audio
+   * streams are copied; subtitles that aren't SRT, ASS or WebVTT are
+   * converted to SRT first.
+   */
+  async muxSubtitles(
+    file: File,
+    tracks: MuxSubtitleTrack[],
+    container: MuxContainer,
+    onProgress?: (percent: number) => void,
+    signal?: AbortSignal
+  ): Promise<Blob> {
+    if (tracks.length === 0) throw new Error('No subtitle tracks to add');
+    if (file.size > WASM_OUTPUT_SIZE_LIMIT) {
+      throw new Error(`Video is too large to remux in the browser (${formatFileSize(file.size)}). The result is built in memory, which is limited to 2GB.`);
+    }
+    logger.info('FFmpeg', `Muxing ${tracks.length} subtitle track(s) into ${file.name} as ${container}`);
+
+    const encoder = new TextEncoder();
+    const subtitles = tracks.map((track, i) => {
+      const format = detectSubtitleFormat(track.content, track.fileName).toLowerCase();
+      const keep = ['srt', 'ass', 'vtt'].includes(format);
+      const content = keep ? track.content : convertSubtitle(track.content, track.fileName, 'srt');
+      return { data: encoder.encode(content), name: `subtitle_${i}.${keep ? format : 'srt'}` };
+    });
+    const trackInfo = tracks.map(({ language, title, isDefault, isForced }) => ({ language, title, isDefault, isForced }));
+    return this.runCommand(
+      { cmd: 'muxSubtitles', file, inputName: file.name, subtitles, tracks: trackInfo, container },
+      subtitles.map(s => s.data.buffer),
+      {
+        onProgress,
+        signal,
+        parse: (data) => {
+          logger.info('FFmpeg', `Mux complete: ${formatFileSize(data.byteLength)}`);
+          return new Blob([data], { type: container === 'mp4' ? 'video/mp4' : 'video/x-matroska' });
+        },
+      }
+    );
+  }
+
+  /**
+   * Terminate the worker and free resources. Commands still running fail.
    */
   terminate(): void {
     if (this.worker) {
+      [...this.jobs.values()].forEach(job => job.fail(new Error('FFmpeg worker was terminated')));
       this.worker.terminate();
       this.worker = null;
       this.isLoaded = false;
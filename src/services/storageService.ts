@@ -16,6 +16,10 @@ export interface AppConfig {
   hideRecentMediaInfoPanel?: boolean;
   defaultFilenameFormat?: string;
   audio_language_detection_time?: number;
+  /** Long recordings are transcribed in pieces of this many minutes; 0/unset for off */
+  transcriptionChunkMinutes?: number;
+  /** UPLOAD_ENCODINGS id for audio sent to transcription; MP3 128 kb/s when unset */
+  uploadEncoding?: string;
   credits?: {
     used: number;
     remaining: number;
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { parseSilenceLog, planChunks, mergeChunkEntries } from './audioChunking';
+
+describe('parseSilenceLog', () => {
+  it('pairs silence starts and ends', () => {
+    const log = `[silencedetect @ 0x1] silence_start: -0.01
+[silencedetect @ 0x1] silence_end: 1.5 | silence_duration: 1.51
+size=N/A time=00:10:00.00 bitrate=N/A speed= 812x
+[silencedetect @ 0x1] silence_start: 598.25
+[silencedetect @ 0x1] silence_end: 599.75 | silence_duration: 1.5
+[silencedetect @ 0x1] silence_start: 1200.1`;
+    expect(parseSilenceLog(log)).toEqual([
+      { start: 0, end: 1.5 },
+      { start: 598.25, end: 599.75 },
+    ]);
+  });
+});
+
+describe('planChunks', () => {
+  it('keeps short audio in one piece', () => {
+    expect(planChunks(700, [], 600)).toEqual([{ start: 0, end: 700 }]);
+  });
+
+  it('cuts in the pause nearest each boundary', () => {
+    const silences = [
+      { start: 300, end: 301 },
+      { start: 560, end: 562 },
+      { start: 630, end: 634 },
+      { start: 1190, end: 1192 },
+    ];
+    expect(planChunks(1800, silences, 600)).toEqual([
+      { start: 0, end: 632 },
+      { start: 632, end: 1191 },
+      { start: 1191, end: 1800 },
+    ]);
+  });
+
+  it('falls back to hard cuts without pauses in reach', () => {
+    expect(planChunks(1300, [{ start: 100, end: 101 }], 600)).toEqual([
+      { start: 0, end: 600 },
+      { start: 600, end: 1300 },
+    ]);
+  });
+
+  it('rejects a zero chunk length', () => {
+    expect(() => planChunks(100, [], 0)).toThrow('positive');
+  });
+});
+
+describe('mergeChunkEntries', () => {
+  it('offsets each chunk onto the full timeline', () => {
+    expect(mergeChunkEntries([
+      { offsetMs: 0, entries: [{ start: 1000, end: 2000, text: 'one' }] },
+      { offsetMs: 632000, entries: [{ start: 500, end: 1500, text: 'two' }, { start: 2000, end: 3000, text: 'three' }] },
+    ])).toEqual([
+      { start: 1000, end: 2000, text: 'one' },
+      { start: 632500, end: 633500, text: 'two' },
+      { start: 634000, end: 635000, text: 'three' },
+    ]);
+  });
+});
@@ -0,0 +1,87 @@
+// Splitting long recordings into pieces that are transcribed one by one.
+// Cuts are placed in pauses found by ffmpeg's silencedetect so no word is
+// split between two pieces.
+import type { SubtitleEntry } from './subtitleParser';
+import { shiftEntries } from './subtitleTiming';
+
+export interface SilenceInterval {
+  /** Seconds */
+  start: number;
+  end: number;
+}
+
+export interface AudioChunk {
+  /** Seconds into the audio */
+  start: number;
+  end: number;
+}
+
+/**
+ * Reads the silence_start / silence_end pairs silencedetect logs. A silence
+ * still open when the audio ends has no end line and is dropped.
+ */
+export function parseSilenceLog(log: string): SilenceInterval[] {
+  const silences: SilenceInterval[] = [];
+  let start: number | null = null;
+
+  for (const line of log.split('\n')) {
+    const startMatch = line.match(/silence_start:\s*(-?[\d.]+)/);
+    if (startMatch) {
+      start = Math.max(0, parseFloat(startMatch[1]));
+      continue;
+    }
+    const endMatch = line.match(/silence_end:\s*([\d.]+)/);
+    if (endMatch && start !== null) {
+      silences.push({ start, end: parseFloat(endMatch[1]) });
+      start = null;
+    }
+  }
+  return silences;
+}
+
+// How far a cut may move from the ideal boundary to land in a pause, as a
+// share of the chunk length
+const CUT_TOLERANCE = 0.25;
+
+/**
+ * Plans chunks of roughly `targetSeconds`. Each cut goes in the middle of
+ * the pause nearest the ideal boundary; without a pause in reach it falls
+ * on the boundary itself. A short remainder is folded into the last chunk.
+ */
+export function planChunks(totalSeconds: number, silences: SilenceInterval[], targetSeconds: number): AudioChunk[] {
+  if (targetSeconds <= 0) {
+    throw new Error('Chunk length must be positive');
+  }
+
+  const chunks: AudioChunk[] = [];
+  let cursor = 0;
+  while (totalSeconds - cursor > targetSeconds * (1 + CUT_TOLERANCE)) {
+    const ideal = cursor + targetSeconds;
+    const reach = targetSeconds * CUT_TOLERANCE;
+    let cut = ideal;
+    let bestDistance = Infinity;
+    for (const silence of silences) {
+      const middle = (silence.start + silence.end) / 2;
+      const distance = Math.abs(middle - ideal);
+      if (distance <= reach && distance < bestDistance) {
+        cut = middle;
+        bestDistance = distance;
+      }
+    }
+    chunks.push({ start: cursor, end: cut });
+    cursor = cut;
+  }
+  chunks.push({ start: cursor, end: totalSeconds });
+  return chunks;
+}
+
+/**
+ * Moves each chunk's cues to its place in the full recording and joins them
+ * in time order. Subtitles are numbered when serialized, so the merged list
+ * numbers continuously.
+ */
+export function mergeChunkEntries(parts: { offsetMs: number; entries: SubtitleEntry[] }[]): SubtitleEntry[] {
+  return parts
+    .flatMap(part => shiftEntries(part.entries, part.offsetMs))
+    .sort((a, b) => a.start - b.start);
+}
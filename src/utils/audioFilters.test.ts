@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { buildAudioFilterChain, getAudioFilterPreset } from './audioFilters';
+
+describe('buildAudioFilterChain', () => {
+  it('returns null when nothing is picked', () => {
+    expect(buildAudioFilterChain([])).toBeNull();
+    expect(buildAudioFilterChain(['unknown'])).toBeNull();
+  });
+
+  it('chains presets in a fixed order', () => {
+    expect(buildAudioFilterChain(['loudnorm', 'denoise', 'speech-band'], 2)).toBe(
+      'highpass=f=200,lowpass=f=3500,afftdn=nf=-25,loudnorm=I=-16:TP=-1.5:LRA=11'
+    );
+  });
+
+  it('extracts the center channel from surround audio first', () => {
+    expect(buildAudioFilterChain(['loudnorm', 'dialog'], 6)).toBe('pan=mono|c0=FC,loudnorm=I=-16:TP=-1.5:LRA=11');
+  });
+
+  it('skips dialog extraction without a center channel', () => {
+    expect(buildAudioFilterChain(['dialog', 'denoise'], 2)).toBe('afftdn=nf=-25');
+    expect(buildAudioFilterChain(['dialog'])).toBeNull();
+  });
+});
+
+describe('getAudioFilterPreset', () => {
+  it('finds presets by id', () => {
+    expect(getAudioFilterPreset('denoise')?.filter).toBe('afftdn=nf=-25');
+    expect(getAudioFilterPreset('nope')).toBeUndefined();
+  });
+});
@@ -0,0 +1,59 @@
+// Optional clean-up applied to the audio before it is sent for
+// transcription. Each preset is an ffmpeg filter; they are chained in a
+// fixed order whatever order they were picked in.
+
+export interface AudioFilterPreset {
+  id: string;
+  label: string;
+  description: string;
+  filter: string;
+  /** Fewest source channels the filter works with */
+  minChannels?: number;
+}
+
+// Listed in chain order: pick the dialog channel before shaping it, and
+// normalize loudness last so it measures the cleaned signal
+export const AUDIO_FILTER_PRESETS: AudioFilterPreset[] = [
+  {
+    id: 'dialog',
+    label: 'Dialog channel only',
+    description: 'Uses the center channel of 5.1/7.1 audio, where speech is mixed; stereo files are left as they are',
+    filter: 'pan=mono|c0=FC',
+    // 5.0 is the smallest common layout with a center channel
+    minChannels: 5,
+  },
+  {
+    id: 'speech-band',
+    label: 'Speech band-pass',
+    description: 'Cuts rumble and hiss outside the voice range (200-3500 Hz)',
+    filter: 'highpass=f=200,lowpass=f=3500',
+  },
+  {
+    id: 'denoise',
+    label: 'Reduce noise',
+    description: 'Removes steady background noise such as wind, hum or traffic',
+    filter: 'afftdn=nf=-25',
+  },
+  {
+    id: 'loudnorm',
+    label: 'Normalize loudness',
+    description: 'Evens out quiet dialog and loud music or effects',
+    filter: 'loudnorm=I=-16:TP=-1.5:LRA=11',
+  },
+];
+
+export const getAudioFilterPreset = (id: string): AudioFilterPreset | undefined =>
+  AUDIO_FILTER_PRESETS.find(p => p.id === id);
+
+/**
+ * Builds the `-af` value for the picked presets, or null when there is
+ * nothing to apply. Presets that need more channels than the source has
+ * are skipped, as are all channel-dependent ones when the count is unknown.
+ */
+export function buildAudioFilterChain(presetIds: string[], sourceChannels?: number): string | null {
+  const filters = AUDIO_FILTER_PRESETS
+    .filter(preset => presetIds.includes(preset.id))
+    .filter(preset => !preset.minChannels || (sourceChannels ?? 0) >= preset.minChannels)
+    .map(preset => preset.filter);
+  return filters.length ? filters.join(',') : null;
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { detectVoiceActivity, alignToVoiceActivity, VAD_FRAME_MS } from './audioSync';
+import { SubtitleEntry } from './subtitleParser';
+
+// Irregular cue layout so that no shift other than the true one lines up
+const cues: SubtitleEntry[] = Array.from({ length: 40 }, (_, i) => {
+  const start = 5000 + i * 4000 + ((i * 7919) % 1700);
+  return { start, end: start + 1200 + ((i * 104729) % 1300), text: `Line ${i}` };
+});
+
+/** Speech frames where the cues would be after `ms * scale + offset` */
+function speechFor(entries: SubtitleEntry[], scale: number, offsetMs: number, lengthMs = 200000): Uint8Array {
+  const speech = new Uint8Array(lengthMs / VAD_FRAME_MS);
+  for (const e of entries) {
+    speech.fill(1, Math.round((e.start * scale + offsetMs) / VAD_FRAME_MS), Math.round((e.end * scale + offsetMs) / VAD_FRAME_MS));
+  }
+  return speech;
+}
+
+describe('detectVoiceActivity', () => {
+  it('finds loud bursts over a noise floor', () => {
+    const sampleRate = 8000;
+    const samples = new Int16Array(sampleRate * 3);
+    for (let i = 0; i < samples.length; i++) {
+      const t = i / sampleRate;
+      const voiced = t >= 1 && t < 2;
+      samples[i] = Math.round((Math.random() - 0.5) * 200 + (voiced ? Math.sin(i * 0.3) * 8000 : 0));
+    }
+    const speech = detectVoiceActivity(samples, sampleRate);
+    expect(speech).toHaveLength(300);
+    expect(speech.slice(105, 195).every(f => f === 1)).toBe(true);
+    expect(speech.slice(0, 95).some(f => f === 1)).toBe(false);
+    expect(speech.slice(205).some(f => f === 1)).toBe(false);
+  });
+
+  it('ignores short clicks', () => {
+    const samples = new Int16Array(8000);
+    samples.fill(20000, 4000, 4100);
+    expect(detectVoiceActivity(samples, 8000).some(f => f === 1)).toBe(false);
+  });
+});
+
+describe('alignToVoiceActivity', () => {
+  it('recovers a constant offset', () => {
+    const result = alignToVoiceActivity(cues, speechFor(cues, 1, 2350));
+    expect(result.scale).toBe(1);
+    expect(result.offsetMs).toBe(2350);
+    expect(result.matchRatio).toBeGreaterThan(0.98);
+    expect(result.originalMatchRatio).toBeLessThan(0.6);
+  });
+
+  it('recovers a frame-rate drift', () => {
+    const scale = 23.976 / 25;
+    const result = alignToVoiceActivity(cues, speechFor(cues, scale, -1500));
+    expect(result.scale).toBeCloseTo(scale, 4);
+    expect(Math.abs(result.offsetMs + 1500)).toBeLessThanOrEqual(VAD_FRAME_MS);
+  });
+
+  it('fits drift that is not a frame-rate change', () => {
+    const result = alignToVoiceActivity(cues, speechFor(cues, 1.01, 800));
+    expect(result.scale).toBeCloseTo(1.01, 3);
+    expect(result.matchRatio).toBeGreaterThan(0.9);
+  });
+
+  it('rejects silent audio', () => {
+    expect(() => alignToVoiceActivity(cues, new Uint8Array(1000))).toThrow('No speech');
+  });
+});
@@ -0,0 +1,201 @@
+// Automatic subtitle-to-audio synchronization. A simple energy-based voice
+// activity detector marks speech frames in the local video's audio, then the
+// linear mapping (offset, optionally with a speed change) that puts the most
+// cue time on speech is searched for. Everything runs in the browser.
+import { SubtitleEntry } from './subtitleParser';
+import { FPS_CONVERSIONS } from './subtitleTiming';
+
+/** Analysis resolution; 10 ms is fine enough for subtitle timing */
+export const VAD_FRAME_MS = 10;
+
+export interface AudioSyncOptions {
+  /** Largest constant offset searched, in either direction */
+  maxOffsetMs?: number;
+}
+
+export interface AudioSyncResult {
+  /** Added after scaling: newTime = oldTime * scale + offsetMs */
+  offsetMs: number;
+  /** 1 when there is no drift */
+  scale: number;
+  /** Share of cue time that lands on detected speech after syncing */
+  matchRatio: number;
+  /** The same share before syncing, for comparison */
+  originalMatchRatio: number;
+}
+
+const DEFAULT_MAX_OFFSET_MS = 120000;
+/** Coarse search step, refined to single frames around the best hit */
+const COARSE_STEP_FRAMES = 10;
+/** Gaps shorter than this between speech frames are bridged (pauses between words) */
+const SPEECH_GAP_FRAMES = 20;
+/** Bursts shorter than this are treated as clicks, not speech */
+const MIN_SPEECH_FRAMES = 8;
+/** Windows used to estimate drift that isn't a standard frame-rate change */
+const DRIFT_WINDOWS = 4;
+const DRIFT_SEARCH_MS = 3000;
+
+/**
+ * Marks each frame of mono samples as speech (1) or not (0). The threshold
+ * adapts to the recording: it sits between the noise floor and the loud
+ * parts, so quiet and loud mixes both work.
+ */
+export function detectVoiceActivity(samples: Int16Array, sampleRate: number, frameMs = VAD_FRAME_MS): Uint8Array {
+  const frameSize = Math.max(1, Math.round(sampleRate * frameMs / 1000));
+  const frameCount = Math.floor(samples.length / frameSize);
+  const energies = new Float32Array(frameCount);
+  for (let f = 0; f < frameCount; f++) {
+    let sum = 0;
+    for (let i = f * frameSize; i < (f + 1) * frameSize; i++) sum += samples[i] * samples[i];
+    energies[f] = 10 * Math.log10(sum / frameSize + 1);
+  }
+
+  const speech = new Uint8Array(frameCount);
+  if (frameCount === 0) return speech;
+
+  const sorted = Float32Array.from(energies).sort();
+  const floor = sorted[Math.floor(frameCount * 0.1)];
+  const loud = sorted[Math.floor(frameCount * 0.95)];
+  const threshold = floor + Math.max(6, (loud - floor) * 0.4);
+  for (let f = 0; f < frameCount; f++) speech[f] = energies[f] > threshold ? 1 : 0;
+
+  // Bridge short pauses, then drop isolated blips
+  let lastSpeech = -1;
+  for (let f = 0; f < frameCount; f++) {
+    if (!speech[f]) continue;
+    if (lastSpeech >= 0 && f - lastSpeech > 1 && f - lastSpeech <= SPEECH_GAP_FRAMES) {
+      speech.fill(1, lastSpeech + 1, f);
+    }
+    lastSpeech = f;
+  }
+  let runStart = -1;
+  for (let f = 0; f <= frameCount; f++) {
+    if (f < frameCount && speech[f]) {
+      if (runStart < 0) runStart = f;
+    } else if (runStart >= 0) {
+      if (f - runStart < MIN_SPEECH_FRAMES) speech.fill(0, runStart, f);
+      runStart = -1;
+    }
+  }
+  return speech;
+}
+
+/**
+ * Scores candidate timings by how many speech frames fall inside the cues.
+ * Prefix sums make each candidate O(cues) regardless of cue length.
+ */
+class SpeechScorer {
+  private prefix: Int32Array;
+
+  constructor(speech: Uint8Array, private frameMs: number) {
+    this.prefix = new Int32Array(speech.length + 1);
+    for (let i = 0; i < speech.length; i++) this.prefix[i + 1] = this.prefix[i] + speech[i];
+  }
+
+  /** Speech frames covered by the cues after mapping with scale and offset */
+  score(entries: SubtitleEntry[], scale: number, offsetMs: number): number {
+    const last = this.prefix.length - 1;
+    let total = 0;
+    for (const e of entries) {
+      const start = Math.min(last, Math.max(0, Math.round((e.start * scale + offsetMs) / this.frameMs)));
+      const end = Math.min(last, Math.max(0, Math.round((e.end * scale + offsetMs) / this.frameMs)));
+      if (end > start) total += this.prefix[end] - this.prefix[start];
+    }
+    return total;
+  }
+
+  /** Best offset within [centerMs - rangeMs, centerMs + rangeMs], coarse then fine */
+  bestOffset(entries: SubtitleEntry[], scale: number, centerMs: number, rangeMs: number): { offsetMs: number; score: number } {
+    const step = this.frameMs * COARSE_STEP_FRAMES;
+    let best = { offsetMs: centerMs, score: this.score(entries, scale, centerMs) };
+    for (let offset = centerMs - rangeMs; offset <= centerMs + rangeMs; offset += step) {
+      const score = this.score(entries, scale, offset);
+      if (score > best.score) best = { offsetMs: offset, score };
+    }
+    const coarse = best.offsetMs;
+    for (let offset = coarse - step; offset <= coarse + step; offset += this.frameMs) {
+      const score = this.score(entries, scale, offset);
+      if (score > best.score) best = { offsetMs: offset, score };
+    }
+    return best;
+  }
+}
+
+const cueFrames = (entries: SubtitleEntry[], frameMs: number) =>
+  entries.reduce((sum, e) => sum + Math.max(0, Math.round((e.end - e.start) / frameMs)), 0);
+
+/** Candidate speed factors: none, plus the usual frame-rate conversions */
+function candidateScales(): number[] {
+  const scales = [1, ...FPS_CONVERSIONS.map(c => c.inFps / c.outFps)];
+  return scales.filter((s, i) => scales.findIndex(o => Math.abs(o - s) < 1e-6) === i);
+}
+
+/**
+ * Refines a solution by finding the best local offset for consecutive
+ * windows of cues and fitting a line through them, which catches drift that
+ * isn't a standard frame-rate change
+ */
+function fitDrift(
+  scorer: SpeechScorer,
+  entries: SubtitleEntry[],
+  scale: number,
+  offsetMs: number
+): { scale: number; offsetMs: number } | null {
+  const size = Math.ceil(entries.length / DRIFT_WINDOWS);
+  if (size < 5) return null;
+  const points: { x: number; y: number }[] = [];
+  for (let i = 0; i < entries.length; i += size) {
+    const window = entries.slice(i, i + size);
+    const local = scorer.bestOffset(window, scale, offsetMs, DRIFT_SEARCH_MS);
+    const centre = (window[0].start + window[window.length - 1].end) / 2;
+    points.push({ x: centre, y: centre * scale + local.offsetMs });
+  }
+  const n = points.length;
+  const meanX = points.reduce((s, p) => s + p.x, 0) / n;
+  const meanY = points.reduce((s, p) => s + p.y, 0) / n;
+  const sxx = points.reduce((s, p) => s + (p.x - meanX) ** 2, 0);
+  if (sxx === 0) return null;
+  const fitted = points.reduce((s, p) => s + (p.x - meanX) * (p.y - meanY), 0) / sxx;
+  if (!(fitted > 0.8 && fitted < 1.25)) return null;
+  return { scale: fitted, offsetMs: Math.round(meanY - fitted * meanX) };
+}
+
+/**
+ * Finds the offset (and speed change, if any) that best lines the cues up
+ * with detected speech
+ */
+export function alignToVoiceActivity(
+  entries: SubtitleEntry[],
+  speech: Uint8Array,
+  frameMs = VAD_FRAME_MS,
+  options: AudioSyncOptions = {}
+): AudioSyncResult {
+  if (entries.length === 0) throw new Error('No subtitle entries to synchronize');
+  const totalFrames = cueFrames(entries, frameMs);
+  if (totalFrames === 0) throw new Error('Subtitle cues have no duration');
+  if (!speech.some(f => f === 1)) throw new Error('No speech was detected in the audio');
+
+  const scorer = new SpeechScorer(speech, frameMs);
+  const maxOffsetMs = options.maxOffsetMs ?? DEFAULT_MAX_OFFSET_MS;
+
+  let best = { scale: 1, offsetMs: 0, score: -1 };
+  for (const scale of candidateScales()) {
+    const hit = scorer.bestOffset(entries, scale, 0, maxOffsetMs);
+    // Prefer no speed change unless another scale is clearly better
+    const margin = scale === 1 ? 0 : totalFrames * 0.02;
+    if (hit.score > best.score + margin) best = { scale, offsetMs: hit.offsetMs, score: hit.score };
+  }
+
+  const drift = fitDrift(scorer, entries, best.scale, best.offsetMs);
+  if (drift) {
+    const score = scorer.score(entries, drift.scale, drift.offsetMs);
+    if (score > best.score + totalFrames * 0.02) best = { ...drift, score };
+  }
+
+  return {
+    offsetMs: Math.round(best.offsetMs),
+    scale: best.scale,
+    matchRatio: best.score / totalFrames,
+    originalMatchRatio: scorer.score(entries, 1, 0) / totalFrames,
+  };
+}
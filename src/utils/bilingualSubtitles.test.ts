@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { buildBilingualSubtitle, stackBilingualEntries, BILINGUAL_LAYOUTS } from './bilingualSubtitles';
+import { parseSubtitleEntries, SubtitleEntry } from './subtitleParser';
+
+const translation: SubtitleEntry[] = [
+  { start: 1000, end: 3000, text: 'Bonjour' },
+  { start: 4000, end: 6000, text: 'Au revoir' },
+];
+
+const source: SubtitleEntry[] = [
+  { start: 1100, end: 2900, text: 'Hello' },
+  { start: 4000, end: 6100, text: 'Goodbye' },
+  { start: 9000, end: 10000, text: 'Extra' },
+];
+
+describe('stackBilingualEntries', () => {
+  it('stacks the overlapping source under each translated cue', () => {
+    const out = stackBilingualEntries(translation, source);
+    expect(out[0].text).toBe('Bonjour\n<i>Hello</i>');
+    expect(out[1].text).toBe('Au revoir\n<i>Goodbye</i>');
+  });
+
+  it('keeps unmatched source cues', () => {
+    const out = stackBilingualEntries(translation, source);
+    expect(out).toHaveLength(3);
+    expect(out[2]).toMatchObject({ start: 9000, text: '<i>Extra</i>' });
+  });
+});
+
+describe('buildBilingualSubtitle', () => {
+  it('builds stacked SRT that parses back', () => {
+    const out = buildBilingualSubtitle(translation, source, 'srt-stacked');
+    expect(parseSubtitleEntries(out, 'out.srt')).toHaveLength(3);
+  });
+
+  it('builds ASS with top and bottom styles', () => {
+    const out = buildBilingualSubtitle(translation, source, 'ass-top-bottom');
+    expect(out).toMatch(/Style: Translation,.*,2,60,60,50,1/);
+    expect(out).toMatch(/Style: Source,.*,8,60,60,50,1/);
+    expect(out).toContain(',Translation,,0,0,0,,Bonjour');
+    expect(out).toContain(',Source,,0,0,0,,Hello');
+  });
+
+  it('builds VTT with source cues positioned at the top', () => {
+    const out = buildBilingualSubtitle(translation, source, 'vtt-positioned');
+    expect(out.startsWith('WEBVTT')).toBe(true);
+    expect(out).toContain('00:00:01.100 --> 00:00:02.900 line:0 align:center\nHello');
+    expect(out).toContain('00:00:01.000 --> 00:00:03.000\nBonjour');
+  });
+
+  it('supports every listed layout and rejects unknown ones', () => {
+    for (const layout of BILINGUAL_LAYOUTS) {
+      expect(buildBilingualSubtitle(translation, source, layout.id).length).toBeGreaterThan(0);
+    }
+    expect(() => buildBilingualSubtitle(translation, source, 'side-by-side')).toThrow('Unsupported bilingual layout');
+  });
+});
@@ -0,0 +1,92 @@
+// Merges a translation with its source transcript into one bilingual file.
+// The translation is the primary track (bottom); the source sits above it.
+import { SubtitleEntry } from './subtitleParser';
+import { buildSubtitle, buildAssDocument, buildAssDialogue, buildAssStyle, formatClockTime } from './subtitleConverter';
+
+export interface BilingualLayout {
+  id: string;
+  label: string;
+  extension: string;
+}
+
+export const BILINGUAL_LAYOUTS: BilingualLayout[] = [
+  { id: 'srt-stacked', label: 'SRT - stacked lines', extension: 'srt' },
+  { id: 'ass-top-bottom', label: 'ASS - source top, translation bottom', extension: 'ass' },
+  { id: 'vtt-positioned', label: 'VTT - positioned cues', extension: 'vtt' },
+];
+
+export const getBilingualLayout = (id: string): BilingualLayout | undefined =>
+  BILINGUAL_LAYOUTS.find(l => l.id === id);
+
+const overlapMs = (a: SubtitleEntry, b: SubtitleEntry) =>
+  Math.min(a.end, b.end) - Math.max(a.start, b.start);
+
+/**
+ * Pairs each primary cue with the secondary cues it overlaps most. Every
+ * secondary cue is used at most once; unmatched ones become their own cue
+ * so no source text is lost.
+ */
+export function stackBilingualEntries(primary: SubtitleEntry[], secondary: SubtitleEntry[]): SubtitleEntry[] {
+  const attached: string[][] = primary.map(() => []);
+  const orphans: SubtitleEntry[] = [];
+
+  secondary.forEach(cue => {
+    let best = -1;
+    let bestOverlap = 0;
+    primary.forEach((p, i) => {
+      const overlap = overlapMs(p, cue);
+      if (overlap > bestOverlap) {
+        bestOverlap = overlap;
+        best = i;
+      }
+    });
+    if (best >= 0) attached[best].push(cue.text);
+    else orphans.push({ ...cue, text: `<i>${cue.text}</i>` });
+  });
+
+  const stacked = primary.map((p, i) => ({
+    ...p,
+    text: attached[i].length > 0 ? `${p.text}\n<i>${attached[i].join(' ')}</i>` : p.text,
+  }));
+  return [...stacked, ...orphans].sort((a, b) => a.start - b.start);
+}
+
+function buildDualAss(primary: SubtitleEntry[], secondary: SubtitleEntry[]): string {
+  return buildAssDocument(
+    [buildAssStyle('Translation', 2), buildAssStyle('Source', 8)],
+    [
+      ...primary.map(e => buildAssDialogue(e, 'Translation')),
+      ...secondary.map(e => buildAssDialogue(e, 'Source')),
+    ],
+  );
+}
+
+function buildPositionedVtt(primary: SubtitleEntry[], secondary: SubtitleEntry[]): string {
+  // Source cues are pinned to the top line; translations keep the default
+  // bottom placement, so both tracks can overlap freely in time
+  const cues = [
+    ...primary.map(e => ({ entry: e, settings: '' })),
+    ...secondary.map(e => ({ entry: e, settings: ' line:0 align:center' })),
+  ].sort((a, b) => a.entry.start - b.entry.start);
+
+  const blocks = cues.map(({ entry, settings }) =>
+    `${formatClockTime(entry.start)} --> ${formatClockTime(entry.end)}${settings}\n${entry.text}`
+  );
+  return `WEBVTT\n\n${blocks.join('\n\n')}\n`;
+}
+
+/**
+ * Builds a bilingual subtitle file in the given layout
+ */
+export function buildBilingualSubtitle(translation: SubtitleEntry[], source: SubtitleEntry[], layoutId: string): string {
+  switch (layoutId) {
+    case 'srt-stacked':
+      return buildSubtitle(stackBilingualEntries(translation, source), 'srt');
+    case 'ass-top-bottom':
+      return buildDualAss(translation, source);
+    case 'vtt-positioned':
+      return buildPositionedVtt(translation, source);
+    default:
+      throw new Error(`Unsupported bilingual layout: ${layoutId}`);
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Compare Tray - Holds the two subtitle versions picked for the diff view,
+ * so they can be collected from different pages (local file, Recent Media,
+ * Search) before comparing
+ */
+
+export type CompareOrigin = 'local' | 'recent' | 'search';
+
+export interface CompareItem {
+  content: string;
+  fileName: string;
+  origin: CompareOrigin;
+}
+
+export type CompareSlots = [CompareItem | null, CompareItem | null];
+
+type CompareListener = (slots: CompareSlots) => void;
+
+class CompareTray {
+  private slots: CompareSlots = [null, null];
+  private listeners: Set<CompareListener> = new Set();
+
+  addListener(listener: CompareListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  getSlots(): CompareSlots { return this.slots; }
+
+  /** Fills the first empty slot, or replaces the right-hand one when both are taken */
+  add(item: CompareItem): void {
+    const index = this.slots[0] === null ? 0 : 1;
+    this.set(index, item);
+  }
+
+  set(index: 0 | 1, item: CompareItem | null): void {
+    const next: CompareSlots = [...this.slots];
+    next[index] = item;
+    this.slots = next;
+    this.notify();
+  }
+
+  swap(): void {
+    this.slots = [this.slots[1], this.slots[0]];
+    this.notify();
+  }
+
+  clear(): void {
+    this.slots = [null, null];
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => {
+      try { listener(this.slots); } catch (error) { console.error('Error in compare tray listener:', error); }
+    });
+  }
+}
+
+export const compareTray = new CompareTray();
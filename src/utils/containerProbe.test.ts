@@ -0,0 +1,222 @@
+import { describe, it, expect } from 'vitest';
+import { probeContainer, toAudioStreams } from './containerProbe';
+
+const bytes = (...parts: (Uint8Array | number[] | string)[]) => {
+  const arrays = parts.map(part => typeof part === 'string'
+    ? new TextEncoder().encode(part)
+    : part instanceof Uint8Array ? part : Uint8Array.from(part));
+  const result = new Uint8Array(arrays.reduce((sum, a) => sum + a.length, 0));
+  let offset = 0;
+  for (const a of arrays) {
+    result.set(a, offset);
+    offset += a.length;
+  }
+  return result;
+};
+const u16 = (n: number) => [n >> 8, n & 0xff];
+const u32 = (n: number) => [n >>> 24, (n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff];
+const le16 = (n: number) => [n & 0xff, n >> 8];
+const le32 = (n: number) => [n & 0xff, (n >> 8) & 0xff, (n >> 16) & 0xff, n >>> 24];
+const file = (data: BlobPart, name: string) => new File([data], name);
+
+describe('probeContainer: MP4', () => {
+  const box = (type: string, ...content: (Uint8Array | number[] | string)[]) => {
+    const body = bytes(...content);
+    return bytes(u32(body.length + 8), type, body);
+  };
+  const packLanguage = (code: string) => u16([...code].reduce((v, c) => (v << 5) | (c.charCodeAt(0) - 0x60), 0));
+  const mdhd = (timescale: number, duration: number, language: string) =>
+    box('mdhd', u32(0), u32(0), u32(0), u32(timescale), u32(duration), packLanguage(language), u16(0));
+  const hdlr = (handler: string) => box('hdlr', u32(0), u32(0), handler, new Uint8Array(12), [0]);
+  const sampleEntry = (type: string, fields: number[]) => box(type, new Uint8Array(6), u16(1), fields);
+  const stbl = (entry: Uint8Array, ...extra: Uint8Array[]) => box('stbl', box('stsd', u32(0), u32(1), entry), ...extra);
+  const trak = (enabled: boolean, mdia: Uint8Array[]) =>
+    box('trak', box('tkhd', u32(enabled ? 3 : 2), new Uint8Array(80)), box('mdia', ...mdia));
+
+  const video = trak(true, [
+    mdhd(24000, 240240, 'und'),
+    hdlr('vide'),
+    box('minf', stbl(
+      sampleEntry('avc1', [...new Uint8Array(16), ...u16(1920), ...u16(1080), ...new Uint8Array(50)]),
+      box('stts', u32(0), u32(1), u32(240), u32(1001)),
+    )),
+  ]);
+  const audio = trak(false, [
+    mdhd(48000, 480480, 'ger'),
+    hdlr('soun'),
+    box('minf', stbl(sampleEntry('mp4a', [...new Uint8Array(8), ...u16(6), ...u16(16), ...u32(0), ...u32(48000 * 65536)]))),
+  ]);
+  const moov = box('moov', box('mvhd', u32(0), u32(0), u32(0), u32(1000), u32(10010), new Uint8Array(80)), video, audio);
+  const ftyp = box('ftyp', 'isom', u32(512), 'isomiso2avc1mp41');
+
+  it('reads a moov stored after the media', async () => {
+    const mdat = box('mdat', new Uint8Array(100000));
+    const probe = await probeContainer(file(bytes(ftyp, mdat, moov), 'a.mp4'));
+    expect(probe).toEqual({
+      format: 'mov',
+      durationMs: 10010,
+      streams: [
+        {
+          index: 0, kind: 'video', codec: 'h264', language: undefined, durationMs: 10010,
+          width: 1920, height: 1080, frameRate: 23.976, isDefault: true, isForced: false,
+        },
+        {
+          index: 1, kind: 'audio', codec: 'aac', language: 'ger', durationMs: 10010,
+          channels: 6, sampleRate: 48000, isDefault: false, isForced: false,
+        },
+      ],
+    });
+    expect(toAudioStreams(probe!)).toEqual([
+      { index: 1, language: 'ger', title: undefined, codec: 'aac', channels: 6, sampleRate: 48000, isDefault: false },
+    ]);
+  });
+
+  it('keeps ffmpeg\'s numbering past unreadable tracks and leaves shared defaults undecided', async () => {
+    const broken = box('trak', box('tkhd', u32(3), new Uint8Array(80)), box('mdia', hdlr('soun')));
+    const enabledAudio = (language: string) => trak(true, [
+      mdhd(48000, 480480, language),
+      hdlr('soun'),
+      box('minf', stbl(sampleEntry('mp4a', [...new Uint8Array(8), ...u16(2), ...u16(16), ...u32(0), ...u32(48000 * 65536)]))),
+    ]);
+    const mvhd = box('mvhd', u32(0), u32(0), u32(0), u32(1000), u32(10010), new Uint8Array(80));
+    const probe = await probeContainer(file(bytes(ftyp, box('moov', mvhd, video, broken, enabledAudio('eng'), enabledAudio('fre'))), 'a.mp4'));
+    expect(probe!.streams.map(({ index, kind, isDefault }) => ({ index, kind, isDefault }))).toEqual([
+      { index: 0, kind: 'video', isDefault: true },
+      { index: 2, kind: 'audio', isDefault: false },
+      { index: 3, kind: 'audio', isDefault: false },
+    ]);
+  });
+
+  it('gives up without a moov', async () => {
+    expect(await probeContainer(file(bytes(ftyp, box('mdat', new Uint8Array(64))), 'a.mp4'))).toBeNull();
+  });
+});
+
+describe('probeContainer: Matroska', () => {
+  const id = (value: number) => {
+    const out: number[] = [];
+    for (let v = value; v > 0; v = Math.floor(v / 256)) out.unshift(v & 0xff);
+    return out;
+  };
+  const element = (elementId: number, ...content: (Uint8Array | number[] | string)[]) => {
+    const body = bytes(...content);
+    return bytes(id(elementId), [0x10 | (body.length >>> 24), (body.length >> 16) & 0xff, (body.length >> 8) & 0xff, body.length & 0xff], body);
+  };
+  const float64 = (n: number) => {
+    const out = new Uint8Array(8);
+    new DataView(out.buffer).setFloat64(0, n);
+    return out;
+  };
+  const float32 = (n: number) => {
+    const out = new Uint8Array(4);
+    new DataView(out.buffer).setFloat32(0, n);
+    return out;
+  };
+
+  const header = element(0x1a45dfa3, element(0x4286, [1]), element(0x4282, 'webm'));
+  const info = element(0x1549a966, element(0x2ad7b1, u32(1000000)), element(0x4489, float64(5025.5)));
+  const tracks = element(0x1654ae6b,
+    element(0xae,
+      element(0xd7, [1]), element(0x83, [1]), element(0x86, 'V_VP9'),
+      element(0x23e383, u32(41708333)),
+      element(0xe0, element(0xb0, u16(1280)), element(0xba, u16(720))),
+    ),
+    element(0xae,
+      element(0xd7, [2]), element(0x83, [2]), element(0x86, 'A_OPUS'), element(0x22b59c, 'fre'),
+      element(0x536e, 'Commentary'), element(0x88, [0]),
+      element(0xe1, element(0xb5, float32(48000)), element(0x9f, [2])),
+    ),
+    element(0xae, element(0xd7, [3]), element(0x83, [17]), element(0x86, 'S_TEXT/WEBVTT'), element(0x55aa, [1])),
+  );
+  const cluster = element(0x1f43b675, new Uint8Array(5000));
+
+  it('reads Info and Tracks from the segment', async () => {
+    const probe = await probeContainer(file(bytes(header, element(0x18538067, info, tracks, cluster)), 'a.webm'));
+    expect(probe).toMatchObject({
+      format: 'matroska',
+      durationMs: 5026,
+      streams: [
+        { index: 0, kind: 'video', codec: 'vp9', language: 'eng', width: 1280, height: 720, frameRate: 23.976, isDefault: true },
+        { index: 1, kind: 'audio', codec: 'opus', language: 'fre', title: 'Commentary', channels: 2, sampleRate: 48000, isDefault: false },
+        { index: 2, kind: 'subtitle', codec: 'webvtt', isForced: true },
+      ],
+    });
+  });
+
+  it('follows the SeekHead to Tracks written after the clusters', async () => {
+    // SeekHead, Info and Cluster come first; positions are relative to the segment data
+    const seekHeadSize = element(0x114d9b74, element(0x4dbb, element(0x53ab, id(0x1654ae6b)), element(0x53ac, u32(0)))).length;
+    const tracksPosition = seekHeadSize + info.length + cluster.length;
+    const seekHead = element(0x114d9b74, element(0x4dbb, element(0x53ab, id(0x1654ae6b)), element(0x53ac, u32(tracksPosition))));
+    const probe = await probeContainer(file(bytes(header, element(0x18538067, seekHead, info, cluster, tracks)), 'a.mkv'));
+    expect(probe?.streams.map(s => s.codec)).toEqual(['vp9', 'opus', 'webvtt']);
+  });
+
+  it('leaves live recordings without a duration to ffmpeg', async () => {
+    const noDuration = element(0x1549a966, element(0x2ad7b1, u32(1000000)));
+    expect(await probeContainer(file(bytes(header, element(0x18538067, noDuration, tracks)), 'rec.webm'))).toBeNull();
+  });
+});
+
+describe('probeContainer: audio formats', () => {
+  it('reads WAV from the data size and byte rate', async () => {
+    const fmt = bytes('fmt ', le32(16), le16(1), le16(2), le32(16000), le32(64000), le16(4), le16(16));
+    const data = bytes('data', le32(96000), new Uint8Array(96000));
+    const riff = bytes('RIFF', le32(4 + fmt.length + data.length), 'WAVE', fmt, data);
+    expect(await probeContainer(file(riff, 'a.wav'))).toEqual({
+      format: 'wav',
+      durationMs: 1500,
+      streams: [{ index: 0, kind: 'audio', codec: 'pcm_s16le', durationMs: 1500, channels: 2, sampleRate: 16000, isDefault: true, isForced: false }],
+    });
+  });
+
+  it('reads FLAC STREAMINFO', async () => {
+    // 44100 Hz, 2 channels, 16 bits, 441000 samples
+    const streamInfo = [0, 16, 0, 16, 0, 0, 0, 0, 0, 0, 0x0a, 0xc4, 0x42, 0xf0, ...u32(441000), ...new Uint8Array(16)];
+    const probe = await probeContainer(file(bytes('fLaC', [0x80, 0, 0, 34], streamInfo), 'a.flac'));
+    expect(probe).toMatchObject({ format: 'flac', durationMs: 10000, streams: [{ codec: 'flac', channels: 2, sampleRate: 44100 }] });
+  });
+
+  // MPEG-1 Layer III, 128 kb/s, 44.1 kHz, stereo: 417-byte frames
+  const frame = (content: (number[] | string)[] = []) => {
+    const data = new Uint8Array(417);
+    data.set([0xff, 0xfb, 0x90, 0x00]);
+    data.set(bytes(...content), 4);
+    return data;
+  };
+  const id3 = bytes('ID3', [4, 0, 0, 0, 0, 0, 20], new Uint8Array(20));
+
+  it('derives CBR MP3 length from the file size', async () => {
+    const frames = Array.from({ length: 100 }, () => frame());
+    const probe = await probeContainer(file(bytes(id3, ...frames), 'a.mp3'));
+    expect(probe).toMatchObject({ format: 'mp3', durationMs: 2606, streams: [{ codec: 'mp3', channels: 2, sampleRate: 44100 }] });
+  });
+
+  it('uses the Xing frame count for VBR MP3', async () => {
+    const xing = frame([Array.from(new Uint8Array(32)), 'Xing', u32(1), u32(1000)]);
+    const probe = await probeContainer(file(bytes(xing, frame(), frame()), 'a.mp3'));
+    expect(probe?.durationMs).toBe(26122);
+  });
+
+  it('reads Ogg Opus length from the last granule', async () => {
+    const page = (flags: number, granule: number, body: Uint8Array) =>
+      bytes('OggS', [0, flags], le32(granule), le32(0), le32(77), le32(0), le32(0), [1, body.length], body);
+    const head = bytes('OpusHead', [1, 2], le16(312), le32(44100), [0, 0, 0]);
+    const ogg = bytes(
+      page(0x02, 0, head),
+      page(0, 0, bytes('OpusTags', new Uint8Array(20))),
+      page(0, 100000, new Uint8Array(200)),
+      page(0x04, 48000 * 5 + 312, new Uint8Array(100)),
+    );
+    expect(await probeContainer(file(ogg, 'a.opus'))).toEqual({
+      format: 'ogg',
+      durationMs: 5000,
+      streams: [{ index: 0, kind: 'audio', codec: 'opus', channels: 2, sampleRate: 48000, durationMs: 5000, isDefault: true, isForced: false }],
+    });
+  });
+
+  it('returns null for unknown data', async () => {
+    expect(await probeContainer(file(bytes('just some text, not media'), 'a.avi'))).toBeNull();
+    expect(await probeContainer(file(new Uint8Array(4), 'tiny.mp3'))).toBeNull();
+  });
+});
@@ -0,0 +1,716 @@
+// Reads duration and streams straight from container headers, without
+// loading FFmpeg. Only the header bytes are read (File.slice), so even
+// multi-GB files are probed in milliseconds. Returns null for anything it
+// doesn't recognise; callers then fall back to ffmpeg.
+import type { AudioStreamInfo, MediaStreamDetails, MediaStreamKind } from './mediaStreams';
+
+export interface ContainerStream {
+  /** Position among the file's streams, matching ffmpeg's `0:<index>` */
+  index: number;
+  kind: MediaStreamKind;
+  /** ffmpeg's name for the codec, e.g. "h264" or "aac" */
+  codec: string;
+  language?: string;
+  title?: string;
+  durationMs?: number;
+  width?: number;
+  height?: number;
+  frameRate?: number;
+  sampleRate?: number;
+  channels?: number;
+  isDefault: boolean;
+  isForced: boolean;
+}
+
+export interface ContainerProbe {
+  /** ffmpeg's demuxer name, e.g. "mov" or "matroska" */
+  format: string;
+  durationMs: number;
+  streams: ContainerStream[];
+}
+
+// Largest header block (moov, Tracks) read in one go; bigger ones are
+// unusual enough to leave to ffmpeg
+const MAX_HEADER_BYTES = 64 * 1024 * 1024;
+// How far into a file to look for the first MP3 frame
+const MP3_SYNC_SEARCH_BYTES = 64 * 1024;
+// Tail read for the last Ogg page, which holds the final granule position
+const OGG_TAIL_BYTES = 64 * 1024;
+
+async function readBytes(file: Blob, offset: number, length: number): Promise<Uint8Array> {
+  return new Uint8Array(await file.slice(offset, Math.min(file.size, offset + length)).arrayBuffer());
+}
+
+const view = (data: Uint8Array) => new DataView(data.buffer, data.byteOffset, data.byteLength);
+const ascii = (data: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...data.subarray(start, start + length));
+const u64 = (dv: DataView, offset: number, littleEndian = false) => littleEndian
+  ? dv.getUint32(offset + 4, true) * 2 ** 32 + dv.getUint32(offset, true)
+  : dv.getUint32(offset) * 2 ** 32 + dv.getUint32(offset + 4);
+
+/** Snaps rates like 23.976023 to the three decimals ffmpeg shows */
+const roundRate = (rate: number) => Math.round(rate * 1000) / 1000;
+
+// ── MP4 / MOV ──
+
+const MP4_TOP_LEVEL_BOXES = ['ftyp', 'moov', 'mdat', 'free', 'skip', 'wide', 'pnot', 'uuid'];
+
+const MP4_CODECS: Record<string, string> = {
+  avc1: 'h264', avc3: 'h264', hvc1: 'hevc', hev1: 'hevc', av01: 'av1', vp09: 'vp9', mp4v: 'mpeg4',
+  mp4a: 'aac', 'ac-3': 'ac3', 'ec-3': 'eac3', Opus: 'opus', fLaC: 'flac', '.mp3': 'mp3', alac: 'alac',
+  tx3g: 'mov_text', text: 'mov_text', wvtt: 'webvtt', c608: 'eia_608',
+};
+
+const MP4_HANDLERS: Record<string, MediaStreamKind> = {
+  vide: 'video', soun: 'audio', subt: 'subtitle', sbtl: 'subtitle', text: 'subtitle', clcp: 'subtitle',
+};
+
+interface Box {
+  type: string;
+  /** Payload bounds within the buffer */
+  start: number;
+  end: number;
+}
+
+function* mp4Boxes(data: Uint8Array, start = 0, end = data.length): Generator<Box> {
+  const dv = view(data);
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = dv.getUint32(offset);
+    let headerSize = 8;
+    if (size === 1) {
+      size = u64(dv, offset + 8);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize || offset + size > end) return;
+    yield { type: ascii(data, offset + 4, 4), start: offset + headerSize, end: offset + size };
+    offset += size;
+  }
+}
+
+const findBox = (data: Uint8Array, parent: Box, type: string) => {
+  for (const box of mp4Boxes(data, parent.start, parent.end)) if (box.type === type) return box;
+  return undefined;
+};
+
+/** Follows a path of nested boxes, e.g. ['mdia', 'minf', 'stbl'] */
+const findPath = (data: Uint8Array, parent: Box, path: string[]) =>
+  path.reduce<Box | undefined>((box, type) => box && findBox(data, box, type), parent);
+
+/** Duration and timescale from an mvhd or mdhd box, whose layouts match up to there */
+function readTimedHeader(data: Uint8Array, box: Box): { timescale: number; duration: number } {
+  const dv = view(data);
+  return data[box.start] === 1
+    ? { timescale: dv.getUint32(box.start + 20), duration: u64(dv, box.start + 24) }
+    : { timescale: dv.getUint32(box.start + 12), duration: dv.getUint32(box.start + 16) };
+}
+
+function readMp4Track(data: Uint8Array, trak: Box, index: number): ContainerStream | null {
+  const dv = view(data);
+  const mdhd = findPath(data, trak, ['mdia', 'mdhd']);
+  const hdlr = findPath(data, trak, ['mdia', 'hdlr']);
+  if (!mdhd || !hdlr) return null;
+
+  const { timescale, duration } = readTimedHeader(data, mdhd);
+  const languageOffset = mdhd.start + (data[mdhd.start] === 1 ? 32 : 20);
+  const packed = dv.getUint16(languageOffset);
+  const language = String.fromCharCode(((packed >> 10) & 0x1f) + 0x60, ((packed >> 5) & 0x1f) + 0x60, (packed & 0x1f) + 0x60);
+  const tkhd = findBox(data, trak, 'tkhd');
+
+  const stream: ContainerStream = {
+    index,
+    kind: MP4_HANDLERS[ascii(data, hdlr.start + 8, 4)] ?? 'data',
+    codec: 'unknown',
+    language: /^[a-z]{3}$/.test(language) && language !== 'und' ? language : undefined,
+    durationMs: timescale ? Math.round((duration / timescale) * 1000) : undefined,
+    isDefault: tkhd ? (dv.getUint32(tkhd.start) & 1) === 1 : false,
+    isForced: false,
+  };
+
+  const stbl = findPath(data, trak, ['mdia', 'minf', 'stbl']);
+  const stsd = stbl && findBox(data, stbl, 'stsd');
+  const entry = stsd && mp4Boxes(data, stsd.start + 8, stsd.end).next().value;
+  if (entry) {
+    stream.codec = MP4_CODECS[entry.type] ?? entry.type.trim().toLowerCase();
+    // Sample entries start with 6 reserved bytes and a data reference index
+    if (stream.kind === 'audio' && entry.end - entry.start >= 28) {
+      stream.channels = dv.getUint16(entry.start + 16);
+      stream.sampleRate = dv.getUint32(entry.start + 24) >>> 16;
+    } else if (stream.kind === 'video' && entry.end - entry.start >= 28) {
+      stream.width = dv.getUint16(entry.start + 24);
+      stream.height = dv.getUint16(entry.start + 26);
+    }
+  }
+
+  const stts = stbl && findBox(data, stbl, 'stts');
+  if (stream.kind === 'video' && stts && duration > 0) {
+    let frames = 0;
+    const count = dv.getUint32(stts.start + 4);
+    for (let i = 0; i < count && stts.start + 16 + i * 8 <= stts.end; i++) {
+      frames += dv.getUint32(stts.start + 8 + i * 8);
+    }
+    if (frames > 0) stream.frameRate = roundRate(frames / (duration / timescale));
+  }
+  return stream;
+}
+
+async function probeMp4(file: Blob): Promise<ContainerProbe | null> {
+  // Walk the top-level boxes by their headers alone; mdat is skipped
+  // without reading it, so a moov after the media costs one more slice
+  let offset = 0;
+  let moov: Uint8Array | null = null;
+  while (offset + 8 <= file.size) {
+    const header = await readBytes(file, offset, 16);
+    const dv = view(header);
+    let size = dv.getUint32(0);
+    let headerSize = 8;
+    if (size === 1) {
+      size = u64(dv, 8);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = file.size - offset;
+    }
+    if (size < headerSize) return null;
+    if (ascii(header, 4, 4) === 'moov') {
+      if (size > MAX_HEADER_BYTES) return null;
+      moov = await readBytes(file, offset + headerSize, size - headerSize);
+      break;
+    }
+    offset += size;
+  }
+  if (!moov) return null;
+
+  const root: Box = { type: 'moov', start: 0, end: moov.length };
+  const mvhd = findBox(moov, root, 'mvhd');
+  if (!mvhd) return null;
+  const movie = readTimedHeader(moov, mvhd);
+  let durationMs = movie.timescale ? (movie.duration / movie.timescale) * 1000 : 0;
+
+  // Fragmented files keep the total in mvex/mehd
+  const mehd = findPath(moov, root, ['mvex', 'mehd']);
+  if (!durationMs && mehd && movie.timescale) {
+    const fragmentDuration = moov[mehd.start] === 1 ? u64(view(moov), mehd.start + 4) : view(moov).getUint32(mehd.start + 4);
+    durationMs = (fragmentDuration / movie.timescale) * 1000;
+  }
+
+  // ffmpeg numbers every trak, so an unreadable one still takes its index
+  const streams: ContainerStream[] = [];
+  let index = 0;
+  for (const box of mp4Boxes(moov)) {
+    if (box.type !== 'trak') continue;
+    const stream = readMp4Track(moov, box, index++);
+    if (stream) streams.push(stream);
+  }
+  // Most muxers set the enabled flag on every track; when several of one
+  // kind claim it, the real default is left for ffmpeg to report
+  for (const kind of new Set(streams.map(s => s.kind))) {
+    const enabled = streams.filter(s => s.kind === kind && s.isDefault);
+    if (enabled.length > 1) enabled.forEach(s => { s.isDefault = false; });
+  }
+  if (!durationMs) durationMs = Math.max(0, ...streams.map(s => s.durationMs ?? 0));
+  if (!durationMs) return null;
+
+  return { format: 'mov', durationMs: Math.round(durationMs), streams };
+}
+
+// ── Matroska / WebM ──
+
+const EBML = {
+  header: 0x1a45dfa3, docType: 0x4282, segment: 0x18538067,
+  seekHead: 0x114d9b74, seek: 0x4dbb, seekId: 0x53ab, seekPosition: 0x53ac,
+  info: 0x1549a966, timestampScale: 0x2ad7b1, duration: 0x4489,
+  tracks: 0x1654ae6b, trackEntry: 0xae, trackType: 0x83, codecId: 0x86, name: 0x536e,
+  language: 0x22b59c, flagDefault: 0x88, flagForced: 0x55aa, defaultDuration: 0x23e383,
+  video: 0xe0, pixelWidth: 0xb0, pixelHeight: 0xba, audio: 0xe1, samplingFrequency: 0xb5, channels: 0x9f,
+  cluster: 0x1f43b675,
+};
+
+const MATROSKA_TRACK_TYPES: Record<number, MediaStreamKind> = { 1: 'video', 2: 'audio', 17: 'subtitle' };
+
+const MATROSKA_CODECS: Record<string, string> = {
+  'V_MPEG4/ISO/AVC': 'h264', 'V_MPEGH/ISO/HEVC': 'hevc', V_AV1: 'av1', V_VP8: 'vp8', V_VP9: 'vp9',
+  'V_MPEG4/ISO/ASP': 'mpeg4', V_MPEG2: 'mpeg2video', V_THEORA: 'theora',
+  A_AAC: 'aac', A_AC3: 'ac3', A_EAC3: 'eac3', A_DTS: 'dts', A_TRUEHD: 'truehd', A_OPUS: 'opus',
+  A_VORBIS: 'vorbis', A_FLAC: 'flac', 'A_MPEG/L3': 'mp3', 'A_MPEG/L2': 'mp2', 'A_PCM/INT/LIT': 'pcm_s16le',
+  'S_TEXT/UTF8': 'subrip', 'S_TEXT/ASS': 'ass', 'S_TEXT/SSA': 'ssa', 'S_TEXT/WEBVTT': 'webvtt',
+  'S_HDMV/PGS': 'hdmv_pgs_subtitle', S_VOBSUB: 'dvd_subtitle', 'S_DVBSUB': 'dvb_subtitle',
+};
+
+interface EbmlElement {
+  id: number;
+  /** Content bounds; an element of unknown size runs to `end` */
+  start: number;
+  end: number;
+  unknownSize: boolean;
+}
+
+/** Reads an element header at `offset`, or null if it is cut off */
+function readEbmlHeader(data: Uint8Array, offset: number): { id: number; size: number | null; headerLength: number } | null {
+  const idLength = Math.clz32(data[offset]) - 23;
+  if (idLength < 1 || idLength > 4 || offset + idLength >= data.length) return null;
+  let id = 0;
+  for (let i = 0; i < idLength; i++) id = id * 256 + data[offset + i];
+
+  const first = data[offset + idLength];
+  const sizeLength = Math.clz32(first) - 23;
+  if (sizeLength < 1 || sizeLength > 8 || offset + idLength + sizeLength > data.length) return null;
+  let size = first & (0xff >> sizeLength);
+  let allOnes = size === (0xff >> sizeLength);
+  for (let i = 1; i < sizeLength; i++) {
+    const byte = data[offset + idLength + i];
+    size = size * 256 + byte;
+    allOnes = allOnes && byte === 0xff;
+  }
+  return { id, size: allOnes ? null : size, headerLength: idLength + sizeLength };
+}
+
+function* ebmlElements(data: Uint8Array, start = 0, end = data.length): Generator<EbmlElement> {
+  let offset = start;
+  while (offset < end) {
+    const header = readEbmlHeader(data, offset);
+    if (!header) return;
+    const contentStart = offset + header.headerLength;
+    const contentEnd = header.size === null ? end : Math.min(end, contentStart + header.size);
+    yield { id: header.id, start: contentStart, end: contentEnd, unknownSize: header.size === null };
+    offset = contentEnd;
+  }
+}
+
+const ebmlUint = (data: Uint8Array, el: EbmlElement) => {
+  let value = 0;
+  for (let i = el.start; i < el.end; i++) value = value * 256 + data[i];
+  return value;
+};
+const ebmlFloat = (data: Uint8Array, el: EbmlElement) => {
+  const dv = view(data);
+  if (el.end - el.start === 4) return dv.getFloat32(el.start);
+  if (el.end - el.start === 8) return dv.getFloat64(el.start);
+  return 0;
+};
+const ebmlString = (data: Uint8Array, el: EbmlElement) =>
+  new TextDecoder().decode(data.subarray(el.start, el.end)).replace(/\0+$/, '');
+
+function readMatroskaTrack(data: Uint8Array, entry: EbmlElement, index: number): ContainerStream {
+  const stream: ContainerStream = { index, kind: 'data', codec: 'unknown', isDefault: true, isForced: false };
+  let language = 'eng';
+  for (const el of ebmlElements(data, entry.start, entry.end)) {
+    switch (el.id) {
+      case EBML.trackType: stream.kind = MATROSKA_TRACK_TYPES[ebmlUint(data, el)] ?? 'data'; break;
+      case EBML.codecId: {
+        const codecId = ebmlString(data, el);
+        stream.codec = MATROSKA_CODECS[codecId] ?? codecId.replace(/^[VAS]_/, '').toLowerCase();
+        break;
+      }
+      case EBML.name: stream.title = ebmlString(data, el); break;
+      case EBML.language: language = ebmlString(data, el); break;
+      case EBML.flagDefault: stream.isDefault = ebmlUint(data, el) === 1; break;
+      case EBML.flagForced: stream.isForced = ebmlUint(data, el) === 1; break;
+      case EBML.defaultDuration: {
+        const nanoseconds = ebmlUint(data, el);
+        if (nanoseconds > 0) stream.frameRate = roundRate(1e9 / nanoseconds);
+        break;
+      }
+      case EBML.video:
+        for (const child of ebmlElements(data, el.start, el.end)) {
+          if (child.id === EBML.pixelWidth) stream.width = ebmlUint(data, child);
+          if (child.id === EBML.pixelHeight) stream.height = ebmlUint(data, child);
+        }
+        break;
+      case EBML.audio:
+        for (const child of ebmlElements(data, el.start, el.end)) {
+          if (child.id === EBML.samplingFrequency) stream.sampleRate = Math.round(ebmlFloat(data, child));
+          if (child.id === EBML.channels) stream.channels = ebmlUint(data, child);
+        }
+        break;
+    }
+  }
+  if (language !== 'und') stream.language = language;
+  // Only video and audio have a meaningful frame rate
+  if (stream.kind !== 'video') delete stream.frameRate;
+  return stream;
+}
+
+async function probeMatroska(file: Blob): Promise<ContainerProbe | null> {
+  const head = await readBytes(file, 0, 64);
+  const ebmlHeader = readEbmlHeader(head, 0);
+  if (!ebmlHeader || ebmlHeader.id !== EBML.header || ebmlHeader.size === null) return null;
+  let docType = 'matroska';
+  for (const el of ebmlElements(head, ebmlHeader.headerLength, Math.min(head.length, ebmlHeader.headerLength + ebmlHeader.size))) {
+    if (el.id === EBML.docType) docType = ebmlString(head, el);
+  }
+  if (docType !== 'matroska' && docType !== 'webm') return null;
+
+  const segmentOffset = ebmlHeader.headerLength + ebmlHeader.size;
+  const segmentHeader = readEbmlHeader(await readBytes(file, segmentOffset, 12), 0);
+  if (!segmentHeader || segmentHeader.id !== EBML.segment) return null;
+  const segmentStart = segmentOffset + segmentHeader.headerLength;
+  const segmentEnd = segmentHeader.size === null ? file.size : Math.min(file.size, segmentStart + segmentHeader.size);
+
+  const readElement = async (offset: number) => {
+    const header = readEbmlHeader(await readBytes(file, offset, 12), 0);
+    if (!header || header.size === null || header.size > MAX_HEADER_BYTES) return null;
+    return { id: header.id, content: await readBytes(file, offset + header.headerLength, header.size) };
+  };
+
+  // Info and Tracks normally come before the first Cluster; if not, the
+  // SeekHead says where they are
+  let info: Uint8Array | null = null;
+  let tracks: Uint8Array | null = null;
+  const seekPositions = new Map<number, number>();
+  let offset = segmentStart;
+  while (offset < segmentEnd && !(info && tracks)) {
+    const header = readEbmlHeader(await readBytes(file, offset, 12), 0);
+    if (!header || header.id === EBML.cluster || header.size === null) break;
+    if (header.id === EBML.info || header.id === EBML.tracks || header.id === EBML.seekHead) {
+      const element = await readElement(offset);
+      if (!element) return null;
+      if (header.id === EBML.info) info = element.content;
+      else if (header.id === EBML.tracks) tracks = element.content;
+      else {
+        for (const seek of ebmlElements(element.content)) {
+          if (seek.id !== EBML.seek) continue;
+          let id = 0;
+          let position = -1;
+          for (const el of ebmlElements(element.content, seek.start, seek.end)) {
+            if (el.id === EBML.seekId) id = ebmlUint(element.content, el);
+            if (el.id === EBML.seekPosition) position = ebmlUint(element.content, el);
+          }
+          if (position >= 0) seekPositions.set(id, segmentStart + position);
+        }
+      }
+    }
+    offset += header.headerLength + header.size;
+  }
+  if (!info && seekPositions.has(EBML.info)) info = (await readElement(seekPositions.get(EBML.info)!))?.content ?? null;
+  if (!tracks && seekPositions.has(EBML.tracks)) tracks = (await readElement(seekPositions.get(EBML.tracks)!))?.content ?? null;
+  if (!info) return null;
+
+  let timestampScale = 1_000_000;
+  let duration = 0;
+  for (const el of ebmlElements(info)) {
+    if (el.id === EBML.timestampScale) timestampScale = ebmlUint(info, el);
+    if (el.id === EBML.duration) duration = ebmlFloat(info, el);
+  }
+  // Live recordings (e.g. MediaRecorder WebM) have no duration
+  if (!duration) return null;
+
+  const streams: ContainerStream[] = [];
+  if (tracks) {
+    for (const el of ebmlElements(tracks)) {
+      if (el.id === EBML.trackEntry) streams.push(readMatroskaTrack(tracks, el, streams.length));
+    }
+  }
+  return { format: 'matroska', durationMs: Math.round((duration * timestampScale) / 1e6), streams };
+}
+
+// ── WAV ──
+
+async function probeWav(file: Blob): Promise<ContainerProbe | null> {
+  let offset = 12;
+  let fmt: DataView | null = null;
+  while (offset + 8 <= file.size) {
+    const header = await readBytes(file, offset, 8);
+    const id = ascii(header, 0, 4);
+    const size = view(header).getUint32(4, true);
+    if (id === 'fmt ') {
+      fmt = view(await readBytes(file, offset + 8, Math.min(size, 40)));
+    } else if (id === 'data') {
+      if (!fmt || fmt.byteLength < 16) return null;
+      const formatTag = fmt.getUint16(0, true);
+      const channels = fmt.getUint16(2, true);
+      const sampleRate = fmt.getUint32(4, true);
+      const byteRate = fmt.getUint32(8, true);
+      const bits = fmt.getUint16(14, true);
+      if (!byteRate) return null;
+      // Streamed recordings may leave the size unset or too large
+      const dataSize = Math.min(size, file.size - offset - 8);
+      const durationMs = Math.round((dataSize / byteRate) * 1000);
+      const codec = formatTag === 3 ? `pcm_f${bits}le` : formatTag === 1 || formatTag === 0xfffe ? (bits === 8 ? 'pcm_u8' : `pcm_s${bits}le`) : 'wav';
+      return {
+        format: 'wav',
+        durationMs,
+        streams: [{ index: 0, kind: 'audio', codec, durationMs, channels, sampleRate, isDefault: true, isForced: false }],
+      };
+    }
+    offset += 8 + size + (size % 2);
+  }
+  return null;
+}
+
+// ── FLAC ──
+
+/** Size of an ID3v2 tag at the start, which MP3 and FLAC files may carry */
+function id3Size(head: Uint8Array): number {
+  if (ascii(head, 0, 3) !== 'ID3' || head.length < 10) return 0;
+  const size = ((head[6] & 0x7f) << 21) | ((head[7] & 0x7f) << 14) | ((head[8] & 0x7f) << 7) | (head[9] & 0x7f);
+  const hasFooter = (head[5] & 0x10) !== 0;
+  return 10 + size + (hasFooter ? 10 : 0);
+}
+
+async function probeFlac(file: Blob, start: number): Promise<ContainerProbe | null> {
+  // STREAMINFO is always the first metadata block
+  const data = await readBytes(file, start, 4 + 4 + 34);
+  if (ascii(data, 0, 4) !== 'fLaC' || (data[4] & 0x7f) !== 0 || data.length < 42) return null;
+  const info = data.subarray(8);
+  const sampleRate = (info[10] << 12) | (info[11] << 4) | (info[12] >> 4);
+  const channels = ((info[12] >> 1) & 0x07) + 1;
+  const totalSamples = (info[13] & 0x0f) * 2 ** 32 + view(info).getUint32(14);
+  if (!sampleRate || !totalSamples) return null;
+  const durationMs = Math.round((totalSamples / sampleRate) * 1000);
+  return {
+    format: 'flac',
+    durationMs,
+    streams: [{ index: 0, kind: 'audio', codec: 'flac', durationMs, channels, sampleRate, isDefault: true, isForced: false }],
+  };
+}
+
+// ── MP3 ──
+
+const MP3_BITRATES: Record<string, number[]> = {
+  // kb/s by bitrate index for MPEG-1 and MPEG-2/2.5, per layer
+  '1-1': [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+  '1-2': [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+  '1-3': [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  '2-1': [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+  '2-2': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  '2-3': [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+};
+const MP3_SAMPLE_RATES = [44100, 48000, 32000];
+
+interface Mp3Frame {
+  isMpeg1: boolean;
+  layer: number;
+  bitrate: number;
+  sampleRate: number;
+  channels: number;
+  samplesPerFrame: number;
+  length: number;
+}
+
+function readMp3Frame(data: Uint8Array, offset: number): Mp3Frame | null {
+  if (offset + 4 > data.length || data[offset] !== 0xff || (data[offset + 1] & 0xe0) !== 0xe0) return null;
+  const versionBits = (data[offset + 1] >> 3) & 0x03;
+  const layerBits = (data[offset + 1] >> 1) & 0x03;
+  const bitrateIndex = data[offset + 2] >> 4;
+  const rateIndex = (data[offset + 2] >> 2) & 0x03;
+  if (versionBits === 1 || layerBits === 0 || bitrateIndex === 0 || bitrateIndex === 15 || rateIndex === 3) return null;
+
+  const isMpeg1 = versionBits === 3;
+  const layer = 4 - layerBits;
+  const bitrate = MP3_BITRATES[`${isMpeg1 ? 1 : 2}-${layer}`][bitrateIndex];
+  const sampleRate = MP3_SAMPLE_RATES[rateIndex] / (isMpeg1 ? 1 : versionBits === 2 ? 2 : 4);
+  const padding = (data[offset + 2] >> 1) & 0x01;
+  const samplesPerFrame = layer === 1 ? 384 : layer === 3 && !isMpeg1 ? 576 : 1152;
+  const length = layer === 1
+    ? (Math.floor((12 * bitrate * 1000) / sampleRate) + padding) * 4
+    : Math.floor((samplesPerFrame / 8) * bitrate * 1000 / sampleRate) + padding;
+  const channels = (data[offset + 3] >> 6) === 3 ? 1 : 2;
+  return { isMpeg1, layer, bitrate, sampleRate, channels, samplesPerFrame, length };
+}
+
+async function probeMp3(file: Blob, start: number): Promise<ContainerProbe | null> {
+  const data = await readBytes(file, start, MP3_SYNC_SEARCH_BYTES);
+  // A frame only counts when the next one follows right after it, which
+  // rules out stray 0xFF bytes in padding or foreign data
+  let frameOffset = -1;
+  let frame: Mp3Frame | null = null;
+  for (let i = 0; i + 4 <= data.length; i++) {
+    const candidate = readMp3Frame(data, i);
+    if (candidate && (i + candidate.length + 4 > data.length || readMp3Frame(data, i + candidate.length))) {
+      frameOffset = i;
+      frame = candidate;
+      break;
+    }
+  }
+  if (!frame) return null;
+
+  // VBR files carry the frame count in a Xing/Info or VBRI header inside the first frame
+  const sideInfo = frame.isMpeg1 ? (frame.channels === 1 ? 17 : 32) : (frame.channels === 1 ? 9 : 17);
+  const dv = view(data);
+  let frameCount = 0;
+  const xing = frameOffset + 4 + sideInfo;
+  const vbri = frameOffset + 4 + 32;
+  if (xing + 12 <= data.length && ['Xing', 'Info'].includes(ascii(data, xing, 4)) && (dv.getUint32(xing + 4) & 1)) {
+    frameCount = dv.getUint32(xing + 8);
+  } else if (vbri + 18 <= data.length && ascii(data, vbri, 4) === 'VBRI') {
+    frameCount = dv.getUint32(vbri + 14);
+  }
+
+  let durationMs: number;
+  if (frameCount > 0) {
+    durationMs = (frameCount * frame.samplesPerFrame / frame.sampleRate) * 1000;
+  } else {
+    // Constant bitrate: audio bytes over the rate, minus an ID3v1 tag at the end
+    const tail = await readBytes(file, Math.max(0, file.size - 128), 128);
+    const audioBytes = file.size - start - frameOffset - (ascii(tail, 0, 3) === 'TAG' ? 128 : 0);
+    durationMs = (audioBytes * 8) / frame.bitrate;
+  }
+  durationMs = Math.round(durationMs);
+
+  return {
+    format: 'mp3',
+    durationMs,
+    streams: [{
+      index: 0, kind: 'audio', codec: frame.layer === 3 ? 'mp3' : `mp${frame.layer}`, durationMs,
+      channels: frame.channels, sampleRate: frame.sampleRate, isDefault: true, isForced: false,
+    }],
+  };
+}
+
+// ── Ogg ──
+
+interface OggStream {
+  serial: number;
+  stream: ContainerStream;
+  /** Granule positions per second, and samples to drop at the start */
+  granuleRate?: number;
+  preSkip: number;
+}
+
+function readOggStream(packet: Uint8Array, serial: number, index: number): OggStream {
+  const dv = view(packet);
+  const base = { index, isDefault: true, isForced: false };
+  if (ascii(packet, 0, 8) === 'OpusHead') {
+    // Opus granules always count 48 kHz samples
+    return {
+      serial,
+      stream: { ...base, kind: 'audio', codec: 'opus', channels: packet[9], sampleRate: 48000 },
+      granuleRate: 48000,
+      preSkip: dv.getUint16(10, true),
+    };
+  }
+  if (packet[0] === 0x01 && ascii(packet, 1, 6) === 'vorbis') {
+    const sampleRate = dv.getUint32(12, true);
+    return { serial, stream: { ...base, kind: 'audio', codec: 'vorbis', channels: packet[11], sampleRate }, granuleRate: sampleRate, preSkip: 0 };
+  }
+  if (packet[0] === 0x7f && ascii(packet, 1, 4) === 'FLAC' && ascii(packet, 9, 4) === 'fLaC') {
+    const info = packet.subarray(17);
+    const sampleRate = (info[10] << 12) | (info[11] << 4) | (info[12] >> 4);
+    return {
+      serial,
+      stream: { ...base, kind: 'audio', codec: 'flac', channels: ((info[12] >> 1) & 0x07) + 1, sampleRate },
+      granuleRate: sampleRate,
+      preSkip: 0,
+    };
+  }
+  if (ascii(packet, 0, 8) === 'Speex   ') {
+    const sampleRate = dv.getUint32(36, true);
+    return { serial, stream: { ...base, kind: 'audio', codec: 'speex', sampleRate }, granuleRate: sampleRate, preSkip: 0 };
+  }
+  if (packet[0] === 0x80 && ascii(packet, 1, 6) === 'theora') {
+    return { serial, stream: { ...base, kind: 'video', codec: 'theora' }, preSkip: 0 };
+  }
+  return { serial, stream: { ...base, kind: 'data', codec: 'unknown' }, preSkip: 0 };
+}
+
+interface OggPage {
+  offset: number;
+  granule: number;
+  serial: number;
+  isFirst: boolean;
+  /** Start and length of the page body */
+  bodyStart: number;
+  bodyLength: number;
+}
+
+function readOggPage(data: Uint8Array, offset: number): OggPage | null {
+  if (offset + 27 > data.length || ascii(data, offset, 4) !== 'OggS') return null;
+  const dv = view(data);
+  const segments = data[offset + 26];
+  if (offset + 27 + segments > data.length) return null;
+  let bodyLength = 0;
+  for (let i = 0; i < segments; i++) bodyLength += data[offset + 27 + i];
+  const granuleHigh = dv.getInt32(offset + 10, true);
+  return {
+    offset,
+    // -1 marks pages where no packet ends
+    granule: granuleHigh === -1 ? -1 : granuleHigh * 2 ** 32 + dv.getUint32(offset + 6, true),
+    serial: dv.getUint32(offset + 14, true),
+    isFirst: (data[offset + 5] & 0x02) !== 0,
+    bodyStart: offset + 27 + segments,
+    bodyLength,
+  };
+}
+
+async function probeOgg(file: Blob): Promise<ContainerProbe | null> {
+  // Each stream starts with a "beginning of stream" page, all at the front
+  const head = await readBytes(file, 0, 64 * 1024);
+  const streams: OggStream[] = [];
+  for (let page = readOggPage(head, 0); page && page.isFirst; page = readOggPage(head, page.bodyStart + page.bodyLength)) {
+    const body = head.subarray(page.bodyStart, page.bodyStart + page.bodyLength);
+    streams.push(readOggStream(body, page.serial, streams.length));
+  }
+  if (streams.length === 0) return null;
+
+  // The last page of each stream has its final granule position
+  const tailStart = Math.max(0, file.size - OGG_TAIL_BYTES);
+  const tail = await readBytes(file, tailStart, OGG_TAIL_BYTES);
+  const lastGranule = new Map<number, number>();
+  for (let i = 0; i + 27 <= tail.length; i++) {
+    const page = readOggPage(tail, i);
+    if (!page) continue;
+    if (page.granule >= 0) lastGranule.set(page.serial, page.granule);
+    i = page.bodyStart + page.bodyLength - 1;
+  }
+
+  for (const { serial, stream, granuleRate, preSkip } of streams) {
+    const granule = lastGranule.get(serial);
+    if (granuleRate && granule !== undefined) {
+      stream.durationMs = Math.round((Math.max(0, granule - preSkip) / granuleRate) * 1000);
+    }
+  }
+  const durationMs = Math.max(0, ...streams.map(s => s.stream.durationMs ?? 0));
+  if (!durationMs) return null;
+  return { format: 'ogg', durationMs, streams: streams.map(s => s.stream) };
+}
+
+/**
+ * Identifies the container by its first bytes and reads its duration and
+ * streams. Null means the format isn't one of MP4/MOV, Matroska/WebM,
+ * WAV, FLAC, MP3 or Ogg, or its headers didn't give a duration.
+ */
+export async function probeContainer(file: Blob): Promise<ContainerProbe | null> {
+  try {
+    const head = await readBytes(file, 0, 16);
+    if (head.length < 12) return null;
+
+    if (MP4_TOP_LEVEL_BOXES.includes(ascii(head, 4, 4))) return await probeMp4(file);
+    if (view(head).getUint32(0) === EBML.header) return await probeMatroska(file);
+    if (ascii(head, 0, 4) === 'RIFF' && ascii(head, 8, 4) === 'WAVE') return await probeWav(file);
+    if (ascii(head, 0, 4) === 'OggS') return await probeOgg(file);
+    if (ascii(head, 0, 4) === 'fLaC') return await probeFlac(file, 0);
+
+    const tagged = id3Size(head);
+    if (tagged > 0) {
+      const afterTag = await readBytes(file, tagged, 4);
+      if (ascii(afterTag, 0, 4) === 'fLaC') return await probeFlac(file, tagged);
+      return await probeMp3(file, tagged);
+    }
+    if (readMp3Frame(head, 0)) return await probeMp3(file, 0);
+    return null;
+  } catch {
+    // Truncated or malformed headers; ffmpeg is more forgiving
+    return null;
+  }
+}
+
+/**
+ * The stream as the file info panel shows ffmpeg's findings
+ */
+export function toStreamDetails(stream: ContainerStream): MediaStreamDetails {
+  const { durationMs: _durationMs, ...details } = stream;
+  return { ...details, tags: {} };
+}
+
+/**
+ * Audio streams in the form the track pickers use
+ */
+export function toAudioStreams(probe: ContainerProbe): AudioStreamInfo[] {
+  return probe.streams
+    .filter(stream => stream.kind === 'audio')
+    .map(({ index, language, title, codec, channels, sampleRate, isDefault }) => ({
+      index, language, title, codec, channels, sampleRate, isDefault,
+    }));
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { detectEncoding, decodeBytes, getEncodingLabel } from './encodingDetector';
+
+// TextEncoder only writes UTF-8, so build legacy bytes by inverting TextDecoder
+function encode(text: string, encoding: string): Uint8Array {
+  const decoder = new TextDecoder(encoding);
+  const table = new Map<string, number[]>();
+  for (let b = 0x80; b <= 0xff; b++) {
+    const ch = decoder.decode(new Uint8Array([b]));
+    if (ch.length === 1 && ch !== '�' && !table.has(ch)) table.set(ch, [b]);
+  }
+  const bytes: number[] = [];
+  for (const ch of text) {
+    if (ch.charCodeAt(0) < 0x80) {
+      bytes.push(ch.charCodeAt(0));
+      continue;
+    }
+    if (!table.has(ch)) {
+      for (let lead = 0x81; lead <= 0xfe && !table.has(ch); lead++) {
+        for (let trail = 0x40; trail <= 0xfe; trail++) {
+          if (decoder.decode(new Uint8Array([lead, trail])) === ch) {
+            table.set(ch, [lead, trail]);
+            break;
+          }
+        }
+      }
+    }
+    const encoded = table.get(ch);
+    if (!encoded) throw new Error(`Cannot encode ${ch} as ${encoding}`);
+    bytes.push(...encoded);
+  }
+  return new Uint8Array(bytes);
+}
+
+const srt = (text: string) => `1\n00:00:01,000 --> 00:00:03,000\n${text}\n\n2\n00:00:04,000 --> 00:00:06,000\n${text}\n`;
+
+describe('detectEncoding', () => {
+  it('trusts byte-order marks', () => {
+    expect(detectEncoding(new Uint8Array([0xef, 0xbb, 0xbf, 0x41]))).toEqual({ encoding: 'utf-8', confidence: 'high', bom: true });
+    expect(detectEncoding(new Uint8Array([0xff, 0xfe, 0x41, 0x00])).encoding).toBe('utf-16le');
+    expect(detectEncoding(new Uint8Array([0xfe, 0xff, 0x00, 0x41])).encoding).toBe('utf-16be');
+  });
+
+  it('spots UTF-16 without a BOM', () => {
+    const le = new Uint8Array(Array.from('Hello world').flatMap(c => [c.charCodeAt(0), 0]));
+    expect(detectEncoding(le).encoding).toBe('utf-16le');
+  });
+
+  it('detects plain ASCII and UTF-8', () => {
+    expect(detectEncoding(new TextEncoder().encode(srt('Hello'))).encoding).toBe('utf-8');
+    expect(detectEncoding(new TextEncoder().encode(srt('Größe und Café'))).encoding).toBe('utf-8');
+  });
+
+  it('tells Western from Central European code pages', () => {
+    expect(detectEncoding(encode(srt('C\'est très bien, à bientôt. Qué pasó?'), 'windows-1252')).encoding).toBe('windows-1252');
+    expect(detectEncoding(encode(srt('Zażółć gęślą jaźń, powiedział.'), 'windows-1250')).encoding).toBe('windows-1250');
+    expect(detectEncoding(encode(srt('Příliš žluťoučký kůň úpěl ďábelské ódy.'), 'windows-1250')).encoding).toBe('windows-1250');
+  });
+
+  it('detects Cyrillic Windows-1251', () => {
+    expect(detectEncoding(encode(srt('Привет, как у тебя дела? Всё хорошо.'), 'windows-1251')).encoding).toBe('windows-1251');
+  });
+
+  it('detects GBK and Big5', () => {
+    expect(detectEncoding(encode(srt('我们的是不这个说。我们的是不这个说。'), 'gbk')).encoding).toBe('gbk');
+    expect(detectEncoding(encode(srt('我們的是不這個說。我們的是不這個說。'), 'big5')).encoding).toBe('big5');
+  });
+
+  it('handles files longer than the sample wherever it cuts a character', () => {
+    const cyrillic = srt('Привет, как у тебя дела? Всё хорошо. '.repeat(6)).repeat(200);
+    const chinese = srt('我们的是不这个说。我们的是不这个说。').repeat(1200);
+    for (const padding of ['', 'x', 'xx', 'xxx']) {
+      const utf8 = new TextEncoder().encode(padding + cyrillic);
+      expect(utf8.length).toBeGreaterThan(64 * 1024);
+      expect(detectEncoding(utf8).encoding).toBe('utf-8');
+      expect(detectEncoding(encode(padding + chinese, 'gbk')).encoding).toBe('gbk');
+    }
+  });
+});
+
+describe('decodeBytes', () => {
+  it('decodes legacy bytes and drops the BOM', () => {
+    expect(decodeBytes(encode('gęślą', 'windows-1250'), 'windows-1250')).toBe('gęślą');
+    expect(decodeBytes(new Uint8Array([0xef, 0xbb, 0xbf, 0x41]), 'utf-8')).toBe('A');
+  });
+
+  it('labels encodings', () => {
+    expect(getEncodingLabel('windows-1250')).toBe('Windows-1250 (Central European)');
+    expect(getEncodingLabel('koi8-r')).toBe('KOI8-R');
+  });
+});
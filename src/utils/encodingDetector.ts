@@ -0,0 +1,194 @@
+// Character-encoding sniffing for subtitle files. Checks for a BOM, then
+// UTF-16 zero-byte patterns, strict UTF-8, Chinese double-byte encodings and
+// finally scores the common legacy single-byte code pages.
+
+export interface EncodingOption {
+  id: string;
+  label: string;
+}
+
+export interface EncodingDetectionResult {
+  encoding: string;
+  confidence: 'high' | 'medium' | 'low';
+  bom: boolean;
+}
+
+export const SUPPORTED_ENCODINGS: EncodingOption[] = [
+  { id: 'utf-8', label: 'UTF-8' },
+  { id: 'utf-16le', label: 'UTF-16 LE' },
+  { id: 'utf-16be', label: 'UTF-16 BE' },
+  { id: 'windows-1250', label: 'Windows-1250 (Central European)' },
+  { id: 'windows-1251', label: 'Windows-1251 (Cyrillic)' },
+  { id: 'windows-1252', label: 'Windows-1252 (Western)' },
+  { id: 'iso-8859-2', label: 'ISO-8859-2 (Latin-2)' },
+  { id: 'iso-8859-15', label: 'ISO-8859-15 (Latin-9)' },
+  { id: 'big5', label: 'Big5 (Traditional Chinese)' },
+  { id: 'gbk', label: 'GBK (Simplified Chinese)' },
+];
+
+export const getEncodingLabel = (id: string): string =>
+  SUPPORTED_ENCODINGS.find(e => e.id === id)?.label || id.toUpperCase();
+
+/** Only the head of the file is sampled; subtitles repeat the same alphabet */
+const SAMPLE_BYTES = 64 * 1024;
+
+function detectBom(bytes: Uint8Array): string | null {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+  return null;
+}
+
+function detectUtf16(sample: Uint8Array): string | null {
+  // ASCII-heavy UTF-16 has a zero in every other byte
+  let evenZeros = 0;
+  let oddZeros = 0;
+  const pairs = Math.floor(sample.length / 2);
+  for (let i = 0; i < pairs * 2; i += 2) {
+    if (sample[i] === 0) evenZeros++;
+    if (sample[i + 1] === 0) oddZeros++;
+  }
+  if (pairs < 2) return null;
+  if (oddZeros / pairs > 0.3 && evenZeros / pairs < 0.05) return 'utf-16le';
+  if (evenZeros / pairs > 0.3 && oddZeros / pairs < 0.05) return 'utf-16be';
+  return null;
+}
+
+/**
+ * Strict decode; with `truncated` a character cut off at the end of the
+ * sample is left pending instead of failing the decode
+ */
+function tryDecode(bytes: Uint8Array, encoding: string, truncated = false): string | null {
+  try {
+    return new TextDecoder(encoding, { fatal: true }).decode(bytes, { stream: truncated });
+  } catch {
+    return null;
+  }
+}
+
+// High-frequency characters shared by both Chinese scripts, plus characters
+// whose form differs between Simplified and Traditional
+const CHINESE_COMMON = '的一是不了人我在有他你她好就也都要去到着和那么什没看想知道吧呢啊吗';
+const SIMPLIFIED_ONLY = '这们个说来时为会对国过还发现样经问见从头东车长无开关门马话间让给实进该书钱应体电视听认觉';
+const TRADITIONAL_ONLY = '這們個說來時為會對國過還發現樣經問見從頭東車長無開關門馬話間讓給實進該書錢應體電視聽認覺';
+
+function chineseScore(text: string, markers: string): number {
+  let score = 0;
+  for (const ch of text) {
+    if (CHINESE_COMMON.includes(ch) || markers.includes(ch)) score++;
+  }
+  return score;
+}
+
+function detectChinese(sample: Uint8Array, highBytes: number): string | null {
+  if (highBytes / sample.length < 0.15) return null;
+
+  const truncated = sample.length === SAMPLE_BYTES;
+  const candidates = [
+    { encoding: 'gbk', text: tryDecode(sample, 'gbk', truncated), markers: SIMPLIFIED_ONLY },
+    { encoding: 'big5', text: tryDecode(sample, 'big5', truncated), markers: TRADITIONAL_ONLY },
+  ]
+    .filter(c => c.text !== null)
+    .map(c => {
+      const ideographs = (c.text!.match(/[一-鿿]/g) || []).length;
+      return { encoding: c.encoding, ideographs, score: chineseScore(c.text!, c.markers) };
+    })
+    // Random byte pairs also decode to ideographs; real text hits common characters
+    .filter(c => c.ideographs > 0 && c.score >= Math.max(3, c.ideographs * 0.05))
+    .sort((a, b) => b.score - a.score);
+
+  return candidates.length > 0 ? candidates[0].encoding : null;
+}
+
+interface SingleByteCandidate {
+  encoding: string;
+  cyrillic: boolean;
+  /** Accented letters that are frequent in the languages this code page serves */
+  common: string;
+}
+
+const SINGLE_BYTE_CANDIDATES: SingleByteCandidate[] = [
+  { encoding: 'windows-1252', cyrillic: false, common: 'àáâäãåæçèéêëíîïñóôõöøùúûüßœÀÁÂÄÃÅÆÇÈÉÊËÍÎÏÑÓÔÕÖØÙÚÛÜŒ' },
+  { encoding: 'windows-1250', cyrillic: false, common: 'áäéíóôúýčďěňřšťůžąćęłńśźżőűöüÁÄÉÍÓÔÚÝČĎĚŇŘŠŤŮŽĄĆĘŁŃŚŹŻŐŰÖÜ' },
+  { encoding: 'iso-8859-2', cyrillic: false, common: 'áäéíóôúýčďěňřšťůžąćęłńśźżőűöüÁÄÉÍÓÔÚÝČĎĚŇŘŠŤŮŽĄĆĘŁŃŚŹŻŐŰÖÜ' },
+  { encoding: 'windows-1251', cyrillic: true, common: '' },
+];
+
+const isAsciiLetter = (ch: string | undefined) => !!ch && /[A-Za-z]/.test(ch);
+
+/**
+ * Scores how plausible a decoding looks: frequent accented letters score
+ * high, symbols glued to words and control characters score negative
+ */
+function scoreSingleByte(text: string, candidate: SingleByteCandidate): number {
+  let score = 0;
+  const chars = Array.from(text);
+  for (let i = 0; i < chars.length; i++) {
+    const ch = chars[i];
+    if (ch.charCodeAt(0) < 0x80) continue;
+    const prev = chars[i - 1];
+    const next = chars[i + 1];
+    const insideWord = isAsciiLetter(prev) || isAsciiLetter(next);
+
+    if (/[\u0080-\u009f�]/.test(ch)) {
+      score -= 5;
+    } else if (candidate.cyrillic && /[Ѐ-ӿ]/.test(ch)) {
+      // Cyrillic letters don't share words with Latin ones
+      score += insideWord ? -2 : 2;
+    } else if (/\p{L}/u.test(ch)) {
+      if (ch === ch.toLowerCase() && next && /[A-Z]/.test(next)) score -= 2;
+      else score += candidate.common.includes(ch) ? 2 : 0.5;
+    } else if (insideWord) {
+      score -= 3;
+    }
+  }
+  return score;
+}
+
+/**
+ * Detects the character encoding of raw file bytes
+ */
+export function detectEncoding(bytes: Uint8Array): EncodingDetectionResult {
+  const bom = detectBom(bytes);
+  if (bom) return { encoding: bom, confidence: 'high', bom: true };
+
+  const sample = bytes.subarray(0, SAMPLE_BYTES);
+
+  const utf16 = detectUtf16(sample);
+  if (utf16) return { encoding: utf16, confidence: 'medium', bom: false };
+
+  let highBytes = 0;
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] >= 0x80) highBytes++;
+  }
+  if (highBytes === 0) return { encoding: 'utf-8', confidence: 'high', bom: false };
+
+  // Strict UTF-8 almost never validates by accident; the sample may end
+  // mid-character when the file is longer
+  if (tryDecode(sample, 'utf-8', sample.length === SAMPLE_BYTES) !== null) {
+    return { encoding: 'utf-8', confidence: 'high', bom: false };
+  }
+
+  const chinese = detectChinese(sample, highBytes);
+  if (chinese) return { encoding: chinese, confidence: 'medium', bom: false };
+
+  let best = SINGLE_BYTE_CANDIDATES[0];
+  let bestScore = -Infinity;
+  for (const candidate of SINGLE_BYTE_CANDIDATES) {
+    const text = new TextDecoder(candidate.encoding).decode(sample);
+    const score = scoreSingleByte(text, candidate);
+    if (score > bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+  return { encoding: best.encoding, confidence: 'low', bom: false };
+}
+
+/**
+ * Decodes bytes to a string, dropping any byte-order mark
+ */
+export function decodeBytes(bytes: Uint8Array, encoding: string): string {
+  const text = new TextDecoder(encoding).decode(bytes);
+  return text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { getCoreSources, getCoreFiles, getCoreIntegrity, verifyIntegrity } from './ffmpegCore';
+
+const baseURI = 'https://example.com/app/index.html';
+
+describe('getCoreSources', () => {
+  it('prefers the bundled core over the CDN', () => {
+    expect(getCoreSources({ multiThread: false, baseURI })).toEqual([
+      { label: 'self-hosted core', corePackage: 'core', baseURL: 'https://example.com/app/ffmpeg/core/' },
+      { label: 'CDN core', corePackage: 'core', baseURL: 'https://unpkg.com/@ffmpeg/core@0.12.6/dist/esm/' },
+    ]);
+  });
+
+  it('tries the multi-threaded core everywhere before the single-threaded one', () => {
+    const sources = getCoreSources({ multiThread: true, baseURI, overrideURL: '/static/{package}' });
+    expect(sources.map(s => s.label)).toEqual([
+      'configured core-mt', 'self-hosted core-mt', 'CDN core-mt',
+      'configured core', 'self-hosted core', 'CDN core',
+    ]);
+    expect(sources[0].baseURL).toBe('https://example.com/static/core-mt/');
+  });
+
+  it('drops an override that points at the bundled copy', () => {
+    const sources = getCoreSources({ multiThread: false, baseURI, overrideURL: './ffmpeg/{package}/' });
+    expect(sources.map(s => s.label)).toEqual(['configured core', 'CDN core']);
+  });
+});
+
+describe('core files', () => {
+  it('pins a hash for every file', () => {
+    for (const pkg of ['core', 'core-mt'] as const) {
+      getCoreFiles(pkg).forEach(file => expect(getCoreIntegrity(pkg, file)).toMatch(/^sha384-/));
+    }
+    expect(getCoreFiles('core-mt')).toContain('ffmpeg-core.worker.js');
+  });
+});
+
+describe('verifyIntegrity', () => {
+  const data = new TextEncoder().encode('abc').buffer as ArrayBuffer;
+
+  it('accepts matching SRI hashes', async () => {
+    expect(await verifyIntegrity(data, 'sha256-ungWv48Bz+pBQUDeXa4iI7ADYaOWF3qctBD/YfIAFa0=')).toBe(true);
+  });
+
+  it('rejects other content', async () => {
+    expect(await verifyIntegrity(data, 'sha256-AAAAv48Bz+pBQUDeXa4iI7ADYaOWF3qctBD/YfIAFa0=')).toBe(false);
+  });
+
+  it('rejects unknown algorithms', async () => {
+    await expect(verifyIntegrity(data, 'md5-xyz')).rejects.toThrow('Unsupported');
+  });
+});
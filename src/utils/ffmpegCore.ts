@@ -0,0 +1,109 @@
+// Where the ffmpeg.wasm core is loaded from. Sources are tried in order: a
+// deployment override, the copy bundled with the app, then the CDN. Every
+// file is checked against the pinned version's hash before it is used.
+import coreConfig from '../config/ffmpegCore.json';
+
+/** Single-threaded core, or the SharedArrayBuffer one for isolated pages */
+export type CorePackage = 'core' | 'core-mt';
+
+export interface CoreSource {
+  /** Shown in logs, e.g. "self-hosted core-mt" */
+  label: string;
+  corePackage: CorePackage;
+  /** Absolute URL of the directory holding the core files, ending in / */
+  baseURL: string;
+}
+
+export interface CoreSourceOptions {
+  multiThread: boolean;
+  /** Relative paths are resolved against this, normally document.baseURI */
+  baseURI: string;
+  /** Deployment-specific location, may contain {package} and {version} */
+  overrideURL?: string;
+}
+
+export const CORE_JS = 'ffmpeg-core.js';
+export const CORE_WASM = 'ffmpeg-core.wasm';
+export const CORE_WORKER = 'ffmpeg-core.worker.js';
+
+const INTEGRITY: Record<CorePackage, Record<string, string>> = coreConfig.integrity;
+
+/** Files a core package consists of; the multi-threaded one adds a worker */
+export const getCoreFiles = (corePackage: CorePackage): string[] =>
+  corePackage === 'core-mt' ? [CORE_JS, CORE_WASM, CORE_WORKER] : [CORE_JS, CORE_WASM];
+
+export const getCoreIntegrity = (corePackage: CorePackage, fileName: string): string | undefined =>
+  INTEGRITY[corePackage]?.[fileName];
+
+function expandURL(template: string, corePackage: CorePackage, baseURI: string): string {
+  const url = template
+    .replace(/\{package\}/g, corePackage)
+    .replace(/\{version\}/g, coreConfig.version);
+  const absolute = new URL(url, baseURI).href;
+  return absolute.endsWith('/') ? absolute : `${absolute}/`;
+}
+
+/**
+ * Lists the places to load the core from, best first. With multi-threading
+ * every location is tried for core-mt before falling back to the
+ * single-threaded core.
+ */
+export function getCoreSources(options: CoreSourceOptions): CoreSource[] {
+  const locations: { name: string; template: string }[] = [];
+  if (options.overrideURL) locations.push({ name: 'configured', template: options.overrideURL });
+  locations.push({ name: 'self-hosted', template: coreConfig.selfHostedPath });
+  locations.push({ name: 'CDN', template: coreConfig.cdnURL });
+
+  const packages: CorePackage[] = options.multiThread ? ['core-mt', 'core'] : ['core'];
+  const sources: CoreSource[] = [];
+  for (const corePackage of packages) {
+    for (const location of locations) {
+      const baseURL = expandURL(location.template, corePackage, options.baseURI);
+      if (sources.some(s => s.baseURL === baseURL)) continue;
+      sources.push({ label: `${location.name} ${corePackage}`, corePackage, baseURL });
+    }
+  }
+  return sources;
+}
+
+function toBase64(buffer: ArrayBuffer): string {
+  let binary = '';
+  const bytes = new Uint8Array(buffer);
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+const SRI_ALGORITHMS: Record<string, string> = { sha256: 'SHA-256', sha384: 'SHA-384', sha512: 'SHA-512' };
+
+/**
+ * Checks data against a Subresource Integrity string such as "sha384-…"
+ */
+export async function verifyIntegrity(data: ArrayBuffer, integrity: string): Promise<boolean> {
+  const dash = integrity.indexOf('-');
+  const algorithm = SRI_ALGORITHMS[integrity.slice(0, dash)];
+  if (dash < 0 || !algorithm) {
+    throw new Error(`Unsupported integrity format: ${integrity}`);
+  }
+  const digest = await crypto.subtle.digest(algorithm, data);
+  return toBase64(digest) === integrity.slice(dash + 1);
+}
+
+/**
+ * Downloads one core file, verifies it and returns a blob URL for it (the
+ * core is loaded from blob URLs so it works cross-origin)
+ */
+export async function fetchCoreFile(source: CoreSource, fileName: string, mimeType: string): Promise<string> {
+  const url = source.baseURL + fileName;
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`${url} returned HTTP ${response.status}`);
+  }
+  const data = await response.arrayBuffer();
+  const integrity = getCoreIntegrity(source.corePackage, fileName);
+  if (integrity && !(await verifyIntegrity(data, integrity))) {
+    throw new Error(`${url} failed the integrity check`);
+  }
+  return URL.createObjectURL(new Blob([data], { type: mimeType }));
+}
@@ -44,6 +44,12 @@ describe('generateFilename', () => {
     expect(generateFilename('{extension}', 'f.mp4', 'en', 'English', 'transcription', 'plain')).toBe('txt');
   });
 
+  it('maps extension for the extended export formats', () => {
+    expect(generateFilename('{extension}', 'f.mp4', 'en', 'English', 'transcription', 'ass')).toBe('ass');
+    expect(generateFilename('{extension}', 'f.mp4', 'en', 'English', 'transcription', 'dfxp')).toBe('dfxp');
+    expect(generateFilename('{extension}', 'f.mp4', 'en', 'English', 'transcription', 'txt')).toBe('txt');
+  });
+
   it('replaces all placeholders in a full pattern', () => {
     const result = generateFilename(pattern, 'movie.mp4', 'en', 'English', 'transcription', 'srt');
     expect(result).toBe('movie_2025-06-15T10-30-45_transcription_srt_en_English.srt');
@@ -1,3 +1,5 @@
+import { getExportExtension } from './subtitleConverter';
+
 // Generate filename using the defaultFilenameFormat pattern
 export const generateFilename = (
   pattern: string,
@@ -8,7 +10,7 @@ export const generateFilename = (
   format: string
 ): string => {
   const fileNameWithoutExt = originalFileName.substring(0, originalFileName.lastIndexOf('.')) || originalFileName;
-  const extension = format === 'srt' ? 'srt' : format === 'vtt' ? 'vtt' : 'txt';
+  const extension = getExportExtension(format);
   const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
 
   return pattern
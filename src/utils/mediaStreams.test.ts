@@ -0,0 +1,189 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseSubtitleStreams, getSubtitleExtractFormat, describeSubtitleStream, toContainerLanguage, buildMuxArgs,
+  parseAudioStreams, getDefaultAudioStream, describeAudioStream, parseMediaProbe, describeStreamDetails, toSubtitleStreams,
+} from './mediaStreams';
+
+const mkvLog = `Input #0, matroska,webm, from 'movie.mkv':
+  Metadata:
+    title           : Movie
+  Duration: 01:42:10.05, start: 0.000000, bitrate: 4500 kb/s
+  Stream #0:0: Video: h264 (High), yuv420p(progressive), 1920x1080, 23.98 fps (default)
+  Stream #0:1(eng): Audio: ac3, 48000 Hz, 5.1(side), fltp, 640 kb/s (default)
+  Stream #0:2(eng): Subtitle: subrip (default)
+    Metadata:
+      title           : English SDH
+      BPS             : 84
+  Stream #0:3(ger): Subtitle: ass (forced)
+  Stream #0:4(und): Subtitle: hdmv_pgs_subtitle, 1920x1080
+At least one output file must be specified`;
+
+describe('parseSubtitleStreams', () => {
+  it('lists subtitle streams with language, title and disposition', () => {
+    expect(parseSubtitleStreams(mkvLog)).toEqual([
+      { index: 2, language: 'eng', title: 'English SDH', codec: 'subrip', isText: true, isDefault: true, isForced: false },
+      { index: 3, language: 'ger', codec: 'ass', isText: true, isDefault: false, isForced: true },
+      { index: 4, language: undefined, codec: 'hdmv_pgs_subtitle', isText: false, isDefault: false, isForced: false },
+    ]);
+  });
+
+  it('handles MP4 stream ids and mov_text', () => {
+    const log = '  Stream #0:2[0x3](fre): Subtitle: mov_text (tx3g / 0x67337874), 0 kb/s (default)';
+    expect(parseSubtitleStreams(log)[0]).toMatchObject({ index: 2, language: 'fre', codec: 'mov_text', isText: true });
+  });
+
+  it('returns nothing for files without subtitles', () => {
+    expect(parseSubtitleStreams('  Stream #0:0: Audio: mp3, 44100 Hz, stereo')).toEqual([]);
+  });
+});
+
+describe('parseAudioStreams', () => {
+  const dualAudioLog = `Input #0, matroska,webm, from 'movie.mkv':
+  Stream #0:0: Video: h264 (High), yuv420p(progressive), 1920x1080, 23.98 fps (default)
+  Stream #0:1(ger): Audio: ac3, 48000 Hz, 5.1(side), fltp, 640 kb/s
+  Stream #0:2(eng): Audio: aac (LC) (mp4a / 0x6134706D), 44100 Hz, stereo, fltp, 128 kb/s (default)
+    Metadata:
+      title           : Director's Commentary
+  Stream #0:3: Audio: opus, 48000 Hz, mono, fltp
+  Stream #0:4(eng): Subtitle: subrip`;
+
+  it('lists audio streams with codec, channels and language', () => {
+    expect(parseAudioStreams(dualAudioLog)).toEqual([
+      { index: 1, language: 'ger', codec: 'ac3', channels: 6, sampleRate: 48000, isDefault: false },
+      { index: 2, language: 'eng', title: "Director's Commentary", codec: 'aac', channels: 2, sampleRate: 44100, isDefault: true },
+      { index: 3, language: undefined, codec: 'opus', channels: 1, sampleRate: 48000, isDefault: false },
+    ]);
+  });
+
+  it('picks the default track, else the first', () => {
+    const streams = parseAudioStreams(dualAudioLog);
+    expect(getDefaultAudioStream(streams)?.index).toBe(2);
+    expect(getDefaultAudioStream(streams.filter(s => !s.isDefault))?.index).toBe(1);
+    expect(getDefaultAudioStream([])).toBeUndefined();
+  });
+
+  it('describes a stream', () => {
+    expect(describeAudioStream(parseAudioStreams(dualAudioLog)[0])).toBe('Track 1 · GER · AC3 · 5.1');
+  });
+});
+
+describe('parseMediaProbe', () => {
+  const log = `[matroska,webm @ 0x1] Could not find codec parameters
+Input #0, matroska,webm, from 'input/input.mkv':
+  Metadata:
+    title           : Movie
+    ENCODER         : Lavf58.76.100
+  Duration: 01:42:10.05, start: 0.000000, bitrate: 4500 kb/s
+  Chapters:
+    Chapter #0:0: start 0.000000, end 312.500000
+      Metadata:
+        title           : Opening
+    Chapter #0:1: start 312.500000, end 6130.050000
+  Stream #0:0: Video: h264 (High), yuv420p(tv, bt709, progressive), 1920x1080 [SAR 1:1 DAR 16:9], 23.98 fps, 23.98 tbr, 1k tbn (default)
+    Metadata:
+      BPS             : 3800000
+  Stream #0:1(ger): Audio: aac (LC) (mp4a / 0x6134706D), 48000 Hz, 5.1(side), fltp, 384 kb/s (default)
+    Metadata:
+      title           : Deutsch
+  Stream #0:2(eng): Subtitle: subrip (forced)
+At least one output file must be specified`;
+
+  const probe = parseMediaProbe(log);
+
+  it('reads the container', () => {
+    expect(probe).toMatchObject({
+      format: 'matroska',
+      duration: 6130.05,
+      bitrate: 4500,
+      tags: { title: 'Movie', ENCODER: 'Lavf58.76.100' },
+    });
+  });
+
+  it('reads chapters', () => {
+    expect(probe.chapters).toEqual([
+      { start: 0, end: 312.5, title: 'Opening' },
+      { start: 312.5, end: 6130.05 },
+    ]);
+  });
+
+  it('reads video, audio and subtitle parameters', () => {
+    expect(probe.streams).toEqual([
+      {
+        index: 0, kind: 'video', codec: 'h264', profile: 'High', language: undefined,
+        width: 1920, height: 1080, frameRate: 23.976, pixelFormat: 'yuv420p',
+        isDefault: true, isForced: false, tags: { BPS: '3800000' },
+      },
+      {
+        index: 1, kind: 'audio', codec: 'aac', profile: 'LC', language: 'ger', title: 'Deutsch',
+        sampleRate: 48000, channelLayout: '5.1(side)', channels: 6, bitrate: 384,
+        isDefault: true, isForced: false, tags: {},
+      },
+      { index: 2, kind: 'subtitle', codec: 'subrip', language: 'eng', isDefault: false, isForced: true, tags: {} },
+    ]);
+  });
+
+  it('keeps exact frame rates as printed', () => {
+    const mp4 = parseMediaProbe(`Input #0, mov,mp4,m4a,3gp,3g2,mj2, from 'a.mp4':
+  Duration: 00:00:10.00, start: 0.000000, bitrate: 900 kb/s
+  Stream #0:0[0x1](und): Video: h264 (Main) (avc1 / 0x31637661), yuv420p, 1280x720, 800 kb/s, 25 fps, 25 tbr, 12800 tbn (default)`);
+    expect(mp4.format).toBe('mov');
+    expect(mp4.streams[0]).toMatchObject({ frameRate: 25, bitrate: 800, width: 1280, language: undefined });
+  });
+
+  it('describes a stream', () => {
+    expect(describeStreamDetails(probe.streams[0])).toBe('Video 0 · h264 (High) · 1920×1080 · 23.976 fps · default');
+  });
+});
+
+describe('subtitle stream helpers', () => {
+  const [srt, ass] = parseSubtitleStreams(mkvLog);
+
+  it('keeps ASS tracks as ASS', () => {
+    expect(getSubtitleExtractFormat(srt)).toBe('srt');
+    expect(getSubtitleExtractFormat(ass)).toBe('ass');
+  });
+
+  it('describes a stream', () => {
+    expect(describeSubtitleStream(srt)).toBe('Track 2 · ENG · English SDH · SRT · default');
+  });
+
+  it('lists the same tracks from probed stream details', () => {
+    expect(toSubtitleStreams(parseMediaProbe(mkvLog).streams)).toEqual(parseSubtitleStreams(mkvLog));
+  });
+});
+
+describe('toContainerLanguage', () => {
+  it('maps API codes to ISO 639-2/B', () => {
+    expect(toContainerLanguage('en')).toBe('eng');
+    expect(toContainerLanguage('pt-BR')).toBe('por');
+    expect(toContainerLanguage('de')).toBe('ger');
+    expect(toContainerLanguage('spa')).toBe('spa');
+    expect(toContainerLanguage('xx')).toBe('und');
+    expect(toContainerLanguage(undefined)).toBe('und');
+  });
+});
+
+describe('buildMuxArgs', () => {
+  const tracks = [
+    { language: 'es', title: 'Spanish', isDefault: true },
+    { language: 'en', isForced: true },
+  ];
+
+  it('copies streams into MKV with language and disposition', () => {
+    expect(buildMuxArgs('in.mkv', ['s0.srt', 's1.ass'], tracks, 'mkv', 'out.mkv')).toEqual([
+      '-i', 'in.mkv', '-i', 's0.srt', '-i', 's1.ass',
+      '-map', '0:v?', '-map', '0:a?', '-map', '1:0', '-map', '2:0',
+      '-c:v', 'copy', '-c:a', 'copy', '-c:s', 'copy',
+      '-metadata:s:s:0', 'language=spa', '-metadata:s:s:0', 'title=Spanish', '-disposition:s:0', 'default',
+      '-metadata:s:s:1', 'language=eng', '-disposition:s:1', 'forced',
+      'out.mkv',
+    ]);
+  });
+
+  it('uses mov_text for MP4', () => {
+    const args = buildMuxArgs('in.mp4', ['s0.srt'], [{ language: 'fr' }], 'mp4', 'out.mp4');
+    expect(args).toContain('mov_text');
+    expect(args.slice(-3)).toEqual(['-movflags', '+faststart', 'out.mp4']);
+    expect(args).toContain('-disposition:s:0');
+  });
+});
@@ -0,0 +1,448 @@
+// Parsing of the stream listing ffmpeg prints for `-i` (there is no
+// ffprobe in the WASM build, so the log is all we get)
+
+export interface SubtitleStreamInfo {
+  /** Absolute stream index, as used by `-map 0:<index>` */
+  index: number;
+  /** ISO 639-2 tag from the container, e.g. "eng" */
+  language?: string;
+  title?: string;
+  codec: string;
+  /** Text tracks can be extracted; bitmap ones (PGS, VobSub) would need OCR */
+  isText: boolean;
+  isDefault: boolean;
+  isForced: boolean;
+}
+
+const TEXT_SUBTITLE_CODECS = ['subrip', 'srt', 'ass', 'ssa', 'mov_text', 'webvtt', 'text', 'ttml', 'microdvd', 'sami', 'realtext', 'subviewer'];
+
+const STREAM_LINE = /^\s*Stream #\d+:(\d+)(?:\[[^\]]*\])?(?:\(([^)]*)\))?:\s*(\w+):\s*([\w-]+)(.*)$/;
+
+/**
+ * Walks the stream lines of one kind, attaching the indented title
+ * metadata that follows each
+ */
+function collectStreams<T extends { title?: string }>(
+  log: string,
+  kind: 'Audio' | 'Subtitle',
+  build: (index: number, language: string | undefined, codec: string, rest: string) => T
+): T[] {
+  const streams: T[] = [];
+  let current: T | null = null;
+
+  for (const line of log.split('\n')) {
+    const stream = line.match(STREAM_LINE);
+    if (stream) {
+      const [, index, language, streamKind, codec, rest] = stream;
+      current = null;
+      if (streamKind !== kind) continue;
+      current = build(parseInt(index, 10), language && language !== 'und' ? language : undefined, codec.toLowerCase(), rest);
+      streams.push(current);
+      continue;
+    }
+    // Metadata lines are indented under their stream
+    const title = line.match(/^\s+title\s*:\s*(.+)$/);
+    if (current && title) current.title = title[1].trim();
+    if (/^\s*(Input|Output) #/.test(line)) current = null;
+  }
+  return streams;
+}
+
+/**
+ * Lists the subtitle streams in ffmpeg's input description
+ */
+export function parseSubtitleStreams(log: string): SubtitleStreamInfo[] {
+  return collectStreams<SubtitleStreamInfo>(log, 'Subtitle', (index, language, codec, rest) => ({
+    index,
+    language,
+    codec,
+    isText: TEXT_SUBTITLE_CODECS.includes(codec),
+    isDefault: /\(default\)/.test(rest),
+    isForced: /\(forced\)/.test(rest),
+  }));
+}
+
+/**
+ * The subtitle streams among already probed ones, so listing them needs no
+ * second pass over the file
+ */
+export function toSubtitleStreams(streams: MediaStreamDetails[]): SubtitleStreamInfo[] {
+  return streams
+    .filter(stream => stream.kind === 'subtitle')
+    .map(({ index, language, title, codec, isDefault, isForced }) => ({
+      index, language, title, codec, isText: TEXT_SUBTITLE_CODECS.includes(codec), isDefault, isForced,
+    }));
+}
+
+export interface AudioStreamInfo {
+  /** Absolute stream index, as used by `-map 0:<index>` */
+  index: number;
+  /** ISO 639-2 tag from the container, e.g. "eng" */
+  language?: string;
+  /** Often names commentary or dub tracks */
+  title?: string;
+  codec: string;
+  channels?: number;
+  sampleRate?: number;
+  isDefault: boolean;
+}
+
+const CHANNEL_LAYOUTS: Record<string, number> = { mono: 1, stereo: 2, quad: 4, hexagonal: 6, octagonal: 8 };
+
+function parseChannels(layout: string): number | undefined {
+  const name = layout.replace(/\(.*\)$/, '');
+  if (CHANNEL_LAYOUTS[name]) return CHANNEL_LAYOUTS[name];
+  // "5.1", "7.1(wide)", "2.1"
+  const surround = name.match(/^(\d+)\.(\d+)$/);
+  if (surround) return parseInt(surround[1], 10) + parseInt(surround[2], 10);
+  const count = name.match(/^(\d+) channels$/);
+  return count ? parseInt(count[1], 10) : undefined;
+}
+
+/**
+ * Lists the audio streams in ffmpeg's input description
+ */
+export function parseAudioStreams(log: string): AudioStreamInfo[] {
+  return collectStreams<AudioStreamInfo>(log, 'Audio', (index, language, codec, rest) => {
+    // ", 48000 Hz, 5.1(side), fltp, 640 kb/s (default)"
+    const fields = rest.split(',').map(field => field.trim());
+    const rateField = fields.findIndex(field => /^\d+ Hz$/.test(field));
+    return {
+      index,
+      language,
+      codec,
+      channels: rateField >= 0 && fields[rateField + 1] ? parseChannels(fields[rateField + 1]) : undefined,
+      sampleRate: rateField >= 0 ? parseInt(fields[rateField], 10) : undefined,
+      isDefault: /\(default\)/.test(rest),
+    };
+  });
+}
+
+/**
+ * The track ffmpeg would pick on its own: the default one, else the first
+ */
+export const getDefaultAudioStream = (streams: AudioStreamInfo[]): AudioStreamInfo | undefined =>
+  streams.find(stream => stream.isDefault) ?? streams[0];
+
+const CHANNEL_LABELS: Record<number, string> = { 1: 'mono', 2: 'stereo', 6: '5.1', 8: '7.1' };
+
+export function describeAudioStream(stream: AudioStreamInfo): string {
+  const parts = [`Track ${stream.index}`];
+  if (stream.language) parts.push(stream.language.toUpperCase());
+  if (stream.title) parts.push(stream.title);
+  parts.push(stream.codec.toUpperCase());
+  if (stream.channels) parts.push(CHANNEL_LABELS[stream.channels] || `${stream.channels} ch`);
+  if (stream.isDefault) parts.push('default');
+  return parts.join(' · ');
+}
+
+export type MediaStreamKind = 'video' | 'audio' | 'subtitle' | 'data' | 'attachment';
+
+export interface MediaStreamDetails {
+  /** Absolute stream index, as used by `-map 0:<index>` */
+  index: number;
+  kind: MediaStreamKind;
+  codec: string;
+  /** Codec profile such as "High" or "LC" */
+  profile?: string;
+  language?: string;
+  title?: string;
+  /** kb/s */
+  bitrate?: number;
+  width?: number;
+  height?: number;
+  /** Frames per second, with ffmpeg's rounded NTSC rates made exact (23.98 → 23.976) */
+  frameRate?: number;
+  pixelFormat?: string;
+  sampleRate?: number;
+  /** As printed, e.g. "5.1(side)" */
+  channelLayout?: string;
+  channels?: number;
+  isDefault: boolean;
+  isForced: boolean;
+  /** Remaining stream metadata, such as BPS or handler_name */
+  tags: Record<string, string>;
+}
+
+export interface MediaChapter {
+  /** Seconds */
+  start: number;
+  end: number;
+  title?: string;
+}
+
+export interface MediaProbe {
+  /** Container, e.g. "matroska" */
+  format?: string;
+  /** Seconds */
+  duration?: number;
+  /** Overall kb/s */
+  bitrate?: number;
+  /** Container metadata such as title or encoder */
+  tags: Record<string, string>;
+  streams: MediaStreamDetails[];
+  chapters: MediaChapter[];
+}
+
+const DISPOSITIONS = ['default', 'forced', 'dub', 'original', 'comment', 'lyrics', 'karaoke', 'hearing impaired', 'visual impaired', 'attached pic'];
+
+// ffmpeg prints NTSC rates rounded to two decimals
+const NTSC_FRAME_RATES: Record<string, number> = { '23.98': 23.976, '29.97': 29.97, '47.95': 47.952, '59.94': 59.94 };
+
+/**
+ * Splits a stream description on the commas between fields, not those
+ * inside brackets such as "yuv420p(tv, bt709, progressive)"
+ */
+function splitFields(text: string): string[] {
+  const fields: string[] = [];
+  let depth = 0;
+  let field = '';
+  for (const char of text) {
+    if (char === '(' || char === '[') depth++;
+    if (char === ')' || char === ']') depth = Math.max(0, depth - 1);
+    if (char === ',' && depth === 0) {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field.trim()) fields.push(field.trim());
+  return fields;
+}
+
+function parseStreamDetails(index: number, language: string | undefined, kind: string, codec: string, rest: string): MediaStreamDetails {
+  const stream: MediaStreamDetails = {
+    index,
+    kind: (['video', 'audio', 'subtitle', 'data', 'attachment'].includes(kind.toLowerCase()) ? kind.toLowerCase() : 'data') as MediaStreamKind,
+    codec,
+    language,
+    isDefault: /\(default\)/.test(rest),
+    isForced: /\(forced\)/.test(rest),
+    tags: {},
+  };
+
+  const fields = splitFields(rest);
+  // Dispositions like "(default)" also come in brackets
+  const profile = fields[0]?.match(/^\(([^)]+)\)/);
+  if (profile && !DISPOSITIONS.includes(profile[1])) stream.profile = profile[1];
+
+  fields.forEach((field, i) => {
+    const bitrate = field.match(/^(\d+) kb\/s/);
+    if (bitrate) stream.bitrate = parseInt(bitrate[1], 10);
+
+    if (stream.kind === 'video') {
+      const size = field.match(/^(\d+)x(\d+)/);
+      if (size && !stream.width) {
+        stream.width = parseInt(size[1], 10);
+        stream.height = parseInt(size[2], 10);
+      }
+      const fps = field.match(/^([\d.]+) fps/);
+      if (fps) stream.frameRate = NTSC_FRAME_RATES[fps[1]] ?? parseFloat(fps[1]);
+      // Pixel format follows the codec and precedes the frame size
+      if (i === 1 && /^[a-z]\w*(\(.*\))?$/.test(field) && !/^\d/.test(field)) {
+        stream.pixelFormat = field.replace(/\(.*\)$/, '');
+      }
+    }
+
+    if (stream.kind === 'audio') {
+      const rate = field.match(/^(\d+) Hz$/);
+      if (rate) {
+        stream.sampleRate = parseInt(rate[1], 10);
+        const layout = fields[i + 1];
+        if (layout) {
+          stream.channelLayout = layout;
+          stream.channels = parseChannels(layout);
+        }
+      }
+    }
+  });
+
+  return stream;
+}
+
+const parseSeconds = (h: string, m: string, s: string) =>
+  parseInt(h, 10) * 3600 + parseInt(m, 10) * 60 + parseFloat(s);
+
+/**
+ * Reads everything ffmpeg tells about the first input: container,
+ * duration and tags, every stream with its parameters, and chapters
+ */
+export function parseMediaProbe(log: string): MediaProbe {
+  const probe: MediaProbe = { tags: {}, streams: [], chapters: [] };
+  // What indented metadata lines currently belong to
+  let tags: Record<string, string> | null = null;
+  let chapter: MediaChapter | null = null;
+  let stream: MediaStreamDetails | null = null;
+  let inInput = false;
+
+  for (const line of log.split('\n')) {
+    const input = line.match(/^Input #(\d+),\s*([^,\s]+)/);
+    if (input) {
+      // Only the first input is described
+      inInput = input[1] === '0';
+      if (inInput) probe.format = input[2];
+      tags = inInput ? probe.tags : null;
+      continue;
+    }
+    if (!inInput) continue;
+    if (/^\S/.test(line)) {
+      // Output descriptions and messages end the input's block
+      inInput = false;
+      continue;
+    }
+
+    const duration = line.match(/^\s*Duration:\s*(?:(\d+):(\d{2}):(\d{2}(?:\.\d+)?)|N\/A)(?:.*bitrate:\s*(\d+) kb\/s)?/);
+    if (duration) {
+      if (duration[1]) probe.duration = parseSeconds(duration[1], duration[2], duration[3]);
+      if (duration[4]) probe.bitrate = parseInt(duration[4], 10);
+      tags = null;
+      continue;
+    }
+
+    const chapterLine = line.match(/^\s*Chapter #\d+:\d+:\s*start\s*(-?[\d.]+),\s*end\s*([\d.]+)/);
+    if (chapterLine) {
+      chapter = { start: Math.max(0, parseFloat(chapterLine[1])), end: parseFloat(chapterLine[2]) };
+      probe.chapters.push(chapter);
+      stream = null;
+      tags = null;
+      continue;
+    }
+
+    const streamLine = line.match(STREAM_LINE);
+    if (streamLine) {
+      const [, index, language, kind, codec, rest] = streamLine;
+      stream = parseStreamDetails(parseInt(index, 10), language && language !== 'und' ? language : undefined, kind, codec.toLowerCase(), rest);
+      probe.streams.push(stream);
+      chapter = null;
+      tags = null;
+      continue;
+    }
+
+    if (/^\s*Metadata:\s*$/.test(line)) {
+      tags = stream ? stream.tags : chapter ? {} : probe.tags;
+      continue;
+    }
+
+    const tag = line.match(/^\s+([^:]+?)\s*:\s?(.*)$/);
+    if (tag && tags) {
+      const [, key, value] = tag;
+      if (key === 'title' && stream) stream.title = value.trim();
+      else if (key === 'title' && chapter) chapter.title = value.trim();
+      else tags[key] = value.trim();
+    }
+  }
+
+  return probe;
+}
+
+const STREAM_KIND_LABELS: Record<MediaStreamKind, string> = {
+  video: 'Video', audio: 'Audio', subtitle: 'Subtitle', data: 'Data', attachment: 'Attachment',
+};
+
+/**
+ * One-line summary of a stream's parameters for the file info panel
+ */
+export function describeStreamDetails(stream: MediaStreamDetails): string {
+  const parts = [`${STREAM_KIND_LABELS[stream.kind]} ${stream.index}`, stream.profile ? `${stream.codec} (${stream.profile})` : stream.codec];
+  if (stream.width && stream.height) parts.push(`${stream.width}×${stream.height}`);
+  if (stream.frameRate) parts.push(`${stream.frameRate} fps`);
+  if (stream.sampleRate) parts.push(`${stream.sampleRate} Hz`);
+  if (stream.channelLayout) parts.push(stream.channelLayout);
+  if (stream.bitrate) parts.push(`${stream.bitrate} kb/s`);
+  if (stream.language) parts.push(stream.language.toUpperCase());
+  if (stream.title) parts.push(`"${stream.title}"`);
+  if (stream.isForced) parts.push('forced');
+  if (stream.isDefault) parts.push('default');
+  return parts.join(' · ');
+}
+
+/**
+ * ASS tracks keep their styling as ASS; everything else becomes SRT
+ */
+export const getSubtitleExtractFormat = (stream: SubtitleStreamInfo): 'ass' | 'srt' =>
+  stream.codec === 'ass' || stream.codec === 'ssa' ? 'ass' : 'srt';
+
+const CODEC_LABELS: Record<string, string> = {
+  subrip: 'SRT',
+  ass: 'ASS',
+  ssa: 'SSA',
+  mov_text: 'MP4 text',
+  webvtt: 'WebVTT',
+  hdmv_pgs_subtitle: 'PGS image',
+  dvd_subtitle: 'VobSub image',
+  dvb_subtitle: 'DVB image',
+};
+
+export function describeSubtitleStream(stream: SubtitleStreamInfo): string {
+  const parts = [`Track ${stream.index}`];
+  if (stream.language) parts.push(stream.language.toUpperCase());
+  if (stream.title) parts.push(stream.title);
+  parts.push(CODEC_LABELS[stream.codec] || stream.codec);
+  if (stream.isForced) parts.push('forced');
+  if (stream.isDefault) parts.push('default');
+  return parts.join(' · ');
+}
+
+// ISO 639-1 → 639-2/B, which is what Matroska and MP4 language tags use
+const ISO_639_2B: Record<string, string> = {
+  ar: 'ara', bg: 'bul', ca: 'cat', cs: 'cze', da: 'dan', de: 'ger', el: 'gre', en: 'eng',
+  es: 'spa', et: 'est', eu: 'baq', fa: 'per', fi: 'fin', fr: 'fre', he: 'heb', hi: 'hin',
+  hr: 'hrv', hu: 'hun', id: 'ind', is: 'ice', it: 'ita', ja: 'jpn', ko: 'kor', lt: 'lit',
+  lv: 'lav', mk: 'mac', ms: 'may', nl: 'dut', no: 'nor', nb: 'nob', pl: 'pol', pt: 'por',
+  ro: 'rum', ru: 'rus', sk: 'slo', sl: 'slv', sq: 'alb', sr: 'srp', sv: 'swe', th: 'tha',
+  tr: 'tur', uk: 'ukr', vi: 'vie', zh: 'chi',
+};
+
+/**
+ * Converts an API language code (en, pt-BR, zh-CN…) to a container
+ * language tag; three-letter codes pass through, unknown ones become "und"
+ */
+export function toContainerLanguage(code?: string): string {
+  if (!code) return 'und';
+  const base = code.toLowerCase().split(/[-_]/)[0];
+  if (/^[a-z]{3}$/.test(base)) return base;
+  return ISO_639_2B[base] || 'und';
+}
+
+export type MuxContainer = 'mkv' | 'mp4';
+
+export interface MuxSubtitleTrack {
+  /** SRT, ASS or WebVTT text */
+  content: string;
+  fileName: string;
+  /** API or ISO 639-2 language code */
+  language?: string;
+  title?: string;
+  isDefault?: boolean;
+  isForced?: boolean;
+}
+
+/**
+ * Builds the ffmpeg arguments that stream-copy video and audio and add each
+ * subtitle input as a track. MKV keeps SRT/ASS as-is; MP4 needs mov_text.
+ */
+export function buildMuxArgs(
+  inputName: string,
+  subtitleInputNames: string[],
+  tracks: Omit<MuxSubtitleTrack, 'content' | 'fileName'>[],
+  container: MuxContainer,
+  outputName: string
+): string[] {
+  const args = ['-i', inputName];
+  subtitleInputNames.forEach(name => args.push('-i', name));
+  args.push('-map', '0:v?', '-map', '0:a?');
+  subtitleInputNames.forEach((_, i) => args.push('-map', `${i + 1}:0`));
+  args.push('-c:v', 'copy', '-c:a', 'copy', '-c:s', container === 'mp4' ? 'mov_text' : 'copy');
+
+  tracks.forEach((track, i) => {
+    args.push(`-metadata:s:s:${i}`, `language=${toContainerLanguage(track.language)}`);
+    if (track.title) args.push(`-metadata:s:s:${i}`, `title=${track.title}`);
+    const disposition = [track.isDefault && 'default', track.isForced && 'forced'].filter(Boolean).join('+');
+    args.push(`-disposition:s:${i}`, disposition || '0');
+  });
+
+  if (container === 'mp4') args.push('-movflags', '+faststart');
+  args.push(outputName);
+  return args;
+}
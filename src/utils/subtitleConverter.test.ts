@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { buildSubtitle, convertSubtitle, getExportExtension, replaceExtension, EXPORT_FORMATS } from './subtitleConverter';
+import { parseSubtitleEntries, SubtitleEntry } from './subtitleParser';
+
+const entries: SubtitleEntry[] = [
+  { start: 1000, end: 4000, text: 'Hello\nworld' },
+  { start: 5000, end: 8250, text: 'Fish & <i>chips</i>' },
+];
+
+const srt = `1
+00:00:01,000 --> 00:00:04,000
+Hello
+world
+
+2
+00:00:05,000 --> 00:00:08,250
+Second line`;
+
+describe('buildSubtitle', () => {
+  it('builds SRT that parses back to the same cues', () => {
+    const out = buildSubtitle(entries, 'srt');
+    expect(out).toContain('00:00:01,000 --> 00:00:04,000');
+    const parsed = parseSubtitleEntries(out, 'out.srt');
+    expect(parsed).toHaveLength(2);
+    expect(parsed[0]).toMatchObject({ start: 1000, end: 4000, text: 'Hello\nworld' });
+  });
+
+  it('builds WebVTT with header', () => {
+    const out = buildSubtitle(entries, 'vtt');
+    expect(out.startsWith('WEBVTT')).toBe(true);
+    expect(out).toContain('00:00:05.000 --> 00:00:08.250');
+  });
+
+  it('builds ASS with a Default style and \\N line breaks', () => {
+    const out = buildSubtitle(entries, 'ass');
+    expect(out).toContain('[V4+ Styles]');
+    expect(out).toContain('Style: Default,');
+    expect(out).toContain('Dialogue: 0,0:00:01.00,0:00:04.00,Default,,0,0,0,,Hello\\Nworld');
+  });
+
+  it('builds SBV timestamps', () => {
+    expect(buildSubtitle(entries, 'sbv')).toContain('00:00:01.000,00:00:04.000');
+  });
+
+  it('builds LRC on a single line per cue', () => {
+    const out = buildSubtitle(entries, 'lrc');
+    expect(out).toContain('[00:01.00]Hello world');
+    expect(out).toContain('[00:05.00]Fish & chips');
+  });
+
+  it('builds TTML with escaped text', () => {
+    const out = buildSubtitle(entries, 'ttml');
+    expect(out).toContain('<tt xmlns="http://www.w3.org/ns/ttml"');
+    expect(out).toContain('<p begin="00:00:01.000" end="00:00:04.000">Hello<br/>world</p>');
+    expect(out).toContain('Fish &amp; chips');
+  });
+
+  it('builds a plain transcript without timings or tags', () => {
+    expect(buildSubtitle(entries, 'txt')).toBe('Hello world\nFish & chips\n');
+  });
+
+  it('throws for unknown formats', () => {
+    expect(() => buildSubtitle(entries, 'docx')).toThrow('Unsupported export format');
+  });
+});
+
+describe('convertSubtitle', () => {
+  it('converts SRT to VTT', () => {
+    const out = convertSubtitle(srt, 'movie.srt', 'vtt');
+    expect(out.startsWith('WEBVTT')).toBe(true);
+    expect(out).toContain('Second line');
+  });
+
+  it('sniffs the source format when the file name has no subtitle extension', () => {
+    const out = convertSubtitle(srt, 'movie.mp4', 'sbv');
+    expect(out).toContain('00:00:05.000,00:00:08.250');
+  });
+
+  it('carries styling over to the target format', () => {
+    const styled = '1\n00:00:01,000 --> 00:00:02,000\n{\\an8}<i>Hello</i> world\n';
+    expect(convertSubtitle(styled, 'a.srt', 'ass')).toContain(',,{\\an8}{\\i1}Hello{\\i0} world');
+    expect(parseSubtitleEntries(convertSubtitle(styled, 'a.srt', 'vtt'), 'a.vtt', { keepMarkup: true })[0].text)
+      .toBe('<i>Hello</i> world');
+
+    const ass = convertSubtitle(styled, 'a.srt', 'ass');
+    expect(parseSubtitleEntries(convertSubtitle(ass, 'a.ass', 'srt'), 'a.srt', { keepMarkup: true })[0].text)
+      .toBe('{\\an8}<i>Hello</i> world');
+  });
+
+  it('returns content untouched when already in the target format', () => {
+    expect(convertSubtitle(srt, 'movie.srt', 'srt')).toBe(srt);
+  });
+
+  it('throws instead of returning content it cannot parse', () => {
+    expect(() => convertSubtitle('not a subtitle', 'notes.srt', 'vtt')).toThrow('Could not convert notes.srt to VTT');
+  });
+});
+
+describe('export format helpers', () => {
+  it('maps every export format to an extension', () => {
+    for (const format of EXPORT_FORMATS) {
+      expect(getExportExtension(format.id)).toBe(format.extension);
+    }
+    expect(getExportExtension('plain')).toBe('txt');
+  });
+
+  it('replaces or appends extensions', () => {
+    expect(replaceExtension('movie.en.srt', 'vtt')).toBe('movie.en.vtt');
+    expect(replaceExtension('noext', 'ass')).toBe('noext.ass');
+  });
+});
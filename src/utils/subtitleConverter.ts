@@ -0,0 +1,228 @@
+// Subtitle format conversion built on top of parseSubtitleEntries
+import subsrt from 'subsrt-ts';
+import type { ContentCaption } from 'subsrt-ts/dist/types/handler';
+import { detectSubtitleFormat, SubtitleEntry, MICRODVD_DEFAULT_FPS } from './subtitleParser';
+import { parseStyledEntries, toFormatMarkup, stripMarkup } from './subtitleMarkup';
+
+export interface ExportFormat {
+  id: string;
+  label: string;
+  extension: string;
+}
+
+export const EXPORT_FORMATS: ExportFormat[] = [
+  { id: 'srt', label: 'SRT (SubRip)', extension: 'srt' },
+  { id: 'vtt', label: 'VTT (WebVTT)', extension: 'vtt' },
+  { id: 'ass', label: 'ASS (Advanced SubStation)', extension: 'ass' },
+  { id: 'ssa', label: 'SSA (SubStation Alpha)', extension: 'ssa' },
+  { id: 'sbv', label: 'SBV (YouTube)', extension: 'sbv' },
+  { id: 'lrc', label: 'LRC (Lyrics)', extension: 'lrc' },
+  { id: 'sub', label: 'SUB (MicroDVD)', extension: 'sub' },
+  { id: 'ttml', label: 'TTML', extension: 'ttml' },
+  { id: 'dfxp', label: 'DFXP', extension: 'dfxp' },
+  { id: 'txt', label: 'Plain transcript', extension: 'txt' },
+];
+
+export const getExportFormat = (format: string): ExportFormat | undefined =>
+  EXPORT_FORMATS.find(f => f.id === format.toLowerCase());
+
+export const getExportExtension = (format: string): string =>
+  getExportFormat(format)?.extension || 'txt';
+
+/**
+ * Replaces (or appends) the extension of a file name
+ */
+export function replaceExtension(fileName: string, extension: string): string {
+  const dot = fileName.lastIndexOf('.');
+  const base = dot > 0 ? fileName.substring(0, dot) : fileName;
+  return `${base}.${extension}`;
+}
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+function splitMs(ms: number) {
+  const clamped = Math.max(0, Math.round(ms));
+  return {
+    h: Math.floor(clamped / 3600000),
+    m: Math.floor((clamped % 3600000) / 60000),
+    s: Math.floor((clamped % 60000) / 1000),
+    ms: clamped % 1000,
+  };
+}
+
+/** h:mm:ss.cc — ASS/SSA timestamps use centiseconds */
+export function formatAssTime(ms: number): string {
+  const t = splitMs(ms);
+  return `${t.h}:${pad(t.m)}:${pad(t.s)}.${pad(Math.floor(t.ms / 10))}`;
+}
+
+/** hh:mm:ss.mmm — TTML clock time, also valid for WebVTT */
+export function formatClockTime(ms: number): string {
+  const t = splitMs(ms);
+  return `${pad(t.h)}:${pad(t.m)}:${pad(t.s)}.${pad(t.ms, 3)}`;
+}
+
+/** [mm:ss.cc] — LRC timestamps have no hour field */
+function formatLrcTime(ms: number): string {
+  const t = splitMs(ms);
+  return `[${pad(t.h * 60 + t.m)}:${pad(t.s)}.${pad(Math.floor(t.ms / 10))}]`;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function toCaptions(entries: SubtitleEntry[], format: string): ContentCaption[] {
+  return entries.map((e, i) => {
+    const text = toFormatMarkup(e.text, format);
+    return {
+      type: 'caption',
+      index: i + 1,
+      start: e.start,
+      end: e.end,
+      duration: e.end - e.start,
+      content: text,
+      text,
+    };
+  });
+}
+
+const ASS_HEADER = `[Script Info]
+ScriptType: v4.00+
+WrapStyle: 0
+ScaledBorderAndShadow: yes
+PlayResX: 1920
+PlayResY: 1080`;
+
+const ASS_STYLE_FORMAT = 'Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding';
+const ASS_EVENT_FORMAT = 'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text';
+
+/**
+ * White-on-outline style line; alignment uses numpad positions (2 = bottom
+ * centre, 8 = top centre)
+ */
+export function buildAssStyle(name: string, alignment = 2): string {
+  return `Style: ${name},Arial,64,&H00FFFFFF,&H000000FF,&H00000000,&H80000000,0,0,0,0,100,100,0,0,1,3,1,${alignment},60,60,50,1`;
+}
+
+export function buildAssDialogue(entry: SubtitleEntry, style = 'Default'): string {
+  const text = toFormatMarkup(entry.text, 'ass').replace(/\r?\n/g, '\\N');
+  return `Dialogue: 0,${formatAssTime(entry.start)},${formatAssTime(entry.end)},${style},,0,0,0,,${text}`;
+}
+
+/**
+ * Assembles a complete ASS script from style and dialogue lines
+ */
+export function buildAssDocument(styles: string[], dialogues: string[]): string {
+  return [
+    ASS_HEADER,
+    '',
+    '[V4+ Styles]',
+    ASS_STYLE_FORMAT,
+    ...styles,
+    '',
+    '[Events]',
+    ASS_EVENT_FORMAT,
+    ...dialogues,
+    '',
+  ].join('\n');
+}
+
+function buildAss(entries: SubtitleEntry[]): string {
+  return buildAssDocument([buildAssStyle('Default')], entries.map(e => buildAssDialogue(e)));
+}
+
+function buildLrc(entries: SubtitleEntry[]): string {
+  // LRC is one line per timestamp; blank stamps clear the lyric between cues
+  const lines: string[] = [];
+  entries.forEach((e, i) => {
+    lines.push(`${formatLrcTime(e.start)}${stripMarkup(e.text).replace(/\s*\n\s*/g, ' ')}`);
+    const next = entries[i + 1];
+    if (!next || next.start > e.end) lines.push(formatLrcTime(e.end));
+  });
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * MicroDVD counts frames rather than time; a `{1}{1}fps` header records
+ * the rate so players don't have to guess
+ */
+export function buildMicroDvd(entries: SubtitleEntry[], fps = MICRODVD_DEFAULT_FPS): string {
+  const lines = [`{1}{1}${fps}`];
+  for (const e of entries) {
+    const text = stripMarkup(e.text).replace(/\r?\n/g, '|');
+    lines.push(`{${Math.round(e.start / 1000 * fps)}}{${Math.round(e.end / 1000 * fps)}}${text}`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+function buildTtml(entries: SubtitleEntry[]): string {
+  const cues = entries.map(e => {
+    const text = escapeXml(stripMarkup(e.text)).replace(/\n/g, '<br/>');
+    return `      <p begin="${formatClockTime(e.start)}" end="${formatClockTime(e.end)}">${text}</p>`;
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<tt xmlns="http://www.w3.org/ns/ttml" xmlns:tts="http://www.w3.org/ns/ttml#styling" xml:lang="">',
+    '  <body>',
+    '    <div>',
+    ...cues,
+    '    </div>',
+    '  </body>',
+    '</tt>',
+    '',
+  ].join('\n');
+}
+
+function buildTranscript(entries: SubtitleEntry[]): string {
+  return entries
+    .map(e => stripMarkup(e.text).replace(/\s*\n\s*/g, ' ').trim())
+    .filter(t => t.length > 0)
+    .join('\n') + '\n';
+}
+
+/**
+ * Serializes subtitle entries into the given export format. Styling in the
+ * cue text (SRT-style tags) is mapped to what the format supports.
+ */
+export function buildSubtitle(entries: SubtitleEntry[], format: string): string {
+  switch (format.toLowerCase()) {
+    case 'srt':
+    case 'vtt':
+    case 'sbv':
+    case 'ssa':
+      return subsrt.build(toCaptions(entries, format), { format: format.toLowerCase(), eol: '\n' });
+    case 'ass':
+      return buildAss(entries);
+    case 'lrc':
+      return buildLrc(entries);
+    case 'sub':
+      return buildMicroDvd(entries);
+    case 'ttml':
+    case 'dfxp':
+      return buildTtml(entries);
+    case 'txt':
+      return buildTranscript(entries);
+    default:
+      throw new Error(`Unsupported export format: ${format}`);
+  }
+}
+
+/**
+ * Converts subtitle content to another format. Content already in the
+ * target format is returned untouched so styling survives. Throws when the
+ * content cannot be parsed, rather than returning it under a format it
+ * doesn't match.
+ */
+export function convertSubtitle(content: string, fileName: string, format: string): string {
+  if (detectSubtitleFormat(content, fileName).toLowerCase() === format.toLowerCase()) return content;
+  const entries = parseStyledEntries(content, fileName);
+  if (entries.length === 0) {
+    throw new Error(`Could not convert ${fileName} to ${format.toUpperCase()}: no subtitle entries found`);
+  }
+  return buildSubtitle(entries, format);
+}
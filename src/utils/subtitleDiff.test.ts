@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { alignEntries, diffWords, summarizeDiff } from './subtitleDiff';
+import { SubtitleEntry } from './subtitleParser';
+
+describe('diffWords', () => {
+  it('marks added and removed words', () => {
+    expect(diffWords('the quick fox', 'the slow fox jumps')).toEqual([
+      { type: 'equal', text: 'the' },
+      { type: 'removed', text: 'quick' },
+      { type: 'added', text: 'slow' },
+      { type: 'equal', text: 'fox' },
+      { type: 'added', text: 'jumps' },
+    ]);
+  });
+
+  it('ignores markup and whitespace differences', () => {
+    expect(diffWords('<i>Hello</i>\nworld', 'Hello  world')).toEqual([{ type: 'equal', text: 'Hello world' }]);
+  });
+});
+
+describe('alignEntries', () => {
+  const left: SubtitleEntry[] = [
+    { start: 1000, end: 3000, text: 'Hello world' },
+    { start: 4000, end: 6000, text: 'How are you' },
+    { start: 7000, end: 8000, text: 'Only on the left' },
+    { start: 10000, end: 12000, text: 'Goodbye' },
+  ];
+  const right: SubtitleEntry[] = [
+    { start: 1000, end: 3000, text: 'Hello world' },
+    { start: 4000, end: 6000, text: 'How are we' },
+    { start: 8500, end: 9500, text: 'Only on the right' },
+    { start: 10500, end: 12500, text: 'Goodbye' },
+  ];
+
+  it('classifies each row', () => {
+    const rows = alignEntries(left, right);
+    expect(rows.map(r => r.type)).toEqual(['same', 'changed', 'left-only', 'right-only', 'timing']);
+    expect(rows[4]).toMatchObject({ startDriftMs: 500, endDriftMs: 500, leftIndex: 3, rightIndex: 3 });
+  });
+
+  it('pairs a cue with the better overlapping partner', () => {
+    const rows = alignEntries(
+      [{ start: 0, end: 4000, text: 'Long cue' }],
+      [
+        { start: 0, end: 1000, text: 'Fragment' },
+        { start: 1000, end: 4000, text: 'Long cue' },
+      ],
+    );
+    expect(rows.map(r => r.type)).toEqual(['right-only', 'timing']);
+  });
+
+  it('summarizes row types', () => {
+    expect(summarizeDiff(alignEntries(left, right))).toEqual({ same: 1, changed: 1, timing: 1, leftOnly: 1, rightOnly: 1 });
+  });
+
+  it('handles empty sides', () => {
+    expect(alignEntries([], right).every(r => r.type === 'right-only')).toBe(true);
+    expect(alignEntries(left, [])).toHaveLength(4);
+  });
+});
@@ -0,0 +1,151 @@
+// Cue-by-cue comparison of two subtitle versions. Cues are paired by time
+// overlap, then compared on text (word level) and timing.
+import { SubtitleEntry } from './subtitleParser';
+
+export type DiffRowType = 'same' | 'changed' | 'timing' | 'left-only' | 'right-only';
+
+export interface WordDiffPart {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+export interface DiffRow {
+  type: DiffRowType;
+  left?: SubtitleEntry;
+  right?: SubtitleEntry;
+  leftIndex?: number;
+  rightIndex?: number;
+  /** right.start - left.start, only for paired cues */
+  startDriftMs?: number;
+  endDriftMs?: number;
+  words?: WordDiffPart[];
+}
+
+export interface DiffSummary {
+  same: number;
+  changed: number;
+  timing: number;
+  leftOnly: number;
+  rightOnly: number;
+}
+
+/** Drift below this is treated as identical timing */
+export const TIMING_TOLERANCE_MS = 100;
+
+const normalizeText = (text: string) =>
+  text.replace(/<[^>]*>/g, '').replace(/\{\\[^}]*\}/g, '').replace(/\s+/g, ' ').trim();
+
+const overlapMs = (a: SubtitleEntry, b: SubtitleEntry) =>
+  Math.min(a.end, b.end) - Math.max(a.start, b.start);
+
+/**
+ * Word-level diff via longest common subsequence
+ */
+export function diffWords(before: string, after: string): WordDiffPart[] {
+  const a = normalizeText(before).split(' ').filter(Boolean);
+  const b = normalizeText(after).split(' ').filter(Boolean);
+
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: WordDiffPart[] = [];
+  const push = (type: WordDiffPart['type'], word: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) last.text += ` ${word}`;
+    else parts.push({ type, text: word });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('equal', a[i]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+  return parts;
+}
+
+function compareCues(left: SubtitleEntry, right: SubtitleEntry, leftIndex: number, rightIndex: number): DiffRow {
+  const startDriftMs = right.start - left.start;
+  const endDriftMs = right.end - left.end;
+  const textChanged = normalizeText(left.text) !== normalizeText(right.text);
+  const drifted = Math.abs(startDriftMs) > TIMING_TOLERANCE_MS || Math.abs(endDriftMs) > TIMING_TOLERANCE_MS;
+  return {
+    type: textChanged ? 'changed' : drifted ? 'timing' : 'same',
+    left,
+    right,
+    leftIndex,
+    rightIndex,
+    startDriftMs,
+    endDriftMs,
+    words: textChanged ? diffWords(left.text, right.text) : undefined,
+  };
+}
+
+/**
+ * Aligns two cue lists by time overlap. A cue is paired with the cue on
+ * the other side it overlaps most; anything left over is reported as only
+ * present in one version. Rows come back in timeline order.
+ */
+export function alignEntries(left: SubtitleEntry[], right: SubtitleEntry[]): DiffRow[] {
+  const rows: DiffRow[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < left.length && j < right.length) {
+    const l = left[i];
+    const r = right[j];
+    const overlap = overlapMs(l, r);
+
+    if (overlap > 0) {
+      // Defer to a better partner if the next cue on either side fits more
+      const nextRight = right[j + 1];
+      const nextLeft = left[i + 1];
+      if (nextRight && overlapMs(l, nextRight) > overlap) {
+        rows.push({ type: 'right-only', right: r, rightIndex: j });
+        j++;
+        continue;
+      }
+      if (nextLeft && overlapMs(nextLeft, r) > overlap) {
+        rows.push({ type: 'left-only', left: l, leftIndex: i });
+        i++;
+        continue;
+      }
+      rows.push(compareCues(l, r, i, j));
+      i++;
+      j++;
+    } else if (l.end <= r.start) {
+      rows.push({ type: 'left-only', left: l, leftIndex: i });
+      i++;
+    } else {
+      rows.push({ type: 'right-only', right: r, rightIndex: j });
+      j++;
+    }
+  }
+
+  for (; i < left.length; i++) rows.push({ type: 'left-only', left: left[i], leftIndex: i });
+  for (; j < right.length; j++) rows.push({ type: 'right-only', right: right[j], rightIndex: j });
+  return rows;
+}
+
+export function summarizeDiff(rows: DiffRow[]): DiffSummary {
+  const summary: DiffSummary = { same: 0, changed: 0, timing: 0, leftOnly: 0, rightOnly: 0 };
+  rows.forEach(row => {
+    if (row.type === 'left-only') summary.leftOnly++;
+    else if (row.type === 'right-only') summary.rightOnly++;
+    else summary[row.type]++;
+  });
+  return summary;
+}
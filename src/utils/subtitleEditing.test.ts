@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatTimestamp,
+  parseTimestamp,
+  updateEntry,
+  deleteEntry,
+  insertEntryAfter,
+  splitEntry,
+  mergeWithNext,
+} from './subtitleEditing';
+import { SubtitleEntry } from './subtitleParser';
+import { parseStyledEntries } from './subtitleMarkup';
+import { buildSubtitle } from './subtitleConverter';
+
+const entries: SubtitleEntry[] = [
+  { start: 1000, end: 3000, text: 'Hello there' },
+  { start: 5000, end: 7000, text: 'General Kenobi' },
+];
+
+describe('timestamps', () => {
+  it('formats milliseconds', () => {
+    expect(formatTimestamp(3723004)).toBe('01:02:03,004');
+    expect(formatTimestamp(-5)).toBe('00:00:00,000');
+  });
+
+  it('parses the common timestamp shapes', () => {
+    expect(parseTimestamp('01:02:03,004')).toBe(3723004);
+    expect(parseTimestamp('01:02:03.4')).toBe(3723400);
+    expect(parseTimestamp('02:03.500')).toBe(123500);
+    expect(parseTimestamp('7')).toBe(7000);
+  });
+
+  it('rejects invalid input', () => {
+    expect(parseTimestamp('abc')).toBeNull();
+    expect(parseTimestamp('00:61:00,000')).toBeNull();
+  });
+});
+
+describe('cue operations', () => {
+  it('updates a cue without mutating the input', () => {
+    const out = updateEntry(entries, 1, { text: 'Changed' });
+    expect(out[1].text).toBe('Changed');
+    expect(entries[1].text).toBe('General Kenobi');
+  });
+
+  it('deletes a cue', () => {
+    expect(deleteEntry(entries, 0)).toEqual([entries[1]]);
+    expect(deleteEntry(entries, 5)).toBe(entries);
+  });
+
+  it('inserts a cue into the gap after another', () => {
+    const out = insertEntryAfter(entries, 0);
+    expect(out).toHaveLength(3);
+    expect(out[1]).toEqual({ start: 3000, end: 5000, text: '' });
+  });
+
+  it('inserts at the start of an empty list', () => {
+    expect(insertEntryAfter([], -1)).toEqual([{ start: 0, end: 2000, text: '' }]);
+  });
+
+  it('splits at the nearest word boundary with proportional timing', () => {
+    const out = splitEntry(entries, 0);
+    expect(out).toHaveLength(3);
+    expect(out[0]).toEqual({ start: 1000, end: 2000, text: 'Hello' });
+    expect(out[1]).toEqual({ start: 2000, end: 3000, text: 'there' });
+  });
+
+  it('splits at a given character offset', () => {
+    const out = splitEntry(entries, 1, 7);
+    expect(out[1].text).toBe('General');
+    expect(out[2].text).toBe('Kenobi');
+  });
+
+  it('merges a cue with the next one', () => {
+    const out = mergeWithNext(entries, 0);
+    expect(out).toEqual([{ start: 1000, end: 7000, text: 'Hello there\nGeneral Kenobi' }]);
+    expect(mergeWithNext(entries, 1)).toBe(entries);
+  });
+});
+
+describe('editor save round trip', () => {
+  it('writes tagged cues back unchanged', () => {
+    const srt = '1\n00:00:01,000 --> 00:00:02,000\n<i>Hello</i> world\n\n2\n00:00:03,000 --> 00:00:04,000\n{\\an8}Top\n';
+    const entries = parseStyledEntries(srt, 'a.srt');
+    expect(buildSubtitle(entries, 'srt').trim()).toBe(srt.trim());
+    // Retiming a cue leaves its text alone
+    expect(buildSubtitle(updateEntry(entries, 1, { end: 5000 }), 'srt')).toContain('{\\an8}Top');
+  });
+});
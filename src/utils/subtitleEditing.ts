@@ -0,0 +1,106 @@
+// Cue-level editing operations for SubtitleEntry lists.
+// Every operation returns a new array so callers can keep undo history.
+import type { SubtitleEntry } from './subtitleParser';
+
+const DEFAULT_CUE_MS = 2000;
+
+/**
+ * Formats milliseconds as an editable HH:MM:SS,mmm timestamp
+ */
+export function formatTimestamp(ms: number): string {
+  const clamped = Math.max(0, Math.round(ms));
+  const h = Math.floor(clamped / 3600000);
+  const m = Math.floor((clamped % 3600000) / 60000);
+  const s = Math.floor((clamped % 60000) / 1000);
+  const millis = clamped % 1000;
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')},${String(millis).padStart(3, '0')}`;
+}
+
+/**
+ * Parses HH:MM:SS,mmm / HH:MM:SS.mmm / MM:SS.mmm / SS.mmm into milliseconds.
+ * Returns null for anything that doesn't look like a timestamp.
+ */
+export function parseTimestamp(value: string): number | null {
+  const match = value.trim().match(/^(?:(?:(\d+):)?(\d{1,2}):)?(\d{1,2})(?:[.,](\d{1,3}))?$/);
+  if (!match) return null;
+  const [, h = '0', m = '0', s, frac = '0'] = match;
+  if (parseInt(m, 10) >= 60 || parseInt(s, 10) >= 60) return null;
+  return parseInt(h, 10) * 3600000 + parseInt(m, 10) * 60000 + parseInt(s, 10) * 1000 + parseInt(frac.padEnd(3, '0'), 10);
+}
+
+export function updateEntry(entries: SubtitleEntry[], index: number, changes: Partial<SubtitleEntry>): SubtitleEntry[] {
+  if (index < 0 || index >= entries.length) return entries;
+  return entries.map((e, i) => (i === index ? { ...e, ...changes } : e));
+}
+
+export function deleteEntry(entries: SubtitleEntry[], index: number): SubtitleEntry[] {
+  if (index < 0 || index >= entries.length) return entries;
+  return entries.filter((_, i) => i !== index);
+}
+
+/**
+ * Inserts an empty cue after `index` (or at the start when index is -1),
+ * filling the gap to the next cue where there is room.
+ */
+export function insertEntryAfter(entries: SubtitleEntry[], index: number): SubtitleEntry[] {
+  const prev = index >= 0 ? entries[index] : undefined;
+  const next = entries[index + 1];
+  const start = prev ? prev.end : Math.max(0, (next?.start ?? DEFAULT_CUE_MS) - DEFAULT_CUE_MS);
+  const gapEnd = next && next.start > start ? next.start : start + DEFAULT_CUE_MS;
+  const end = Math.min(gapEnd, start + DEFAULT_CUE_MS);
+  const inserted: SubtitleEntry = { start, end, text: '' };
+  return [...entries.slice(0, index + 1), inserted, ...entries.slice(index + 1)];
+}
+
+/**
+ * Splits a cue in two at a character offset. Without an offset the text is
+ * split at the line break or word boundary nearest the middle. Timing is
+ * divided in proportion to the text on each side.
+ */
+export function splitEntry(entries: SubtitleEntry[], index: number, at?: number): SubtitleEntry[] {
+  const entry = entries[index];
+  if (!entry) return entries;
+
+  const text = entry.text;
+  let splitAt = at;
+  if (splitAt === undefined || splitAt <= 0 || splitAt >= text.length) {
+    const lineBreak = text.indexOf('\n');
+    if (lineBreak > 0) {
+      splitAt = lineBreak;
+    } else {
+      const middle = Math.floor(text.length / 2);
+      const before = text.lastIndexOf(' ', middle);
+      const after = text.indexOf(' ', middle);
+      splitAt = before > 0 && (after < 0 || middle - before <= after - middle) ? before : after;
+    }
+  }
+
+  const firstText = splitAt > 0 ? text.slice(0, splitAt).trim() : text.trim();
+  const secondText = splitAt > 0 ? text.slice(splitAt).trim() : '';
+  const totalChars = firstText.length + secondText.length;
+  const ratio = totalChars > 0 ? firstText.length / totalChars : 0.5;
+  const splitTime = Math.round(entry.start + (entry.end - entry.start) * ratio);
+
+  return [
+    ...entries.slice(0, index),
+    { start: entry.start, end: splitTime, text: firstText },
+    { start: splitTime, end: entry.end, text: secondText },
+    ...entries.slice(index + 1),
+  ];
+}
+
+/**
+ * Merges a cue with the one following it
+ */
+export function mergeWithNext(entries: SubtitleEntry[], index: number): SubtitleEntry[] {
+  const current = entries[index];
+  const next = entries[index + 1];
+  if (!current || !next) return entries;
+
+  const merged: SubtitleEntry = {
+    start: Math.min(current.start, next.start),
+    end: Math.max(current.end, next.end),
+    text: [current.text, next.text].filter(t => t.trim().length > 0).join('\n'),
+  };
+  return [...entries.slice(0, index), merged, ...entries.slice(index + 2)];
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { lintEntries, summarizeLint, wrapText, autoFixEntries, autoFixSubtitle, charsPerSecond } from './subtitleLinter';
+import { SubtitleEntry } from './subtitleParser';
+
+describe('lintEntries', () => {
+  it('reports nothing for well-formed cues', () => {
+    expect(lintEntries([{ start: 0, end: 2000, text: 'Short and sweet' }])).toEqual([]);
+  });
+
+  it('flags overlaps as errors with a cue reference', () => {
+    const issues = lintEntries([
+      { start: 0, end: 3000, text: 'First' },
+      { start: 2500, end: 5000, text: 'Second' },
+    ]);
+    expect(issues).toContainEqual(expect.objectContaining({ cueIndex: 0, rule: 'overlap', severity: 'error' }));
+  });
+
+  it('flags fast reading speed, long lines and short cues', () => {
+    const issues = lintEntries([
+      { start: 0, end: 800, text: 'This line is long enough to be read far too quickly by anyone' },
+    ]);
+    expect(issues.map(i => i.rule).sort()).toEqual(['line-length', 'reading-speed', 'short-duration']);
+  });
+
+  it('ignores markup when measuring', () => {
+    const text = '<i>Exactly twenty chars</i>';
+    expect(charsPerSecond({ start: 0, end: 1000, text })).toBe(20);
+  });
+
+  it('summarizes by severity', () => {
+    expect(summarizeLint(lintEntries([
+      { start: 0, end: 3000, text: 'a' },
+      { start: 1000, end: 1500, text: 'b' },
+    ]))).toEqual({ errors: 1, warnings: 1, total: 2 });
+  });
+});
+
+describe('wrapText', () => {
+  it('leaves short text alone', () => {
+    expect(wrapText('Hello\nworld', 42)).toBe('Hello\nworld');
+  });
+
+  it('balances two lines', () => {
+    const out = wrapText('The quick brown fox jumps over the lazy dog near the river bank', 42);
+    const lines = out.split('\n');
+    expect(lines).toHaveLength(2);
+    expect(Math.abs(lines[0].length - lines[1].length)).toBeLessThan(10);
+  });
+
+  it('never breaks a line inside a tag', () => {
+    const text = '{\\an8 \\fs20}The quick brown fox jumps over <font color="#ff0000" face="Arial">the lazy dog near the river bank and far away from all of us</font> here today';
+    const out = wrapText(text, 42);
+    expect(out.split('\n').length).toBeGreaterThan(2);
+    expect(out).toContain('{\\an8 \\fs20}');
+    expect(out).toContain('<font color="#ff0000" face="Arial">');
+    expect(out.replace(/\n/g, ' ')).toBe(text);
+  });
+});
+
+describe('autoFixEntries', () => {
+  it('fixes every fixable issue without creating overlaps', () => {
+    const entries: SubtitleEntry[] = [
+      { start: 0, end: 2500, text: 'Overlapping cue' },
+      { start: 2000, end: 2400, text: 'This cue is much too fast to read comfortably' },
+      { start: 10000, end: 10200, text: 'Tiny' },
+    ];
+    const fixed = autoFixEntries(entries);
+    expect(fixed[0].end).toBe(2000);
+    expect(fixed[1].end).toBeGreaterThanOrEqual(4250);
+    expect(fixed[2].end).toBe(11000);
+    expect(lintEntries(fixed)).toEqual([]);
+  });
+
+  it('only extends into the gap before the next cue', () => {
+    const fixed = autoFixEntries([
+      { start: 0, end: 200, text: 'Quick' },
+      { start: 500, end: 2000, text: 'Next' },
+    ]);
+    expect(fixed[0].end).toBe(500);
+  });
+});
+
+describe('autoFixSubtitle', () => {
+  it('keeps the source format', () => {
+    const srt = '1\n00:00:01,000 --> 00:00:01,200\nHi\n';
+    expect(autoFixSubtitle(srt, 'a.srt')).toContain('00:00:01,000 --> 00:00:02,000');
+  });
+
+  it('keeps tags while fixing an overlap', () => {
+    const srt = '1\n00:00:01,000 --> 00:00:03,000\n{\\an8}<i>Hello</i>\n\n2\n00:00:02,500 --> 00:00:05,000\n<b>There</b>\n';
+    const fixed = autoFixSubtitle(srt, 'a.srt');
+    expect(fixed).toContain('00:00:01,000 --> 00:00:02,500\n{\\an8}<i>Hello</i>');
+    expect(fixed).toContain('<b>There</b>');
+  });
+
+  it('keeps ASS styles and per-line fields', () => {
+    const ass = [
+      '[Script Info]',
+      'ScriptType: v4.00+',
+      '',
+      '[V4+ Styles]',
+      'Format: Name, Fontname, Fontsize, PrimaryColour, Alignment',
+      'Style: Sign,Arial,40,&H0000FFFF,8',
+      '',
+      '[Events]',
+      'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+      'Dialogue: 1,0:00:01.00,0:00:03.00,Sign,Alice,10,10,20,,{\\an8}Hello',
+      'Dialogue: 0,0:00:02.50,0:00:05.00,Default,Bob,0,0,0,,{\\i1}There{\\i0}',
+    ].join('\n');
+    const lines = autoFixSubtitle(ass, 'show.ass').split('\n');
+    expect(lines.slice(0, 9)).toEqual(ass.split('\n').slice(0, 9));
+    expect(lines).toContain('Dialogue: 1,0:00:01.00,0:00:02.50,Sign,Alice,10,10,20,,{\\an8}Hello');
+    expect(lines).toContain('Dialogue: 0,0:00:02.50,0:00:05.00,Default,Bob,0,0,0,,{\\i1}There{\\i0}');
+  });
+});
@@ -0,0 +1,195 @@
+// Quality checks for subtitle cues: reading speed, line length, overlaps
+// and minimum duration, plus automatic fixes for what can be fixed safely.
+import { detectSubtitleFormat, SubtitleEntry } from './subtitleParser';
+import { parseStyledEntries, extractAssCues } from './subtitleMarkup';
+import { buildSubtitle, getExportFormat } from './subtitleConverter';
+import { restoreTranslatedSubtitle } from './translationRoundTrip';
+
+export type LintRule = 'reading-speed' | 'line-length' | 'overlap' | 'short-duration';
+export type LintSeverity = 'error' | 'warning';
+
+export interface LintIssue {
+  /** Zero-based index into the entries that were linted */
+  cueIndex: number;
+  rule: LintRule;
+  severity: LintSeverity;
+  message: string;
+}
+
+export interface LintThresholds {
+  maxCharsPerSecond: number;
+  maxLineLength: number;
+  minDurationMs: number;
+}
+
+export interface LintSummary {
+  errors: number;
+  warnings: number;
+  total: number;
+}
+
+export const DEFAULT_LINT_THRESHOLDS: LintThresholds = {
+  maxCharsPerSecond: 20,
+  maxLineLength: 42,
+  minDurationMs: 1000,
+};
+
+/** Cue text as the viewer reads it: no markup, line breaks not counted */
+const visibleText = (text: string) =>
+  text.replace(/<[^>]*>/g, '').replace(/\{\\[^}]*\}/g, '');
+
+/** Words are split on whitespace outside tags, so a tag is never broken across lines */
+const splitWords = (text: string) => text.match(/(?:<[^>]*>|\{\\[^}]*\}|\S)+/g) ?? [];
+
+const readableLength = (text: string) => visibleText(text).replace(/\s*\n\s*/g, ' ').trim().length;
+
+export function charsPerSecond(entry: SubtitleEntry): number {
+  const seconds = (entry.end - entry.start) / 1000;
+  if (seconds <= 0) return Infinity;
+  return readableLength(entry.text) / seconds;
+}
+
+/**
+ * Checks every cue and returns the issues in cue order
+ */
+export function lintEntries(entries: SubtitleEntry[], thresholds: LintThresholds = DEFAULT_LINT_THRESHOLDS): LintIssue[] {
+  const issues: LintIssue[] = [];
+
+  entries.forEach((entry, i) => {
+    const next = entries[i + 1];
+    if (next && next.start < entry.end) {
+      issues.push({
+        cueIndex: i,
+        rule: 'overlap',
+        severity: 'error',
+        message: `Overlaps cue ${i + 2} by ${entry.end - next.start} ms`,
+      });
+    }
+
+    const duration = entry.end - entry.start;
+    if (duration < thresholds.minDurationMs) {
+      issues.push({
+        cueIndex: i,
+        rule: 'short-duration',
+        severity: duration <= 0 ? 'error' : 'warning',
+        message: `Shown for only ${duration} ms (minimum ${thresholds.minDurationMs} ms)`,
+      });
+    }
+
+    const cps = charsPerSecond(entry);
+    if (duration > 0 && cps > thresholds.maxCharsPerSecond) {
+      issues.push({
+        cueIndex: i,
+        rule: 'reading-speed',
+        severity: 'warning',
+        message: `Reading speed ${cps.toFixed(1)} chars/s (maximum ${thresholds.maxCharsPerSecond})`,
+      });
+    }
+
+    const longest = Math.max(...visibleText(entry.text).split('\n').map(line => line.trim().length));
+    if (longest > thresholds.maxLineLength) {
+      issues.push({
+        cueIndex: i,
+        rule: 'line-length',
+        severity: 'warning',
+        message: `Line of ${longest} characters (maximum ${thresholds.maxLineLength})`,
+      });
+    }
+  });
+
+  return issues;
+}
+
+export function summarizeLint(issues: LintIssue[]): LintSummary {
+  const errors = issues.filter(issue => issue.severity === 'error').length;
+  return { errors, warnings: issues.length - errors, total: issues.length };
+}
+
+/**
+ * Re-wraps text so no line exceeds `maxLength`. Two lines are balanced
+ * rather than filled greedily, which reads better on screen.
+ */
+export function wrapText(text: string, maxLength: number): string {
+  const lines = text.split('\n');
+  if (lines.every(line => visibleText(line).trim().length <= maxLength)) return text;
+
+  const words = splitWords(text);
+  const joined = words.join(' ');
+  if (visibleText(joined).length <= maxLength * 2) {
+    // Pick the break that minimizes the longer of the two lines
+    let best = -1;
+    let bestLongest = Infinity;
+    for (let i = 1; i < words.length; i++) {
+      const first = visibleText(words.slice(0, i).join(' ')).length;
+      const second = visibleText(words.slice(i).join(' ')).length;
+      const longest = Math.max(first, second);
+      if (longest < bestLongest) {
+        bestLongest = longest;
+        best = i;
+      }
+    }
+    if (best > 0) return `${words.slice(0, best).join(' ')}\n${words.slice(best).join(' ')}`;
+    return joined;
+  }
+
+  const wrapped: string[] = [];
+  let current = '';
+  for (const word of words) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && visibleText(candidate).length > maxLength) {
+      wrapped.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) wrapped.push(current);
+  return wrapped.join('\n');
+}
+
+/**
+ * Fixes overlaps, over-long lines, short cues and fast reading speeds.
+ * Cues are only extended into free time before the next cue, so a fix
+ * never introduces a new overlap.
+ */
+export function autoFixEntries(entries: SubtitleEntry[], thresholds: LintThresholds = DEFAULT_LINT_THRESHOLDS): SubtitleEntry[] {
+  const fixed = entries.map(e => ({ ...e }));
+
+  fixed.forEach((entry, i) => {
+    const next = fixed[i + 1];
+
+    if (next && next.start < entry.end && next.start > entry.start) {
+      entry.end = next.start;
+    }
+
+    entry.text = wrapText(entry.text, thresholds.maxLineLength);
+
+    const neededForSpeed = Math.ceil((readableLength(entry.text) / thresholds.maxCharsPerSecond) * 1000);
+    const wantedEnd = entry.start + Math.max(thresholds.minDurationMs, neededForSpeed);
+    if (entry.end < wantedEnd) {
+      const limit = next ? Math.max(entry.end, next.start) : wantedEnd;
+      entry.end = Math.min(wantedEnd, limit);
+    }
+  });
+
+  return fixed;
+}
+
+/**
+ * Applies auto-fixes to subtitle content and writes it back in its own
+ * format (SRT when that format can't be written). ASS/SSA cues are patched
+ * in place, keeping the script's styles and each line's other fields.
+ */
+export function autoFixSubtitle(content: string, fileName: string): string {
+  const sourceFormat = detectSubtitleFormat(content, fileName).toLowerCase();
+  if (sourceFormat === 'ass' || sourceFormat === 'ssa') {
+    const cues = extractAssCues(content.split(/\r?\n/));
+    if (cues.length === 0) return content;
+    const fixed = autoFixEntries(cues.map(cue => cue.entry));
+    return restoreTranslatedSubtitle(buildSubtitle(fixed, 'srt'), content, fileName, { retime: true });
+  }
+
+  const entries = parseStyledEntries(content, fileName);
+  if (entries.length === 0) return content;
+  return buildSubtitle(autoFixEntries(entries), getExportFormat(sourceFormat) ? sourceFormat : 'srt');
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { assToHtmlMarkup, htmlToAssMarkup, toFormatMarkup, parseStyledEntries } from './subtitleMarkup';
+
+describe('assToHtmlMarkup', () => {
+  it('maps toggles, colour and position and drops the rest', () => {
+    expect(assToHtmlMarkup('{\\an8\\pos(10,20)}{\\i1}Top{\\i0}\\Nline'))
+      .toBe('{\\an8}<i>Top</i>\nline');
+    expect(assToHtmlMarkup('{\\c&H0000FF&}red{\\c} plain')).toBe('<font color="#ff0000">red</font> plain');
+    expect(assToHtmlMarkup('{\\1c&H00FF00&}green')).toBe('<font color="#00ff00">green</font>');
+  });
+
+  it('reads legacy SSA alignment', () => {
+    expect(assToHtmlMarkup('{\\a6}Top')).toBe('{\\an8}Top');
+  });
+});
+
+describe('htmlToAssMarkup', () => {
+  it('maps SRT tags to override blocks', () => {
+    expect(htmlToAssMarkup('{\\an8}<i>Hi</i> <font color="#ff0000">red</font>'))
+      .toBe('{\\an8}{\\i1}Hi{\\i0} {\\c&H0000FF&}red{\\c}');
+    expect(htmlToAssMarkup('{\\an8}Top', true)).toBe('{\\a6}Top');
+  });
+});
+
+describe('toFormatMarkup', () => {
+  const styled = '{\\an8}<i>Hello</i> <font color="#ff0000">world</font>';
+
+  it('keeps what each format can show', () => {
+    expect(toFormatMarkup(styled, 'srt')).toBe(styled);
+    expect(toFormatMarkup(styled, 'vtt')).toBe('<i>Hello</i> world');
+    expect(toFormatMarkup(styled, 'sbv')).toBe('<i>Hello</i> world');
+    expect(toFormatMarkup(styled, 'lrc')).toBe('Hello world');
+  });
+});
+
+describe('parseStyledEntries', () => {
+  it('reads ASS and MicroDVD styling in SRT form', () => {
+    const ass = '[Script Info]\nScriptType: v4.00+\n\n[V4+ Styles]\nFormat: Name\nStyle: Default\n\n[Events]\n'
+      + 'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text\n'
+      + 'Dialogue: 0,0:00:01.00,0:00:02.00,Default,,0,0,0,,{\\i1}Hi{\\i0}, you\n';
+    expect(parseStyledEntries(ass, 'a.ass')[0].text).toBe('<i>Hi</i>, you');
+
+    const sub = '{25}{50}{y:i}Hello|world\n';
+    expect(parseStyledEntries(sub, 'a.sub')[0].text).toBe('<i>Hello</i>\nworld');
+  });
+});
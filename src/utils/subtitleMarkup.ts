@@ -0,0 +1,220 @@
+// Inline styling carried across subtitle formats. Cue text is handled in
+// the SRT dialect (<i>, <b>, <u>, <s>, <font color>, plus a {\anN}
+// position tag) and written in whatever subset the target format has.
+import { parseSubtitleEntries, detectSubtitleFormat, SubtitleEntry } from './subtitleParser';
+
+const ASS_TOGGLE_TAGS = ['i', 'b', 'u', 's'];
+
+/** Tags SRT players understand */
+const SRT_TAG = /^<\/?(i|b|u|s|font)(\s[^>]*)?>$/i;
+/** WebVTT cue markup: styles, classes, voices, language, ruby and karaoke timestamps */
+const VTT_TAG = /^<\/?(i|b|u|c|v|lang|ruby|rt)([.\s][^>]*)?>$|^<\d{2}:[\d:.]+>$/i;
+/** YouTube renders the basic style tags in SBV captions */
+const SBV_TAG = /^<\/?(i|b|u)>$/i;
+const POSITION_TAG = /^\{\\an[1-9]\}$/;
+
+// Numpad positions (\an) to the legacy SSA \a values: bottom row 1-3,
+// top row 5-7, middle row 9-11
+const SSA_ALIGNMENT: Record<string, number> = { 1: 1, 2: 2, 3: 3, 4: 9, 5: 10, 6: 11, 7: 5, 8: 6, 9: 7 };
+
+/** ASS colours are &HBBGGRR& (sometimes with a leading alpha byte) */
+function assColorToHex(value: string): string {
+  const bgr = value.padStart(6, '0').slice(-6);
+  return `#${bgr.slice(4, 6)}${bgr.slice(2, 4)}${bgr.slice(0, 2)}`.toLowerCase();
+}
+
+function hexToAssColor(hex: string): string | null {
+  const rgb = hex.match(/^#?([0-9a-f]{6})$/i)?.[1];
+  return rgb ? `&H${rgb.slice(4, 6)}${rgb.slice(2, 4)}${rgb.slice(0, 2)}&`.toUpperCase() : null;
+}
+
+/**
+ * Turns ASS override blocks into SRT-style tags: style toggles and primary
+ * colour map across, a position is kept as {\anN}, the rest (\pos, \fad,
+ * karaoke...) has no equivalent and is dropped
+ */
+export function assToHtmlMarkup(text: string): string {
+  let fontOpen = false;
+  const converted = text.replace(/\{([^}]*)\}/g, (_block, body: string) => {
+    let html = '';
+    const position = body.match(/\\an([1-9])/) ?? body.match(/\\a(\d{1,2})(?=\\|$)/);
+    if (position) {
+      const an = body.includes('\\an')
+        ? position[1]
+        : Object.keys(SSA_ALIGNMENT).find(key => SSA_ALIGNMENT[key] === parseInt(position[1], 10));
+      if (an) html += `{\\an${an}}`;
+    }
+    for (const tag of ASS_TOGGLE_TAGS) {
+      // \b also takes a font weight (\b700); 0 or no value switches off
+      const toggle = body.match(new RegExp(`\\\\${tag}(\\d*)(?=\\\\|$)`));
+      if (toggle) html += toggle[1] && toggle[1] !== '0' ? `<${tag}>` : `</${tag}>`;
+    }
+    const color = body.match(/\\1?c(&H([0-9a-f]+)&?)?(?=\\|$)/i);
+    if (color || /\\r(?=\\|$)/.test(body)) {
+      if (fontOpen) html += '</font>';
+      fontOpen = !!color?.[2];
+      if (fontOpen) html += `<font color="${assColorToHex(color![2])}">`;
+    }
+    return html;
+  });
+  return converted.replace(/\\[Nn]/g, '\n').replace(/\\h/g, ' ') + (fontOpen ? '</font>' : '');
+}
+
+/**
+ * Turns SRT-style tags into ASS override blocks. Existing override blocks
+ * are left as they are; `legacy` writes positions the SSA v4 way.
+ */
+export function htmlToAssMarkup(text: string, legacy = false): string {
+  return text
+    .replace(/<(\/?)([ibus])>/gi, (_tag, closing: string, name: string) => `{\\${name.toLowerCase()}${closing ? 0 : 1}}`)
+    .replace(/<font\s[^>]*color\s*=\s*["']?(#?[0-9a-f]{6})["']?[^>]*>/gi, (tag, hex: string) => {
+      const color = hexToAssColor(hex);
+      return color ? `{\\c${color}}` : tag;
+    })
+    .replace(/<\/font>/gi, '{\\c}')
+    .replace(/<[^>]*>/g, '')
+    .replace(/\{\\an([1-9])\}/g, (tag, an: string) => legacy ? `{\\a${SSA_ALIGNMENT[an]}}` : tag);
+}
+
+export interface AssCue {
+  lineIndex: number;
+  /** Everything up to and including the comma before the Text field */
+  prefix: string;
+  /** Override blocks at the start of the text, e.g. {\an8\pos(10,20)} */
+  leadingTags: string;
+  /** Text after the leading tags, as written */
+  body: string;
+  /** Timing, with the body's styling in SRT form */
+  entry: SubtitleEntry;
+  /** Positions of the Start and End values among the prefix's comma-separated fields */
+  timeFields: { start: number; end: number };
+}
+
+function parseAssTime(value: string): number | null {
+  const match = value.trim().match(/^(\d+):(\d{2}):(\d{2})[.:](\d{1,3})$/);
+  if (!match) return null;
+  const [, h, m, s, fraction] = match;
+  return (parseInt(h, 10) * 3600 + parseInt(m, 10) * 60 + parseInt(s, 10)) * 1000
+    + Math.round(parseFloat(`0.${fraction}`) * 1000);
+}
+
+/**
+ * Collects the Dialogue lines of an ASS/SSA script, using the [Events]
+ * Format line to find the timing and text fields
+ */
+export function extractAssCues(lines: string[]): AssCue[] {
+  const cues: AssCue[] = [];
+  let inEvents = false;
+  let fields = ['layer', 'start', 'end', 'style', 'name', 'marginl', 'marginr', 'marginv', 'effect', 'text'];
+
+  lines.forEach((line, lineIndex) => {
+    const trimmed = line.trim();
+    if (trimmed.startsWith('[')) {
+      inEvents = trimmed.toLowerCase() === '[events]';
+      return;
+    }
+    if (!inEvents) return;
+    if (/^format\s*:/i.test(trimmed)) {
+      fields = trimmed.slice(trimmed.indexOf(':') + 1).split(',').map(f => f.trim().toLowerCase());
+      return;
+    }
+    const dialogue = line.match(/^(\s*Dialogue\s*:\s*)(.*)$/i);
+    if (!dialogue) return;
+
+    // Text is always the last field and may itself contain commas
+    const values: string[] = [];
+    let rest = dialogue[2];
+    for (let i = 0; i < fields.length - 1; i++) {
+      const comma = rest.indexOf(',');
+      if (comma < 0) return;
+      values.push(rest.slice(0, comma));
+      rest = rest.slice(comma + 1);
+    }
+    const timeFields = { start: fields.indexOf('start'), end: fields.indexOf('end') };
+    const start = parseAssTime(values[timeFields.start] ?? '');
+    const end = parseAssTime(values[timeFields.end] ?? '');
+    if (start === null || end === null) return;
+
+    const leadingTags = rest.match(/^(\{[^}]*\})*/)?.[0] || '';
+    // Vector drawings carry no text
+    if (/\\p[1-9]/.test(leadingTags)) return;
+    const body = rest.slice(leadingTags.length);
+    const text = assToHtmlMarkup(body);
+    if (text.replace(/<[^>]*>/g, '').trim() === '') return;
+
+    cues.push({
+      lineIndex,
+      prefix: line.slice(0, line.length - rest.length),
+      leadingTags,
+      body,
+      entry: { start, end, text },
+      timeFields,
+    });
+  });
+  return cues;
+}
+
+
+const keepMatching = (text: string, keepTag: RegExp, keepBlock?: RegExp) =>
+  text
+    .replace(/<[^>]*>/g, tag => keepTag.test(tag) ? tag : '')
+    .replace(/\{\\[^}]*\}/g, block => keepBlock?.test(block) ? block : '');
+
+export const stripMarkup = (text: string) => text.replace(/<[^>]*>/g, '').replace(/\{\\[^}]*\}/g, '');
+
+/**
+ * Cue text with the styling the target format can express
+ */
+export function toFormatMarkup(text: string, format: string): string {
+  switch (format.toLowerCase()) {
+    case 'srt':
+      return keepMatching(text, SRT_TAG, POSITION_TAG);
+    case 'vtt':
+      return keepMatching(text, VTT_TAG);
+    case 'sbv':
+      return keepMatching(text, SBV_TAG);
+    case 'ass':
+      return htmlToAssMarkup(text);
+    case 'ssa':
+      return htmlToAssMarkup(text, true);
+    default:
+      return stripMarkup(text);
+  }
+}
+
+/** MicroDVD {y:i} styles the line, {Y:i} the whole cue */
+function microDvdToHtmlMarkup(text: string): string {
+  let cueTags: string[] = [];
+  const lines = text.split('\n').map(line => {
+    let lineTags: string[] = [];
+    const body = line.replace(/\{([yY]):([^}]*)\}/g, (_code, scope: string, flags: string) => {
+      const tags = flags.split(',').map(f => f.trim().toLowerCase()).filter(f => ASS_TOGGLE_TAGS.includes(f));
+      if (scope === 'Y') cueTags = tags;
+      else lineTags = tags;
+      return '';
+    }).replace(/\{[^}]*\}/g, '');
+    const tags = [...cueTags, ...lineTags.filter(tag => !cueTags.includes(tag))];
+    return tags.map(tag => `<${tag}>`).join('') + body + [...tags].reverse().map(tag => `</${tag}>`).join('');
+  });
+  return lines.join('\n');
+}
+
+/**
+ * Parses cues keeping their inline styling, in the SRT dialect that
+ * buildSubtitle maps to each format
+ */
+export function parseStyledEntries(content: string, fileName: string): SubtitleEntry[] {
+  const format = detectSubtitleFormat(content, fileName).toLowerCase();
+  // subsrt-ts drops the first character of ASS text kept with its markup
+  if (format === 'ass' || format === 'ssa') {
+    return extractAssCues(content.split(/\r?\n/)).map(cue => ({
+      ...cue.entry,
+      text: assToHtmlMarkup(cue.leadingTags + cue.body),
+    }));
+  }
+  // SAMI keeps its whole HTML body as markup; only the text is usable
+  if (format === 'smi') return parseSubtitleEntries(content, fileName);
+  const entries = parseSubtitleEntries(content, fileName, { keepMarkup: true });
+  if (format === 'sub') return entries.map(e => ({ ...e, text: microDvdToHtmlMarkup(e.text) }));
+  return entries;
+}
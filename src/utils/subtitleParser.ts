@@ -15,7 +15,7 @@ export interface SubtitleEntry {
   text: string;
 }
 
-function getFormatOption(fileName: string): string {
+function getFormatOption(fileName: string, content?: string): string {
   const ext = fileName.toLowerCase().split('.').pop() || '';
   const formatMap: Record<string, string> = {
     srt: 'srt',
@@ -25,23 +25,137 @@ function getFormatOption(fileName: string): string {
     sub: 'sub',
     sbv: 'sbv',
     lrc: 'lrc',
+    ttml: 'ttml',
+    dfxp: 'ttml',
   };
-  return formatMap[ext] || 'srt';
+  if (formatMap[ext]) return formatMap[ext];
+  // Unknown extension (e.g. API results, .txt) — sniff the content instead
+  if (content && /<tt[\s>]/.test(content)) return 'ttml';
+  return (content && subsrt.detect(content)) || 'srt';
+}
+
+/**
+ * Reads the frame rate from a MicroDVD header line such as `{1}{1}23.976`
+ */
+export function getMicroDvdFps(content: string): number | null {
+  const match = content.match(/^\uFEFF?\{[01]\}\{[01]\}(\d+(?:\.\d+)?)\s*$/m);
+  const fps = match ? parseFloat(match[1]) : NaN;
+  return fps > 0 && fps < 200 ? fps : null;
+}
+
+export const MICRODVD_DEFAULT_FPS = 25;
+
+function parseMicroDvd(content: string): ContentCaption[] {
+  // subsrt-ts converts frames to seconds rather than milliseconds, so map
+  // frame numbers ourselves and honour the optional fps header
+  const fps = getMicroDvdFps(content);
+  const rate = fps || MICRODVD_DEFAULT_FPS;
+  return (subsrt.parse(content, { format: 'sub' }) as ContentCaption[])
+    .filter(c => c.type === 'caption' && c.frame)
+    .filter(c => !(fps && c.frame!.start <= 1 && c.frame!.end <= 1))
+    .map(c => ({
+      ...c,
+      start: Math.round(c.frame!.start / rate * 1000),
+      end: Math.round(c.frame!.end / rate * 1000),
+      text: (c.text || '').replace(/\r?\n/g, '\n'),
+    }));
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const n = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(n) ? String.fromCodePoint(n) : entity;
+    }
+    return XML_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function getXmlAttribute(attributes: string, name: string): string | undefined {
+  const match = attributes.match(new RegExp(`(?:^|\\s)(?:[\\w-]+:)?${name}\\s*=\\s*("([^"]*)"|'([^']*)')`));
+  return match ? (match[2] ?? match[3]) : undefined;
+}
+
+/**
+ * Parses a TTML time expression: clock time (hh:mm:ss.fff or hh:mm:ss:ff)
+ * or an offset such as 1.5s, 200ms or 9000t
+ */
+function parseTtmlTime(value: string | undefined, frameRate: number, tickRate: number): number | null {
+  if (!value) return null;
+  const v = value.trim();
+  const clock = v.match(/^(\d+):(\d{2}):(\d{2})(?:\.(\d+)|:(\d+)(?:\.\d+)?)?$/);
+  if (clock) {
+    const [, h, m, s, fraction, frames] = clock;
+    let ms = (parseInt(h, 10) * 3600 + parseInt(m, 10) * 60 + parseInt(s, 10)) * 1000;
+    if (fraction) ms += Math.round(parseFloat(`0.${fraction}`) * 1000);
+    if (frames) ms += Math.round(parseInt(frames, 10) / frameRate * 1000);
+    return ms;
+  }
+  const offset = v.match(/^(\d+(?:\.\d+)?)(h|m|s|ms|f|t)$/);
+  if (!offset) return null;
+  const n = parseFloat(offset[1]);
+  const unitMs: Record<string, number> = { h: 3600000, m: 60000, s: 1000, ms: 1, f: 1000 / frameRate, t: 1000 / tickRate };
+  return Math.round(n * unitMs[offset[2]]);
+}
+
+function parseTtml(content: string): ContentCaption[] {
+  const root = content.match(/<tt[\s>][^>]*/)?.[0] || '';
+  const frameRate = parseFloat(getXmlAttribute(root, 'frameRate') || '') || 30;
+  const tickRate = parseFloat(getXmlAttribute(root, 'tickRate') || '') || 1;
+
+  const captions: ContentCaption[] = [];
+  const paragraph = /<p(\s[^>]*)?>([\s\S]*?)<\/p>/g;
+  let match: RegExpExecArray | null;
+  while ((match = paragraph.exec(content)) !== null) {
+    const attributes = match[1] || '';
+    const start = parseTtmlTime(getXmlAttribute(attributes, 'begin'), frameRate, tickRate);
+    let end = parseTtmlTime(getXmlAttribute(attributes, 'end'), frameRate, tickRate);
+    const dur = parseTtmlTime(getXmlAttribute(attributes, 'dur'), frameRate, tickRate);
+    if (end === null && start !== null && dur !== null) end = start + dur;
+    if (start === null || end === null) continue;
+
+    const text = decodeXmlEntities(
+      match[2]
+        .replace(/\s*\n\s*/g, ' ')
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<span[^>]*fontStyle\s*=\s*["']italic["'][^>]*>([\s\S]*?)<\/span>/gi, '<i>$1</i>')
+        .replace(/<(?!\/?i>)[^>]+>/g, '')
+    ).split('\n').map(line => line.trim()).join('\n').trim();
+
+    captions.push({
+      type: 'caption',
+      index: captions.length + 1,
+      start,
+      end,
+      duration: end - start,
+      content: text,
+      text,
+    });
+  }
+  return captions;
 }
 
 function parseContent(content: string, fileName: string): ContentCaption[] {
-  const format = getFormatOption(fileName);
+  const format = getFormatOption(fileName, content);
+  if (format === 'ttml') return parseTtml(content);
+  if (format === 'sub') return parseMicroDvd(content);
   const options = format ? { format } : undefined;
   const captions = subsrt.parse(content, options);
   return captions.filter((c): c is ContentCaption => c.type === 'caption');
 }
 
-export function parseSubtitleEntries(content: string, fileName: string): SubtitleEntry[] {
+/**
+ * Parses subtitle cues. Markup such as <i> is stripped from the text unless
+ * keepMarkup is set.
+ */
+export function parseSubtitleEntries(content: string, fileName: string, options?: { keepMarkup?: boolean }): SubtitleEntry[] {
   try {
     return parseContent(content, fileName).map(c => ({
       start: c.start,
       end: c.end,
-      text: c.text || c.content || '',
+      text: ((options?.keepMarkup ? c.content || c.text : c.text || c.content) || '').replace(/\r\n/g, '\n'),
     }));
   } catch (error) {
     console.error('Error parsing subtitle entries:', error);
@@ -50,7 +164,7 @@ export function parseSubtitleEntries(content: string, fileName: string): Subtitl
 }
 
 export function detectSubtitleFormat(content: string, fileName: string): string {
-  const ext = getFormatOption(fileName);
+  const ext = getFormatOption(fileName, content);
   return ext.toUpperCase();
 }
 
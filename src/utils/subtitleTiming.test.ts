@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findCueAt,
+  shiftEntries,
+  stretchEntries,
+  convertFrameRate,
+  retimeEntries,
+  retimeSubtitle,
+  hasRetiming,
+  getFpsConversion,
+} from './subtitleTiming';
+import { SubtitleEntry } from './subtitleParser';
+
+const entries: SubtitleEntry[] = [
+  { start: 1000, end: 3000, text: 'One' },
+  { start: 10000, end: 12000, text: 'Two' },
+];
+
+describe('shiftEntries', () => {
+  it('shifts every cue by a constant offset', () => {
+    expect(shiftEntries(entries, 1500).map(e => e.start)).toEqual([2500, 11500]);
+  });
+
+  it('clamps at zero and drops cues shifted out entirely', () => {
+    const out = shiftEntries(entries, -2000);
+    expect(out[0]).toMatchObject({ start: 0, end: 1000 });
+    expect(shiftEntries(entries, -5000)).toHaveLength(1);
+  });
+});
+
+describe('stretchEntries', () => {
+  it('maps both sync points exactly and interpolates between them', () => {
+    const out = stretchEntries(entries, { from: 1000, to: 2000 }, { from: 10000, to: 20000 });
+    expect(out[0].start).toBe(2000);
+    expect(out[1].start).toBe(20000);
+    expect(out[0].end).toBe(2000 + 2000 * (18000 / 9000));
+  });
+
+  it('rejects degenerate sync points', () => {
+    expect(() => stretchEntries(entries, { from: 1000, to: 0 }, { from: 1000, to: 5000 })).toThrow();
+    expect(() => stretchEntries(entries, { from: 1000, to: 5000 }, { from: 2000, to: 1000 })).toThrow();
+  });
+});
+
+describe('convertFrameRate', () => {
+  it('speeds up 23.976 fps timings for a 25 fps release', () => {
+    const out = convertFrameRate([{ start: 0, end: 25000, text: 'x' }], 23.976, 25);
+    expect(out[0].end).toBe(23976);
+  });
+
+  it('round-trips through the preset pair', () => {
+    const pal = getFpsConversion('23.976:25')!;
+    const back = getFpsConversion('25:23.976')!;
+    const out = convertFrameRate(convertFrameRate(entries, pal.inFps, pal.outFps), back.inFps, back.outFps);
+    expect(out[1].start).toBeCloseTo(10000, -1);
+  });
+});
+
+describe('retimeEntries', () => {
+  it('applies the offset after frame-rate conversion', () => {
+    const out = retimeEntries([{ start: 25000, end: 26000, text: 'x' }], { inFps: 23.976, outFps: 25, offsetMs: 24 });
+    expect(out[0].start).toBe(24000);
+  });
+
+  it('reports whether options change anything', () => {
+    expect(hasRetiming({})).toBe(false);
+    expect(hasRetiming({ inFps: 25, outFps: 25 })).toBe(false);
+    expect(hasRetiming({ offsetMs: -100 })).toBe(true);
+  });
+});
+
+describe('retimeSubtitle', () => {
+  const srt = '1\n00:00:01,000 --> 00:00:02,000\nHello\n';
+
+  it('keeps the source format', () => {
+    expect(retimeSubtitle(srt, 'a.srt', { offsetMs: 500 })).toContain('00:00:01,500 --> 00:00:02,500');
+  });
+
+  it('writes a requested format', () => {
+    expect(retimeSubtitle(srt, 'a.srt', { offsetMs: 500 }, 'vtt')).toContain('00:00:01.500 --> 00:00:02.500');
+  });
+
+  it('keeps inline tags', () => {
+    const styled = '1\n00:00:01,000 --> 00:00:02,000\n{\\an8}<i>Hello</i>\n';
+    expect(retimeSubtitle(styled, 'a.srt', { offsetMs: 500 })).toContain('{\\an8}<i>Hello</i>');
+    expect(retimeSubtitle(styled, 'a.srt', { offsetMs: 500 }, 'ass')).toContain(',,{\\an8}{\\i1}Hello{\\i0}');
+  });
+
+  it('throws when nothing can be parsed', () => {
+    expect(() => retimeSubtitle('garbage', 'a.srt', { offsetMs: 1 })).toThrow('No subtitle entries');
+  });
+});
+
+describe('findCueAt', () => {
+  const entries = [
+    { start: 1000, end: 3000, text: 'a' },
+    { start: 2500, end: 4000, text: 'b' },
+    { start: 6000, end: 7000, text: 'c' },
+  ];
+
+  it('finds the cue on screen', () => {
+    expect(findCueAt(entries, 1000)).toBe(0);
+    expect(findCueAt(entries, 6999)).toBe(2);
+  });
+
+  it('prefers the later cue when they overlap', () => {
+    expect(findCueAt(entries, 2800)).toBe(1);
+  });
+
+  it('returns -1 between cues', () => {
+    expect(findCueAt(entries, 5000)).toBe(-1);
+    expect(findCueAt(entries, 7000)).toBe(-1);
+  });
+});
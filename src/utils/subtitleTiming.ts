@@ -0,0 +1,141 @@
+// Local retiming of subtitle entries: constant offset, two-point linear
+// stretch and frame-rate conversion. Mirrors the server-side timeshift /
+// in_fps / out_fps download options for content we already have.
+import { detectSubtitleFormat, SubtitleEntry } from './subtitleParser';
+import { buildSubtitle, getExportFormat } from './subtitleConverter';
+import { parseStyledEntries } from './subtitleMarkup';
+
+export interface SyncPoint {
+  /** Current time of a cue, in ms */
+  from: number;
+  /** Time it should appear at, in ms */
+  to: number;
+}
+
+export interface FpsConversion {
+  id: string;
+  label: string;
+  inFps: number;
+  outFps: number;
+}
+
+export const FPS_CONVERSIONS: FpsConversion[] = [
+  { id: '23.976:25', label: '23.976 → 25 (NTSC film → PAL)', inFps: 23.976, outFps: 25 },
+  { id: '25:23.976', label: '25 → 23.976 (PAL → NTSC film)', inFps: 25, outFps: 23.976 },
+  { id: '24:25', label: '24 → 25', inFps: 24, outFps: 25 },
+  { id: '25:24', label: '25 → 24', inFps: 25, outFps: 24 },
+  { id: '23.976:24', label: '23.976 → 24', inFps: 23.976, outFps: 24 },
+  { id: '24:23.976', label: '24 → 23.976', inFps: 24, outFps: 23.976 },
+  { id: '29.97:25', label: '29.97 → 25', inFps: 29.97, outFps: 25 },
+  { id: '25:29.97', label: '25 → 29.97', inFps: 25, outFps: 29.97 },
+];
+
+export const getFpsConversion = (id: string): FpsConversion | undefined =>
+  FPS_CONVERSIONS.find(c => c.id === id);
+
+export interface RetimeOptions {
+  offsetMs?: number;
+  inFps?: number;
+  outFps?: number;
+}
+
+/**
+ * Applies a time mapping to every cue. Cues pushed before zero are clamped,
+ * and cues that end up with no duration are dropped.
+ */
+function mapTimes(entries: SubtitleEntry[], map: (ms: number) => number): SubtitleEntry[] {
+  return entries
+    .map(e => ({ ...e, start: Math.max(0, Math.round(map(e.start))), end: Math.max(0, Math.round(map(e.end))) }))
+    .filter(e => e.end > e.start);
+}
+
+export function shiftEntries(entries: SubtitleEntry[], offsetMs: number): SubtitleEntry[] {
+  if (!offsetMs) return entries;
+  return mapTimes(entries, ms => ms + offsetMs);
+}
+
+/**
+ * Linearly maps times so that `first.from` lands on `first.to` and
+ * `second.from` lands on `second.to`. Fixes both offset and drift.
+ */
+export function stretchEntries(entries: SubtitleEntry[], first: SyncPoint, second: SyncPoint): SubtitleEntry[] {
+  if (first.from === second.from) {
+    throw new Error('Sync points must refer to different times');
+  }
+  const scale = (second.to - first.to) / (second.from - first.from);
+  if (scale <= 0) {
+    throw new Error('Sync points must keep their order');
+  }
+  return mapTimes(entries, ms => first.to + (ms - first.from) * scale);
+}
+
+/**
+ * Converts timings authored against one frame rate to another, e.g. a
+ * 23.976 fps subtitle for a 25 fps (PAL speed-up) release.
+ */
+export function convertFrameRate(entries: SubtitleEntry[], inFps: number, outFps: number): SubtitleEntry[] {
+  if (inFps <= 0 || outFps <= 0) {
+    throw new Error('Frame rates must be positive');
+  }
+  if (inFps === outFps) return entries;
+  const scale = inFps / outFps;
+  return mapTimes(entries, ms => ms * scale);
+}
+
+/**
+ * Maps every time through `ms * scale + offsetMs`, the form automatic audio
+ * sync produces
+ */
+export function scaleAndShiftEntries(entries: SubtitleEntry[], scale: number, offsetMs: number): SubtitleEntry[] {
+  if (scale <= 0) {
+    throw new Error('Scale must be positive');
+  }
+  if (scale === 1) return shiftEntries(entries, offsetMs);
+  return mapTimes(entries, ms => ms * scale + offsetMs);
+}
+
+/**
+ * Applies frame-rate conversion then offset. Offset is applied last so it is
+ * expressed in the target timeline.
+ */
+export function retimeEntries(entries: SubtitleEntry[], options: RetimeOptions): SubtitleEntry[] {
+  let result = entries;
+  if (options.inFps && options.outFps) {
+    result = convertFrameRate(result, options.inFps, options.outFps);
+  }
+  if (options.offsetMs) {
+    result = shiftEntries(result, options.offsetMs);
+  }
+  return result;
+}
+
+export const hasRetiming = (options: RetimeOptions): boolean =>
+  !!options.offsetMs || (!!options.inFps && !!options.outFps && options.inFps !== options.outFps);
+
+/**
+ * Retimes subtitle content and serializes it. Writes `format` when given,
+ * otherwise keeps the source format (SRT when it can't be written back).
+ */
+export function retimeSubtitle(content: string, fileName: string, options: RetimeOptions, format?: string): string {
+  const entries = parseStyledEntries(content, fileName);
+  if (entries.length === 0) {
+    throw new Error('No subtitle entries found to retime');
+  }
+  const sourceFormat = detectSubtitleFormat(content, fileName).toLowerCase();
+  const targetFormat = format || (getExportFormat(sourceFormat) ? sourceFormat : 'srt');
+  return buildSubtitle(retimeEntries(entries, options), targetFormat);
+}
+
+/**
+ * Index of the cue showing at `timeMs` (the latest-starting one when cues
+ * overlap), or -1 between cues
+ */
+export function findCueAt(entries: SubtitleEntry[], timeMs: number): number {
+  let found = -1;
+  for (let i = 0; i < entries.length; i++) {
+    if (entries[i].start <= timeMs && timeMs < entries[i].end) {
+      if (found < 0 || entries[i].start >= entries[found].start) found = i;
+    }
+  }
+  return found;
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { resolveMediaRange, getRangeLength } from './timeRange';
+
+describe('resolveMediaRange', () => {
+  it('treats empty inputs as the whole file', () => {
+    expect(resolveMediaRange('', '', 600)).toEqual({ ok: true, range: null });
+  });
+
+  it('skips an intro', () => {
+    expect(resolveMediaRange('3:00', '', 600)).toEqual({ ok: true, range: { startSeconds: 180, durationSeconds: undefined } });
+  });
+
+  it('cuts a clip', () => {
+    expect(resolveMediaRange('00:01:30', '00:11:30.5', 3600)).toEqual({
+      ok: true,
+      range: { startSeconds: 90, durationSeconds: 600.5 },
+    });
+  });
+
+  it('clamps an end past the file to the end', () => {
+    expect(resolveMediaRange('', '2:00:00', 600)).toEqual({ ok: true, range: null });
+  });
+
+  it('rejects unusable ranges', () => {
+    expect(resolveMediaRange('abc', '', 600)).toMatchObject({ ok: false, error: expect.stringContaining('start') });
+    expect(resolveMediaRange('', '1:99', 600)).toMatchObject({ ok: false, error: expect.stringContaining('end') });
+    expect(resolveMediaRange('5:00', '4:00', 600)).toMatchObject({ ok: false, error: expect.stringContaining('after') });
+    expect(resolveMediaRange('20:00', '', 600)).toMatchObject({ ok: false, error: expect.stringContaining('past the end') });
+  });
+});
+
+describe('getRangeLength', () => {
+  it('measures the covered media', () => {
+    expect(getRangeLength(null, 600)).toBe(600);
+    expect(getRangeLength({ startSeconds: 180 }, 600)).toBe(420);
+    expect(getRangeLength({ startSeconds: 90, durationSeconds: 60 }, 600)).toBe(60);
+  });
+});
@@ -0,0 +1,48 @@
+// Part of a media file to process, entered as "from"/"to" timestamps
+import { parseTimestamp } from './subtitleEditing';
+
+export interface MediaRange {
+  startSeconds: number;
+  /** Omitted when the range runs to the end of the file */
+  durationSeconds?: number;
+}
+
+export type RangeResult =
+  | { ok: true; range: MediaRange | null }
+  | { ok: false; error: string };
+
+/**
+ * Turns the range inputs into seconds. Empty "from" means the start and
+ * empty "to" the end; a range covering the whole file comes back as null so
+ * callers can skip trimming. An end past the known duration is clamped.
+ */
+export function resolveMediaRange(from: string, to: string, mediaDurationSeconds?: number): RangeResult {
+  const startMs = from.trim() ? parseTimestamp(from) : 0;
+  if (startMs === null) return { ok: false, error: `"${from}" is not a valid start time` };
+  let endMs = to.trim() ? parseTimestamp(to) : null;
+  if (to.trim() && endMs === null) return { ok: false, error: `"${to}" is not a valid end time` };
+
+  const durationMs = mediaDurationSeconds !== undefined ? Math.round(mediaDurationSeconds * 1000) : undefined;
+  if (durationMs !== undefined) {
+    if (startMs >= durationMs) return { ok: false, error: 'The start time is past the end of the file' };
+    if (endMs !== null && endMs >= durationMs) endMs = null;
+  }
+  if (endMs !== null && endMs <= startMs) return { ok: false, error: 'The end time must be after the start time' };
+
+  if (startMs === 0 && endMs === null) return { ok: true, range: null };
+  return {
+    ok: true,
+    range: {
+      startSeconds: startMs / 1000,
+      durationSeconds: endMs !== null ? (endMs - startMs) / 1000 : undefined,
+    },
+  };
+}
+
+/**
+ * Seconds of media the range covers
+ */
+export function getRangeLength(range: MediaRange | null, mediaDurationSeconds: number): number {
+  if (!range) return mediaDurationSeconds;
+  return range.durationSeconds ?? Math.max(0, mediaDurationSeconds - range.startSeconds);
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { prepareTranslationInput, restoreTranslatedSubtitle, needsTranslationRoundTrip } from './translationRoundTrip';
+import { parseSubtitleEntries } from './subtitleParser';
+
+const ass = `[Script Info]
+Title: Test
+
+[V4+ Styles]
+Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding
+Style: Sign,Arial,40,&H00FFFFFF,&H000000FF,&H00000000,&H80000000,0,0,0,0,100,100,0,0,1,2,1,8,10,10,10,1
+
+[Events]
+Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text
+Comment: 0,0:00:00.00,0:00:01.00,Default,,0,0,0,,Timing note
+Dialogue: 0,0:00:01.00,0:00:03.50,Sign,,0,0,0,,{\\an8\\pos(960,80)}Hello, {\\i1}friend{\\i0}
+Dialogue: 0,0:00:04.00,0:00:06.00,Default,Bob,0,0,0,,First line\\NSecond line
+Dialogue: 0,0:00:06.00,0:00:07.00,Default,,0,0,0,,{\\p1}m 0 0 l 100 0 100 100`;
+
+describe('prepareTranslationInput', () => {
+  it('passes SRT and WebVTT through', () => {
+    const srt = '1\n00:00:01,000 --> 00:00:02,000\nHi\n';
+    expect(prepareTranslationInput(srt, 'a.srt')).toEqual({ content: srt, fileName: 'a.srt' });
+    expect(needsTranslationRoundTrip(srt, 'a.srt')).toBe(false);
+    expect(needsTranslationRoundTrip(ass, 'a.ass')).toBe(true);
+  });
+
+  it('sends ASS dialogue as SRT without override tags', () => {
+    const input = prepareTranslationInput(ass, 'show.ass');
+    expect(input.fileName).toBe('show.srt');
+    const entries = parseSubtitleEntries(input.content, input.fileName, { keepMarkup: true });
+    expect(entries).toEqual([
+      { start: 1000, end: 3500, text: 'Hello, <i>friend</i>' },
+      { start: 4000, end: 6000, text: 'First line\nSecond line' },
+    ]);
+  });
+
+  it('converts MicroDVD using its frame rate header', () => {
+    const sub = '{1}{1}25\n{25}{75}Hello|there\n';
+    const entries = parseSubtitleEntries(prepareTranslationInput(sub, 'a.sub').content, 'a.srt');
+    expect(entries).toEqual([{ start: 1000, end: 3000, text: 'Hello\nthere' }]);
+  });
+
+  it('reads TTML', () => {
+    const ttml = `<?xml version="1.0"?>
+<tt xmlns="http://www.w3.org/ns/ttml" ttp:tickRate="10000000">
+  <body><div>
+    <p begin="00:00:01.000" end="00:00:02.500">Fish &amp; chips<br/>today</p>
+    <p begin="30000000t" dur="1s"><span tts:fontStyle="italic">Later</span></p>
+  </div></body>
+</tt>`;
+    expect(parseSubtitleEntries(ttml, 'a.ttml', { keepMarkup: true })).toEqual([
+      { start: 1000, end: 2500, text: 'Fish & chips\ntoday' },
+      { start: 3000, end: 4000, text: '<i>Later</i>' },
+    ]);
+  });
+
+  it('rejects files without cues', () => {
+    expect(() => prepareTranslationInput('[Script Info]\n', 'empty.ass')).toThrow('No subtitle entries');
+  });
+});
+
+describe('restoreTranslatedSubtitle', () => {
+  const translated = `1
+00:00:01,000 --> 00:00:03,500
+Hola, <i>amigo</i>
+
+2
+00:00:04,000 --> 00:00:06,000
+Primera línea
+Segunda línea
+`;
+
+  it('patches ASS dialogue text and keeps styling', () => {
+    const restored = restoreTranslatedSubtitle(translated, ass, 'show.ass');
+    const lines = restored.split('\n');
+    expect(lines).toContain('Dialogue: 0,0:00:01.00,0:00:03.50,Sign,,0,0,0,,{\\an8\\pos(960,80)}Hola, {\\i1}amigo{\\i0}');
+    expect(lines).toContain('Dialogue: 0,0:00:04.00,0:00:06.00,Default,Bob,0,0,0,,Primera línea\\NSegunda línea');
+    expect(lines).toContain('Comment: 0,0:00:00.00,0:00:01.00,Default,,0,0,0,,Timing note');
+    expect(lines).toContain('Dialogue: 0,0:00:06.00,0:00:07.00,Default,,0,0,0,,{\\p1}m 0 0 l 100 0 100 100');
+    expect(restored).toContain('Style: Sign,Arial,40');
+  });
+
+  it('matches by start time when the translation drops a cue', () => {
+    const partial = '1\n00:00:04,000 --> 00:00:06,000\nSolo\n';
+    const restored = restoreTranslatedSubtitle(partial, ass, 'show.ass');
+    expect(restored).toContain('{\\an8\\pos(960,80)}Hello, {\\i1}friend{\\i0}');
+    expect(restored).toContain(',Bob,0,0,0,,Solo');
+  });
+
+  it('rebuilds other formats', () => {
+    const sbv = '0:00:01.000,0:00:03.500\nHello\n\n0:00:04.000,0:00:06.000\nBye\n';
+    const restored = restoreTranslatedSubtitle(translated, sbv, 'a.sbv');
+    expect(parseSubtitleEntries(restored, 'a.sbv')[0]).toEqual({ start: 1000, end: 3500, text: 'Hola, <i>amigo</i>' });
+
+    const lrc = '[ti:Song]\n[00:01.00]Hello\n[00:04.00]Bye\n';
+    expect(restoreTranslatedSubtitle(translated, lrc, 'a.lrc')).toMatch(/^\[ti:Song\]\n\[00:01\.00\]Hola, amigo/);
+
+    const sub = restoreTranslatedSubtitle(translated, '{1}{1}23.976\n{24}{84}Hello\n', 'a.sub');
+    expect(sub.split('\n').slice(0, 2)).toEqual(['{1}{1}23.976', '{24}{84}Hola, amigo']);
+  });
+});
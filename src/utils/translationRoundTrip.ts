@@ -0,0 +1,128 @@
+// Round trip for subtitle formats the translation API doesn't accept: the
+// file is sent as SRT and the translated cues are written back into the
+// original format. ASS/SSA scripts are patched line by line so styles,
+// positioning and leading override tags survive.
+import { parseSubtitleEntries, detectSubtitleFormat, getMicroDvdFps, SubtitleEntry } from './subtitleParser';
+import { buildSubtitle, buildMicroDvd, replaceExtension, formatAssTime } from './subtitleConverter';
+import { htmlToAssMarkup, extractAssCues, AssCue } from './subtitleMarkup';
+
+/** Formats the translation API takes as-is */
+export const NATIVE_TRANSLATION_FORMATS = ['srt', 'vtt'];
+
+/** Translated cues are matched to source cues by start time when the counts differ */
+const MATCH_TOLERANCE_MS = 500;
+
+export interface TranslationInput {
+  content: string;
+  fileName: string;
+}
+
+export interface RestoreOptions {
+  /** Also write back cue timings that differ from the original (ASS/SSA keep theirs otherwise) */
+  retime?: boolean;
+}
+
+const getFormat = (content: string, fileName: string) => detectSubtitleFormat(content, fileName).toLowerCase();
+
+export function needsTranslationRoundTrip(content: string, fileName: string): boolean {
+  return !NATIVE_TRANSLATION_FORMATS.includes(getFormat(content, fileName));
+}
+
+const srtTextToAss = (text: string) => htmlToAssMarkup(text).replace(/\r?\n/g, '\\N');
+
+const splitLines = (content: string) => content.split(/\r?\n/);
+
+/**
+ * Converts subtitle content into something the translation API accepts.
+ * SRT and WebVTT pass through untouched; everything else goes as SRT.
+ */
+export function prepareTranslationInput(content: string, fileName: string): TranslationInput {
+  const format = getFormat(content, fileName);
+  if (NATIVE_TRANSLATION_FORMATS.includes(format)) return { content, fileName };
+
+  const entries = format === 'ass' || format === 'ssa'
+    ? extractAssCues(splitLines(content)).map(c => c.entry)
+    : parseSubtitleEntries(content, fileName);
+  if (entries.length === 0) {
+    throw new Error(`No subtitle entries found in ${fileName}`);
+  }
+  return { content: buildSubtitle(entries, 'srt'), fileName: replaceExtension(fileName, 'srt') };
+}
+
+/**
+ * Pairs each source cue with its translation: by position when the counts
+ * agree, otherwise by the nearest unused start time
+ */
+function matchTranslations(source: SubtitleEntry[], translated: SubtitleEntry[]): (SubtitleEntry | null)[] {
+  if (source.length === translated.length) return translated;
+  const used = new Set<number>();
+  return source.map(cue => {
+    let best = -1;
+    translated.forEach((t, i) => {
+      if (used.has(i) || Math.abs(t.start - cue.start) > MATCH_TOLERANCE_MS) return;
+      if (best < 0 || Math.abs(t.start - cue.start) < Math.abs(translated[best].start - cue.start)) best = i;
+    });
+    if (best < 0) return null;
+    used.add(best);
+    return translated[best];
+  });
+}
+
+/** Rewrites the Start and End fields of a Dialogue line's prefix */
+function retimeAssPrefix(cue: AssCue, entry: SubtitleEntry): string {
+  if (entry.start === cue.entry.start && entry.end === cue.entry.end) return cue.prefix;
+  const head = cue.prefix.match(/^\s*Dialogue\s*:\s*/i)?.[0] ?? '';
+  const values = cue.prefix.slice(head.length).split(',');
+  values[cue.timeFields.start] = formatAssTime(entry.start);
+  values[cue.timeFields.end] = formatAssTime(entry.end);
+  return head + values.join(',');
+}
+
+function restoreAss(translated: SubtitleEntry[], original: string, retime: boolean): string {
+  const eol = original.includes('\r\n') ? '\r\n' : '\n';
+  const lines = splitLines(original);
+  const cues = extractAssCues(lines);
+  const matches = matchTranslations(cues.map(c => c.entry), translated);
+  cues.forEach((cue, i) => {
+    const match = matches[i];
+    if (match === null) return;
+    const prefix = retime ? retimeAssPrefix(cue, match) : cue.prefix;
+    lines[cue.lineIndex] = prefix + cue.leadingTags + srtTextToAss(match.text);
+  });
+  return lines.join(eol);
+}
+
+/** LRC metadata such as [ar:Artist] or [ti:Title] */
+const LRC_TAG = /^\s*\[[a-z#]+:[^\]]*\]\s*$/i;
+
+/**
+ * Writes translated cues back into the format of the original file. Content
+ * in a format the API handles natively is returned unchanged.
+ */
+export function restoreTranslatedSubtitle(
+  translated: string,
+  original: string,
+  originalFileName: string,
+  options: RestoreOptions = {},
+): string {
+  const format = getFormat(original, originalFileName);
+  if (NATIVE_TRANSLATION_FORMATS.includes(format)) return translated;
+
+  const entries = parseSubtitleEntries(translated, 'translation', { keepMarkup: true })
+    .map(e => ({ ...e, text: e.text.trim() }));
+  if (entries.length === 0) return translated;
+
+  switch (format) {
+    case 'ass':
+    case 'ssa':
+      return restoreAss(entries, original, options.retime ?? false);
+    case 'sub':
+      return buildMicroDvd(entries, getMicroDvdFps(original) ?? undefined);
+    case 'lrc': {
+      const tags = splitLines(original).filter(line => LRC_TAG.test(line));
+      return (tags.length > 0 ? tags.join('\n') + '\n' : '') + buildSubtitle(entries, 'lrc');
+    }
+    default:
+      return buildSubtitle(entries, format);
+  }
+}
@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { getUploadEncoding, uploadsAsIs, estimateUploadSize, getUploadFileName } from './uploadEncoding';
+
+describe('getUploadEncoding', () => {
+  it('falls back to MP3 128 kb/s for unknown ids', () => {
+    expect(getUploadEncoding('opus-24').args).toContain('libopus');
+    expect(getUploadEncoding('wma-8').id).toBe('mp3-128');
+    expect(getUploadEncoding().id).toBe('mp3-128');
+  });
+});
+
+describe('uploadsAsIs', () => {
+  it('sends formats the API takes unchanged with the default encoding', () => {
+    expect(uploadsAsIs('talk.MP3', false)).toBe(true);
+    expect(uploadsAsIs('talk.wav', false, 'mp3-128')).toBe(true);
+  });
+
+  it('converts other formats, processed audio and other encodings', () => {
+    expect(uploadsAsIs('talk.ogg', false)).toBe(false);
+    expect(uploadsAsIs('talk.mp3', true)).toBe(false);
+    expect(uploadsAsIs('talk.wav', false, 'opus-24')).toBe(false);
+  });
+});
+
+describe('estimateUploadSize', () => {
+  it('scales the bitrate by the duration', () => {
+    expect(estimateUploadSize('mp3-128', 60)).toBe(960000);
+    expect(estimateUploadSize('opus-24', 3600)).toBe(10800000);
+  });
+});
+
+describe('getUploadFileName', () => {
+  it('names the upload after the encoding', () => {
+    expect(getUploadFileName(new Blob([], { type: 'audio/ogg' }))).toBe('audio.ogg');
+    expect(getUploadFileName(new Blob([]))).toBe('audio.mp3');
+  });
+});
@@ -0,0 +1,103 @@
+// How the audio sent for transcription is encoded. Every preset keeps the
+// mono 16kHz track the API works on; they differ in codec and bitrate,
+// trading upload size against fidelity.
+
+export interface UploadEncoding {
+  id: string;
+  label: string;
+  description: string;
+  /** ffmpeg encoder and its options */
+  args: string[];
+  extension: string;
+  mimeType: string;
+  /** Average bitrate, for the size estimate; FLAC's depends on the audio */
+  bitrateKbps: number;
+}
+
+export const UPLOAD_ENCODINGS: UploadEncoding[] = [
+  {
+    id: 'mp3-128',
+    label: 'MP3 128 kb/s',
+    description: 'Same as the desktop app',
+    args: ['-acodec', 'libmp3lame', '-b:a', '128k'],
+    extension: 'mp3',
+    mimeType: 'audio/mpeg',
+    bitrateKbps: 128,
+  },
+  {
+    id: 'mp3-64',
+    label: 'MP3 64 kb/s',
+    description: 'Half the size with no audible loss for speech',
+    args: ['-acodec', 'libmp3lame', '-b:a', '64k'],
+    extension: 'mp3',
+    mimeType: 'audio/mpeg',
+    bitrateKbps: 64,
+  },
+  {
+    id: 'mp3-32',
+    label: 'MP3 32 kb/s',
+    description: 'Smallest MP3; fine for clear dialog',
+    args: ['-acodec', 'libmp3lame', '-b:a', '32k'],
+    extension: 'mp3',
+    mimeType: 'audio/mpeg',
+    bitrateKbps: 32,
+  },
+  {
+    id: 'opus-24',
+    label: 'Opus 24 kb/s',
+    description: 'About a fifth of the default size, tuned for voice',
+    args: ['-acodec', 'libopus', '-b:a', '24k', '-application', 'voip'],
+    extension: 'ogg',
+    mimeType: 'audio/ogg',
+    bitrateKbps: 24,
+  },
+  {
+    id: 'flac',
+    label: 'FLAC (lossless)',
+    description: 'Largest upload, keeps everything in the 16kHz track',
+    args: ['-acodec', 'flac'],
+    extension: 'flac',
+    mimeType: 'audio/flac',
+    // 16-bit mono at 16kHz is 256 kb/s raw; speech compresses to about 60%
+    bitrateKbps: 150,
+  },
+];
+
+export const DEFAULT_UPLOAD_ENCODING = 'mp3-128';
+
+// Formats the API takes as they are
+const DIRECT_UPLOAD_FORMATS = ['mp3', 'wav', 'flac', 'm4a'];
+
+/**
+ * The preset for an id, falling back to the default for unknown or
+ * missing ones so a stale setting still produces something uploadable
+ */
+export const getUploadEncoding = (id?: string): UploadEncoding =>
+  UPLOAD_ENCODINGS.find(e => e.id === id) ||
+  UPLOAD_ENCODINGS.find(e => e.id === DEFAULT_UPLOAD_ENCODING)!;
+
+/**
+ * Whether an audio file can be sent without going through ffmpeg: the API
+ * takes its format, nothing has to be applied to it and no other encoding
+ * was asked for
+ */
+export function uploadsAsIs(fileName: string, needsProcessing: boolean, encodingId?: string): boolean {
+  const ext = fileName.toLowerCase().split('.').pop() || '';
+  return DIRECT_UPLOAD_FORMATS.includes(ext) && !needsProcessing &&
+    getUploadEncoding(encodingId).id === DEFAULT_UPLOAD_ENCODING;
+}
+
+/**
+ * Approximate size in bytes of `durationSeconds` of audio in the preset
+ */
+export function estimateUploadSize(encodingId: string | undefined, durationSeconds: number): number {
+  return Math.round(getUploadEncoding(encodingId).bitrateKbps * 1000 / 8 * durationSeconds);
+}
+
+/**
+ * Upload name for encoded audio that arrived without one
+ */
+export function getUploadFileName(audio: Blob): string {
+  const encoding = UPLOAD_ENCODINGS.find(e => e.mimeType === audio.type) || getUploadEncoding();
+  return `audio.${encoding.extension}`;
+}
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { buildEnvelope, resampleEnvelope } from './waveform';
+
+describe('buildEnvelope', () => {
+  it('keeps the loudest sample of each slot', () => {
+    const samples = Int16Array.from([0, 16384, -32768, 100, -8192, 0, 0, 0, 4096]);
+    const envelope = buildEnvelope(samples, 4, 1);
+    expect(envelope.pointsPerSecond).toBe(1);
+    expect(Array.from(envelope.peaks)).toEqual([1, 0.25, 0.125]);
+  });
+
+  it('handles silence and empty input', () => {
+    expect(Array.from(buildEnvelope(new Int16Array(4), 4, 2).peaks)).toEqual([0, 0]);
+    expect(buildEnvelope(new Int16Array(0), 2000).peaks).toHaveLength(0);
+  });
+});
+
+describe('resampleEnvelope', () => {
+  const envelope = { pointsPerSecond: 2, peaks: Float32Array.from([0.1, 0.5, 0.2, 0.8, 0.3, 0.4]) };
+
+  it('takes the loudest slot per column', () => {
+    expect(resampleEnvelope(envelope, 3, 0, 3)).toEqual(Float32Array.from([0.5, 0.8, 0.4]));
+  });
+
+  it('stretches a short window over many columns', () => {
+    expect(resampleEnvelope(envelope, 4, 1, 2)).toEqual(Float32Array.from([0.2, 0.2, 0.8, 0.8]));
+  });
+
+  it('leaves columns past the end empty', () => {
+    expect(resampleEnvelope(envelope, 2, 2, 4)).toEqual(Float32Array.from([0.4, 0]));
+    expect(resampleEnvelope(envelope, 5, 3, 3)).toHaveLength(5);
+  });
+});
@@ -0,0 +1,52 @@
+// Loudness envelope for drawing waveforms. The worker decodes the audio at
+// a low sample rate and reduces it to one peak per time slot, so hours of
+// audio fit in a few hundred kilobytes.
+
+/** Decode rate for envelopes; loudness needs no more than this */
+export const ENVELOPE_SAMPLE_RATE = 2000;
+/** Peaks per second of audio; 10 ms slots are enough for cue timing */
+export const ENVELOPE_POINTS_PER_SECOND = 100;
+
+export interface WaveformEnvelope {
+  pointsPerSecond: number;
+  /** Largest absolute sample of each slot, 0–1 */
+  peaks: Float32Array;
+}
+
+/**
+ * Reduces mono 16-bit samples to one peak per slot of `1/pointsPerSecond`
+ * seconds. A partial slot at the end still gets a peak.
+ */
+export function buildEnvelope(samples: Int16Array, sampleRate: number, pointsPerSecond = ENVELOPE_POINTS_PER_SECOND): WaveformEnvelope {
+  const slotSize = Math.max(1, sampleRate / pointsPerSecond);
+  const peaks = new Float32Array(Math.ceil(samples.length / slotSize));
+  for (let i = 0; i < samples.length; i++) {
+    const slot = Math.floor(i / slotSize);
+    const value = Math.abs(samples[i]) / 32768;
+    if (value > peaks[slot]) peaks[slot] = value;
+  }
+  return { pointsPerSecond, peaks };
+}
+
+/**
+ * Peaks of the stretch from `startSeconds` to `endSeconds` resampled to
+ * `columns` values, one per pixel column. Columns covering several slots
+ * take the loudest; columns past the audio's end are zero.
+ */
+export function resampleEnvelope(envelope: WaveformEnvelope, columns: number, startSeconds: number, endSeconds: number): Float32Array {
+  const result = new Float32Array(Math.max(0, columns));
+  const span = endSeconds - startSeconds;
+  if (columns <= 0 || span <= 0) return result;
+
+  const { peaks, pointsPerSecond } = envelope;
+  for (let column = 0; column < columns; column++) {
+    const from = Math.floor((startSeconds + span * column / columns) * pointsPerSecond);
+    const to = Math.max(from + 1, Math.floor((startSeconds + span * (column + 1) / columns) * pointsPerSecond));
+    let peak = 0;
+    for (let slot = Math.max(0, from); slot < Math.min(to, peaks.length); slot++) {
+      if (peaks[slot] > peak) peak = peaks[slot];
+    }
+    result[column] = peak;
+  }
+  return result;
+}
@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Where to load the FFmpeg core from first; may contain {package} and {version} */
+  readonly VITE_FFMPEG_CORE_URL?: string;
+}
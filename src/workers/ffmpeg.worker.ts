@@ -1,172 +1,475 @@
-import { FFmpeg } from '@ffmpeg/ffmpeg';
-import { toBlobURL } from '@ffmpeg/util';
+import { FFmpeg, FFFSType } from '@ffmpeg/ffmpeg';
+import { parseAudioStreams, parseMediaProbe, buildMuxArgs, MuxContainer, MuxSubtitleTrack } from '../utils/mediaStreams';
+import { buildAudioFilterChain } from '../utils/audioFilters';
+import { getUploadEncoding } from '../utils/uploadEncoding';
+import { parseSilenceLog } from '../utils/audioChunking';
+import { buildEnvelope, ENVELOPE_SAMPLE_RATE } from '../utils/waveform';
+import { CoreSource, CORE_JS, CORE_WASM, CORE_WORKER, fetchCoreFile } from '../utils/ffmpegCore';
 
 let ffmpeg: FFmpeg | null = null;
 
-async function loadFFmpeg() {
-  ffmpeg = new FFmpeg();
+/**
+ * Jobs run one at a time, in the order they arrive: ffmpeg.wasm has a single
+ * input mount and a single progress/log stream, so everything it reports
+ * belongs to the job that is running
+ */
+interface InputJob {
+  jobId: number;
+  file: Blob;
+  inputName: string;
+}
 
-  ffmpeg.on('progress', ({ progress }) => {
-    self.postMessage({ type: 'progress', progress: progress * 100 });
-  });
+type Job =
+  | InputJob & AudioSelection & { cmd: 'encodeAudio'; outputName: string }
+  | InputJob & { cmd: 'extractPcm'; sampleRate: number; audioStreamIndex?: number }
+  | InputJob & { cmd: 'extractEnvelope'; pointsPerSecond: number; audioStreamIndex?: number }
+  | InputJob & { cmd: 'renderSpectrogram'; width: number; height: number; audioStreamIndex?: number }
+  | InputJob & { cmd: 'getMediaInfo' }
+  | InputJob & { cmd: 'detectSilence'; noiseDb: number; minSilenceSeconds: number }
+  | InputJob & { cmd: 'extractSubtitle'; streamIndex: number; format: 'srt' | 'ass' }
+  | InputJob & {
+      cmd: 'muxSubtitles';
+      subtitles: { data: Uint8Array; name: string }[];
+      tracks: Omit<MuxSubtitleTrack, 'content' | 'fileName'>[];
+      container: MuxContainer;
+    };
+
+const queue: Job[] = [];
+let currentJobId: number | null = null;
+let isRunning = false;
+
+/** Posts a message tagged with the running job's ID */
+function post(message: Record<string, unknown>, transfer: Transferable[] = []) {
+  self.postMessage({ ...message, jobId: currentJobId }, transfer);
+}
+
+function createFFmpeg(): FFmpeg {
+  const instance = new FFmpeg();
 
-  ffmpeg.on('log', ({ message }) => {
-    self.postMessage({ type: 'log', message });
+  instance.on('progress', ({ progress }) => {
+    post({ type: 'progress', progress: progress * 100 });
   });
 
-  // Load WASM core from CDN
-  const baseURL = 'https://unpkg.com/@ffmpeg/core@0.12.6/dist/esm';
-  await ffmpeg.load({
-    coreURL: await toBlobURL(`${baseURL}/ffmpeg-core.js`, 'text/javascript'),
-    wasmURL: await toBlobURL(`${baseURL}/ffmpeg-core.wasm`, 'application/wasm'),
+  instance.on('log', ({ message }) => {
+    post({ type: 'log', message });
   });
 
-  self.postMessage({ type: 'loaded' });
+  return instance;
 }
 
-async function extractAudio(
-  fileData: Uint8Array,
-  inputName: string,
-  outputName: string,
-  durationSeconds?: number
-) {
-  if (!ffmpeg) throw new Error('FFmpeg not loaded');
+async function loadFromSource(instance: FFmpeg, source: CoreSource) {
+  // Settled rather than all, so a failed download doesn't leak the others
+  const fetched = await Promise.allSettled([
+    fetchCoreFile(source, CORE_JS, 'text/javascript'),
+    fetchCoreFile(source, CORE_WASM, 'application/wasm'),
+    source.corePackage === 'core-mt' ? fetchCoreFile(source, CORE_WORKER, 'text/javascript') : undefined,
+  ]);
+  const urls = fetched.map(result => result.status === 'fulfilled' ? result.value : undefined);
+  try {
+    const failure = fetched.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (failure) throw failure.reason;
+    const [coreURL, wasmURL, workerURL] = urls;
+    await instance.load({ coreURL, wasmURL, workerURL });
+  } finally {
+    // The core has read them once load settles, successful or not
+    urls.forEach(url => url && URL.revokeObjectURL(url));
+  }
+}
 
-  await ffmpeg.writeFile(inputName, fileData);
+/**
+ * Loads the WASM core from the first source that works. A failed attempt
+ * (offline, blocked, hash mismatch) is reported and the next one is tried.
+ */
+async function loadFFmpeg(sources: CoreSource[]) {
+  const failures: string[] = [];
 
-  // Same parameters as desktop app: MP3, libmp3lame, mono, 16kHz
-  const args = ['-i', inputName];
-  if (durationSeconds) {
-    args.push('-t', String(durationSeconds));
+  for (const source of sources) {
+    const instance = createFFmpeg();
+    try {
+      await loadFromSource(instance, source);
+      ffmpeg = instance;
+      self.postMessage({ type: 'loaded', source: source.label, multiThread: source.corePackage === 'core-mt' });
+      return;
+    } catch (error) {
+      instance.terminate();
+      const reason = `${source.label}: ${(error as Error).message}`;
+      failures.push(reason);
+      self.postMessage({ type: 'coreFallback', message: reason });
+    }
   }
-  args.push(
-    '-vn',
-    '-acodec', 'libmp3lame',
-    '-ac', '1',
-    '-ar', '16000',
-    outputName
-  );
 
-  await ffmpeg.exec(args);
-  const data = await ffmpeg.readFile(outputName);
+  throw new Error(`Could not load the FFmpeg core (${failures.join('; ')})`);
+}
+
+const INPUT_DIR = '/input';
 
-  // Clean up virtual FS
-  await ffmpeg.deleteFile(inputName);
-  await ffmpeg.deleteFile(outputName);
+/**
+ * Mounts the input through WORKERFS so ffmpeg reads the File on demand
+ * instead of from a full copy in MEMFS; memory stays bounded whatever the
+ * input size. The mounted name keeps only the extension, which ffmpeg uses
+ * as a format hint (odd characters in real names can read as protocols).
+ */
+async function withInput<T>(file: Blob, inputName: string, run: (path: string) => Promise<T>): Promise<T> {
+  if (!ffmpeg) throw new Error('FFmpeg not loaded');
+  const instance = ffmpeg;
 
-  // Transfer buffer (zero-copy) back to main thread
-  if (data instanceof Uint8Array) {
-    self.postMessage({ type: 'result', data }, [data.buffer]);
-  } else {
-    // String response (shouldn't happen for binary)
-    self.postMessage({ type: 'result', data: new TextEncoder().encode(data as string) });
+  const name = `input${(inputName.match(/\.\w+$/)?.[0] || '').toLowerCase()}`;
+  // The directory survives from earlier jobs
+  await instance.createDir(INPUT_DIR).catch(() => undefined);
+  await instance.mount(FFFSType.WORKERFS, { blobs: [{ name, data: file }] }, INPUT_DIR);
+  try {
+    return await run(`${INPUT_DIR}/${name}`);
+  } finally {
+    await instance.unmount(INPUT_DIR);
   }
 }
 
-async function convertAudio(
-  fileData: Uint8Array,
-  inputName: string,
-  outputName: string
-) {
+/**
+ * Runs ffmpeg, then posts the output file and removes it from MEMFS (also
+ * when ffmpeg fails part-way)
+ */
+async function execToResult(args: string[], outputName: string) {
   if (!ffmpeg) throw new Error('FFmpeg not loaded');
 
-  await ffmpeg.writeFile(inputName, fileData);
+  try {
+    const exitCode = await ffmpeg.exec(args);
+    if (exitCode !== 0) throw new Error(`ffmpeg exited with code ${exitCode}`);
+    const data = await ffmpeg.readFile(outputName);
+
+    // Transfer buffer (zero-copy) back to main thread
+    if (data instanceof Uint8Array) {
+      post({ type: 'result', data }, [data.buffer]);
+    } else {
+      // String response (shouldn't happen for binary)
+      post({ type: 'result', data: new TextEncoder().encode(data as string) });
+    }
+  } finally {
+    await ffmpeg.deleteFile(outputName).catch(() => undefined);
+  }
+}
+
+interface AudioSelection {
+  startSeconds?: number;
+  durationSeconds?: number;
+  /** Without it ffmpeg picks the "best" track, which may be a dub or commentary */
+  audioStreamIndex?: number;
+  /** AUDIO_FILTER_PRESETS ids */
+  audioFilters?: string[];
+  /** Channels of the selected track, for channel-dependent presets */
+  sourceChannels?: number;
+  /** UPLOAD_ENCODINGS id; MP3 128 kb/s when unset */
+  uploadEncoding?: string;
+}
+
+/**
+ * Input arguments for the part of the file to take audio from. The seek
+ * goes before `-i` so ffmpeg jumps there instead of decoding up to it;
+ * output timestamps then start at zero.
+ */
+function audioInputArgs(input: string, { startSeconds, durationSeconds, audioStreamIndex }: AudioSelection): string[] {
+  const args: string[] = [];
+  if (startSeconds) args.push('-ss', String(startSeconds));
+  args.push('-i', input);
+  if (durationSeconds) args.push('-t', String(durationSeconds));
+  if (audioStreamIndex !== undefined) args.push('-map', `0:${audioStreamIndex}`);
+  return args;
+}
+
+function audioFilterArgs({ audioFilters, sourceChannels }: AudioSelection): string[] {
+  const chain = buildAudioFilterChain(audioFilters || [], sourceChannels);
+  return chain ? ['-af', chain] : [];
+}
 
-  await ffmpeg.exec([
-    '-i', inputName,
+/**
+ * Encodes the selected audio for upload: the soundtrack of a video or an
+ * audio file in another format. Mono 16kHz like the desktop app.
+ */
+async function encodeAudio(
+  file: Blob,
+  inputName: string,
+  outputName: string,
+  selection: AudioSelection
+) {
+  await withInput(file, inputName, (input) => execToResult([
+    ...audioInputArgs(input, selection),
     '-vn',
-    '-acodec', 'libmp3lame',
+    ...audioFilterArgs(selection),
+    ...getUploadEncoding(selection.uploadEncoding).args,
     '-ac', '1',
     '-ar', '16000',
     outputName
-  ]);
+  ], outputName));
+}
 
-  const data = await ffmpeg.readFile(outputName);
+async function extractPcm(
+  file: Blob,
+  inputName: string,
+  sampleRate: number,
+  audioStreamIndex?: number
+) {
+  // Raw mono 16-bit samples, band-limited to the speech range so music and
+  // rumble trigger the voice detector less
+  const outputName = 'pcm_output.raw';
+  await withInput(file, inputName, (input) => execToResult([
+    ...audioInputArgs(input, { audioStreamIndex }),
+    '-vn',
+    '-af', 'highpass=f=200,lowpass=f=3500',
+    '-ac', '1',
+    '-ar', String(sampleRate),
+    '-f', 's16le',
+    '-acodec', 'pcm_s16le',
+    outputName
+  ], outputName));
+}
 
-  await ffmpeg.deleteFile(inputName);
-  await ffmpeg.deleteFile(outputName);
+/**
+ * Decodes the audio at a low rate and reduces it to a loudness envelope
+ * here, so only the peaks travel back to the page
+ */
+async function extractEnvelope(
+  file: Blob,
+  inputName: string,
+  pointsPerSecond: number,
+  audioStreamIndex?: number
+) {
+  if (!ffmpeg) throw new Error('FFmpeg not loaded');
+  const instance = ffmpeg;
 
-  if (data instanceof Uint8Array) {
-    self.postMessage({ type: 'result', data }, [data.buffer]);
-  } else {
-    self.postMessage({ type: 'result', data: new TextEncoder().encode(data as string) });
+  const outputName = 'envelope_output.raw';
+  try {
+    await withInput(file, inputName, async (input) => {
+      const exitCode = await instance.exec([
+        ...audioInputArgs(input, { audioStreamIndex }),
+        '-vn',
+        '-ac', '1',
+        '-ar', String(ENVELOPE_SAMPLE_RATE),
+        '-f', 's16le',
+        '-acodec', 'pcm_s16le',
+        outputName
+      ]);
+      if (exitCode !== 0) throw new Error(`ffmpeg exited with code ${exitCode}`);
+    });
+    const data = await instance.readFile(outputName) as Uint8Array;
+    const bytes = data.byteOffset % 2 === 0 ? data : data.slice();
+    const samples = new Int16Array(bytes.buffer, bytes.byteOffset, Math.floor(bytes.byteLength / 2));
+    const envelope = buildEnvelope(samples, ENVELOPE_SAMPLE_RATE, pointsPerSecond);
+    post({ type: 'envelope', data: envelope }, [envelope.peaks.buffer]);
+  } finally {
+    await instance.deleteFile(outputName).catch(() => undefined);
   }
 }
 
-async function getMediaInfo(fileData: Uint8Array, inputName: string) {
-  if (!ffmpeg) throw new Error('FFmpeg not loaded');
+async function renderSpectrogram(
+  file: Blob,
+  inputName: string,
+  width: number,
+  height: number,
+  audioStreamIndex?: number
+) {
+  // One picture of the whole track; frequency runs bottom to top
+  const outputName = 'spectrogram_output.png';
+  await withInput(file, inputName, (input) => execToResult([
+    ...audioInputArgs(input, { audioStreamIndex }),
+    '-vn',
+    '-lavfi', `showspectrumpic=s=${width}x${height}:legend=0:color=intensity:scale=log`,
+    '-frames:v', '1',
+    outputName
+  ], outputName));
+}
 
-  await ffmpeg.writeFile(inputName, fileData);
+/**
+ * Runs ffmpeg against the input and returns its log, which describes the
+ * container and streams (no ffprobe in WASM). Only the headers are read,
+ * wherever they are in the file.
+ */
+async function probeLog(file: Blob, inputName: string): Promise<string> {
+  // No output file: ffmpeg prints the input description, then exits with
+  // an error, which is expected here
+  return execForLog(file, inputName, (input) => ['-hide_banner', '-i', input]);
+}
+
+/**
+ * Runs ffmpeg for what it logs rather than for an output file. The exit
+ * code is ignored; callers parse whatever was printed.
+ */
+async function execForLog(file: Blob, inputName: string, buildArgs: (input: string) => string[]): Promise<string> {
+  if (!ffmpeg) throw new Error('FFmpeg not loaded');
+  const instance = ffmpeg;
 
-  // Parse ffmpeg log output for media info (no ffprobe in WASM)
   let logOutput = '';
   const logHandler = ({ message }: { message: string }) => {
     logOutput += message + '\n';
   };
-  ffmpeg.on('log', logHandler);
+  instance.on('log', logHandler);
 
   try {
-    // Run ffmpeg with no output — it will error but logs contain media info
-    await ffmpeg.exec(['-i', inputName, '-f', 'null', '-']);
-  } catch {
-    // Expected: ffmpeg exits with error when no valid output
+    await withInput(file, inputName, async (input) => {
+      await instance.exec(buildArgs(input)).catch(() => undefined);
+    });
+  } finally {
+    instance.off('log', logHandler);
   }
+  return logOutput;
+}
+
+async function getMediaInfo(file: Blob, inputName: string) {
+  const logOutput = await probeLog(file, inputName);
+  const probe = parseMediaProbe(logOutput);
+
+  post({
+    type: 'mediaInfo',
+    data: {
+      duration: probe.duration,
+      hasAudio: probe.streams.some(stream => stream.kind === 'audio'),
+      hasVideo: probe.streams.some(stream => stream.kind === 'video'),
+      format: probe.format,
+      bitrate: probe.bitrate,
+      audioStreams: parseAudioStreams(logOutput),
+      streams: probe.streams,
+      tags: probe.tags,
+      chapters: probe.chapters
+    }
+  });
+}
+
+async function detectSilence(
+  file: Blob,
+  inputName: string,
+  noiseDb: number,
+  minSilenceSeconds: number
+) {
+  // Decodes the audio once and discards it; silencedetect logs the pauses
+  const logOutput = await execForLog(file, inputName, (input) => [
+    '-hide_banner',
+    '-i', input,
+    '-vn',
+    '-af', `silencedetect=noise=${noiseDb}dB:d=${minSilenceSeconds}`,
+    '-f', 'null',
+    '-'
+  ]);
+  post({ type: 'silences', data: parseSilenceLog(logOutput) });
+}
 
-  ffmpeg.off('log', logHandler);
-  await ffmpeg.deleteFile(inputName);
+async function extractSubtitle(
+  file: Blob,
+  inputName: string,
+  streamIndex: number,
+  format: 'srt' | 'ass'
+) {
+  const outputName = `subtitle_output.${format}`;
+  await withInput(file, inputName, (input) => execToResult([
+    '-i', input,
+    '-map', `0:${streamIndex}`,
+    '-c:s', format,
+    outputName
+  ], outputName));
+}
 
-  const hasAudio = /Audio:/.test(logOutput);
-  const hasVideo = /Video:/.test(logOutput);
+async function muxSubtitles(
+  file: Blob,
+  inputName: string,
+  subtitles: { data: Uint8Array; name: string }[],
+  tracks: Omit<MuxSubtitleTrack, 'content' | 'fileName'>[],
+  container: MuxContainer
+) {
+  if (!ffmpeg) throw new Error('FFmpeg not loaded');
+  const instance = ffmpeg;
 
-  const durationMatch = logOutput.match(/Duration:\s*(\d{2}):(\d{2}):(\d{2})\.(\d{2})/);
-  let duration: number | undefined;
-  if (durationMatch) {
-    duration =
-      parseInt(durationMatch[1]) * 3600 +
-      parseInt(durationMatch[2]) * 60 +
-      parseInt(durationMatch[3]) +
-      parseInt(durationMatch[4]) / 100;
+  for (const subtitle of subtitles) {
+    await instance.writeFile(subtitle.name, subtitle.data);
   }
 
-  const formatMatch = logOutput.match(/Input #0,\s*(\w+)/);
+  // The output is still built in memory, unlike the input
+  const outputName = `muxed_output.${container}`;
+  try {
+    await withInput(file, inputName, (input) =>
+      execToResult(buildMuxArgs(input, subtitles.map(s => s.name), tracks, container, outputName), outputName)
+    );
+  } finally {
+    for (const subtitle of subtitles) {
+      await instance.deleteFile(subtitle.name).catch(() => undefined);
+    }
+  }
+}
 
-  self.postMessage({
-    type: 'mediaInfo',
-    data: {
-      duration,
-      hasAudio,
-      hasVideo,
-      format: formatMatch?.[1]
+async function runJob(job: Job) {
+  switch (job.cmd) {
+    case 'encodeAudio':
+      await encodeAudio(job.file, job.inputName, job.outputName, job);
+      break;
+    case 'extractPcm':
+      await extractPcm(job.file, job.inputName, job.sampleRate, job.audioStreamIndex);
+      break;
+    case 'extractEnvelope':
+      await extractEnvelope(job.file, job.inputName, job.pointsPerSecond, job.audioStreamIndex);
+      break;
+    case 'renderSpectrogram':
+      await renderSpectrogram(job.file, job.inputName, job.width, job.height, job.audioStreamIndex);
+      break;
+    case 'getMediaInfo':
+      await getMediaInfo(job.file, job.inputName);
+      break;
+    case 'detectSilence':
+      await detectSilence(job.file, job.inputName, job.noiseDb, job.minSilenceSeconds);
+      break;
+    case 'muxSubtitles':
+      await muxSubtitles(
+        job.file,
+        job.inputName,
+        job.subtitles,
+        job.tracks,
+        job.container
+      );
+      break;
+    case 'extractSubtitle':
+      await extractSubtitle(
+        job.file,
+        job.inputName,
+        job.streamIndex,
+        job.format
+      );
+      break;
+    default:
+      // Reported to the page by drainQueue
+      throw new Error(`Unknown command: ${(job as { cmd: string }).cmd}`);
+  }
+}
+
+async function drainQueue() {
+  if (isRunning) return;
+  isRunning = true;
+  while (queue.length > 0) {
+    const job = queue.shift()!;
+    currentJobId = job.jobId;
+    post({ type: 'started' });
+    try {
+      await runJob(job);
+    } catch (error) {
+      post({ type: 'error', error: (error as Error).message });
+    } finally {
+      currentJobId = null;
     }
-  });
+  }
+  isRunning = false;
 }
 
 self.onmessage = async (e: MessageEvent) => {
-  try {
-    switch (e.data.cmd) {
-      case 'load':
-        await loadFFmpeg();
-        break;
-      case 'extractAudio':
-        await extractAudio(
-          e.data.fileData,
-          e.data.inputName,
-          e.data.outputName,
-          e.data.durationSeconds
-        );
-        break;
-      case 'convertAudio':
-        await convertAudio(
-          e.data.fileData,
-          e.data.inputName,
-          e.data.outputName
-        );
-        break;
-      case 'getMediaInfo':
-        await getMediaInfo(e.data.fileData, e.data.inputName);
-        break;
+  switch (e.data.cmd) {
+    case 'load':
+      try {
+        await loadFFmpeg(e.data.sources);
+      } catch (error) {
+        self.postMessage({ type: 'error', error: (error as Error).message });
+      }
+      break;
+    case 'cancel': {
+      // Only waiting jobs can be dropped; a running exec can't be interrupted
+      const index = queue.findIndex(job => job.jobId === e.data.jobId);
+      if (index >= 0) queue.splice(index, 1);
+      break;
     }
-  } catch (error) {
-    self.postMessage({ type: 'error', error: (error as Error).message });
+    default:
+      queue.push(e.data);
+      drainQueue();
   }
 };
@@ -1,8 +1,48 @@
 import { defineConfig } from 'vitest/config';
+import type { Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { existsSync, readFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+
+const FFMPEG_CORE_FILES: Record<string, string[]> = {
+  core: ['ffmpeg-core.js', 'ffmpeg-core.wasm'],
+  'core-mt': ['ffmpeg-core.js', 'ffmpeg-core.wasm', 'ffmpeg-core.worker.js'],
+};
+
+const ffmpegCorePath = (pkg: string, file: string) =>
+  fileURLToPath(new URL(`./node_modules/@ffmpeg/${pkg}/dist/esm/${file}`, import.meta.url));
+
+// Serves and bundles the ffmpeg.wasm core under ffmpeg/<package>/ so video
+// processing works without the CDN (see src/config/ffmpegCore.json)
+function ffmpegCore(): Plugin {
+  return {
+    name: 'ffmpeg-core',
+    configureServer(server) {
+      server.middlewares.use((req, res, next) => {
+        const match = req.url?.match(/\/ffmpeg\/(core|core-mt)\/([\w.-]+)$/);
+        const file = match && ffmpegCorePath(match[1], match[2]);
+        if (!match || !FFMPEG_CORE_FILES[match[1]].includes(match[2]) || !file || !existsSync(file)) return next();
+        res.setHeader('Content-Type', file.endsWith('.wasm') ? 'application/wasm' : 'text/javascript');
+        res.end(readFileSync(file));
+      });
+    },
+    generateBundle() {
+      for (const [pkg, files] of Object.entries(FFMPEG_CORE_FILES)) {
+        for (const file of files) {
+          const path = ffmpegCorePath(pkg, file);
+          if (!existsSync(path)) {
+            this.warn(`@ffmpeg/${pkg} is not installed; the FFmpeg core will be loaded from the CDN`);
+            break;
+          }
+          this.emitFile({ type: 'asset', fileName: `ffmpeg/${pkg}/${file}`, source: readFileSync(path) });
+        }
+      }
+    },
+  };
+}
 
 export default defineConfig({
-  plugins: [react()],
+  plugins: [react(), ffmpegCore()],
   base: './',
   build: {
     outDir: 'dist',